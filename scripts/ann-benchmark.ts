@@ -18,7 +18,10 @@
  * - BENCHMARK_RESULTS.md — polished showcase report
  * - /tmp/ann-benchmark-results.json — machine-readable
  *
- * Run: npx tsx scripts/ann-benchmark.ts
+ * Run: npx tsx scripts/ann-benchmark.ts [--backend=zvec|hnsw]
+ *
+ * --backend=hnsw benchmarks the pure-TypeScript HNSW index (no native module
+ * needed) and writes BENCHMARK_RESULTS_HNSW.md instead.
  */
 
 import { performance } from "node:perf_hooks";
@@ -28,6 +31,7 @@ import { tmpdir, homedir, cpus, totalmem, platform, arch } from "node:os";
 import crypto from "node:crypto";
 import { createRequire } from "node:module";
 import { cosineSimilarity } from "../src/embeddings.js";
+import { HnswIndex } from "../src/vector_store_hnsw.js";
 
 // ─── Constants ───────────────────────────────────────────────────────────
 
@@ -270,6 +274,35 @@ function printSection(title: string): void {
   console.error(`╚${"═".repeat(62)}╝\n`);
 }
 
+// ─── Backend selection ───────────────────────────────────────────────────
+
+const BACKEND = process.argv.find((a) => a.startsWith("--backend="))?.slice("--backend=".length) ?? "zvec";
+const BACKEND_LABEL = BACKEND === "hnsw" ? "HNSW" : "Zvec";
+
+/**
+ * Adapts HnswIndex to the path-keyed native API so every section runs
+ * unchanged. Indexes live in memory; stats() reports the serialized size.
+ */
+function createHnswBackend(): ZvecNative {
+  const indexes = new Map<string, HnswIndex>();
+  const get = (path: string): HnswIndex => {
+    const index = indexes.get(path);
+    if (!index) throw new Error(`No HNSW collection at ${path}`);
+    return index;
+  };
+  return {
+    createCollection: ({ path, dimensions }) => { indexes.set(path, new HnswIndex(dimensions)); },
+    insertVector: (path, id, vector) => get(path).insert(id, vector),
+    buildIndex: () => { /* HNSW is built incrementally on insert */ },
+    search: (path, query, k) => get(path).search(query, k),
+    deleteVector: (path, id) => get(path).delete(id),
+    stats: (path) => {
+      const index = get(path);
+      return { count: index.size, dimensions: index.dimensions, fileSizeBytes: index.serialize().length };
+    },
+  };
+}
+
 // ─── Zvec loader ─────────────────────────────────────────────────────────
 
 function loadZvecNative(): ZvecNative | null {
@@ -1007,7 +1040,7 @@ function generateMarkdown(results: BenchmarkResults): string {
     }
   }
 
-  lines.push("# MoltMind Pro — Benchmark Results");
+  lines.push(BACKEND === "hnsw" ? "# MoltMind HNSW — Benchmark Results" : "# MoltMind Pro — Benchmark Results");
   lines.push("");
   lines.push(`> Tested on ${results.meta.machine}`);
   lines.push(`> Date: ${results.meta.date}`);
@@ -1037,7 +1070,7 @@ function generateMarkdown(results: BenchmarkResults): string {
   // Dollar savings context
   lines.push("### How much does Pro save?");
   lines.push("");
-  lines.push("Free tier uses brute-force search, which slows down as memories grow. Pro uses Zvec ANN — a smarter algorithm that stays fast at any scale. The speed difference matters for token costs:");
+  lines.push(`Free tier uses brute-force search, which slows down as memories grow. Pro uses ${BACKEND_LABEL} ANN — a smarter algorithm that stays fast at any scale. The speed difference matters for token costs:`);
   lines.push("");
 
   // Compute actual speedup from scalability data (brute-force 1K vs zvec 1K equivalent)
@@ -1047,7 +1080,7 @@ function generateMarkdown(results: BenchmarkResults): string {
   if (scale5k && scale10k) {
     // At larger memory counts, brute-force would be proportionally slower.
     // Zvec search at 10K is still just a few ms.
-    lines.push(`| Memories | Zvec search time | What this means |`);
+    lines.push(`| Memories | ${BACKEND_LABEL} search time | What this means |`);
     lines.push(`| --- | --- | --- |`);
     if (scale1k) {
       lines.push(`| 1,000 | ${formatMs(scale1k.searchP50Ms)} | Instant — indistinguishable from free tier |`);
@@ -1257,7 +1290,7 @@ async function main(): Promise<void> {
   console.error("  MoltMind ANN Benchmark Suite — Industry-Standard Evaluation");
   console.error("═══════════════════════════════════════════════════════════════════\n");
 
-  const zvec = loadZvecNative();
+  const zvec = BACKEND === "hnsw" ? createHnswBackend() : loadZvecNative();
   if (!zvec) {
     console.error("  ERROR: @moltmind/zvec-native not installed.");
     console.error("  Install: npm install @moltmind/zvec-native");
@@ -1265,6 +1298,7 @@ async function main(): Promise<void> {
     process.exit(1);
   }
 
+  console.error(`  Backend: ${BACKEND_LABEL}`);
   console.error(`  Machine: ${getMachineInfo()}`);
   console.error(`  Date: ${new Date().toISOString()}`);
   console.error(`  Dimensions: ${EMBEDDING_DIM}\n`);
@@ -1314,12 +1348,12 @@ async function main(): Promise<void> {
   console.error(`\n  ${passed}/${total} passed\n`);
 
   // Write JSON results
-  const jsonPath = join(tmpdir(), "ann-benchmark-results.json");
+  const jsonPath = join(tmpdir(), BACKEND === "hnsw" ? "ann-benchmark-results-hnsw.json" : "ann-benchmark-results.json");
   writeFileSync(jsonPath, JSON.stringify(results, null, 2));
   console.error(`  JSON results: ${jsonPath}`);
 
   // Write Markdown report
-  const mdPath = join(process.cwd(), "BENCHMARK_RESULTS.md");
+  const mdPath = join(process.cwd(), BACKEND === "hnsw" ? "BENCHMARK_RESULTS_HNSW.md" : "BENCHMARK_RESULTS.md");
   const markdown = generateMarkdown(results);
   writeFileSync(mdPath, markdown);
   console.error(`  Markdown report: ${mdPath}`);
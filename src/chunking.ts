@@ -0,0 +1,180 @@
+import { replaceMemoryChunks, iterateChunkRefs, getChunkEmbeddingsByIds, addMemoryListener, type MemoryChunkRecord } from "./db.js";
+import { embeddingToBuffer, bufferToEmbedding, cosineSimilarity, getModelName } from "./embeddings.js";
+import { embedTexts } from "./embedding_cache.js";
+import { getChunkingConfig, type ChunkingConfig } from "./config.js";
+import { TopKHeap, type VectorSearchResult } from "./vector_store.js";
+import type { RecallFilters } from "./query_parser.js";
+
+/** A passage of a memory's content; start and end are offsets into it. */
+export interface TextChunk {
+  index: number;
+  start: number;
+  end: number;
+  text: string;
+}
+
+export interface ChunkMatch extends VectorSearchResult {
+  start: number;
+  end: number;
+}
+
+/** A semantic hit, carrying the passage that scored when a chunk beat the whole memory. */
+export interface SemanticMatch extends VectorSearchResult {
+  chunk: { start: number; end: number } | null;
+}
+
+// Preferred places to end a passage, best first
+const BREAK_PATTERNS = [/\n\s*\n/g, /[.!?]["')\]]?\s+/g, /\s+/g];
+
+/** Last paragraph, sentence or word boundary in the final 40% of [start, end). */
+function findBreak(content: string, start: number, end: number): number {
+  const floor = start + Math.floor((end - start) * 0.6);
+  const window = content.slice(floor, end);
+  for (const pattern of BREAK_PATTERNS) {
+    let last: RegExpMatchArray | null = null;
+    for (const match of window.matchAll(pattern)) last = match;
+    if (last?.index !== undefined) return floor + last.index + last[0].length;
+  }
+  return end;
+}
+
+/**
+ * Split long content into overlapping passages that each fit the embedding
+ * model's input. Content no longer than one passage isn't chunked at all —
+ * the memory-level embedding already covers it.
+ */
+export function splitIntoChunks(content: string, config: ChunkingConfig = getChunkingConfig()): TextChunk[] {
+  if (content.length <= config.size) return [];
+
+  const chunks: TextChunk[] = [];
+  let start = 0;
+  while (start < content.length) {
+    let end = Math.min(start + config.size, content.length);
+    if (end < content.length) end = findBreak(content, start, end);
+
+    const text = content.slice(start, end).trim();
+    if (text) chunks.push({ index: chunks.length, start, end, text });
+    if (end >= content.length) break;
+
+    // Step back by the overlap, then forward to the start of a word
+    let next = Math.max(end - config.overlap, start + 1);
+    while (next < end && /\S/.test(content[next - 1])) next++;
+    start = next;
+  }
+  return chunks;
+}
+
+/**
+ * Embed each passage of a long memory (prefixed with its title) and store
+ * them. Returns null when the model is unavailable, false when the memory
+ * changed while embedding.
+ */
+export async function embedMemoryChunks(
+  memory: { id: string; title: string; content: string; updated_at: string },
+  model: string = getModelName()
+): Promise<boolean | null> {
+  const chunks = splitIntoChunks(memory.content);
+  if (chunks.length === 0) return true;
+
+  const vectors = await embedTexts(chunks.map((chunk) => `${memory.title} ${chunk.text}`));
+  const records: MemoryChunkRecord[] = [];
+  for (const chunk of chunks) {
+    const vector = vectors[chunk.index];
+    if (!vector) return null;
+    records.push({ chunk_index: chunk.index, start_offset: chunk.start, end_offset: chunk.end, embedding: embeddingToBuffer(vector) });
+  }
+  const replaced = replaceMemoryChunks(memory.id, records, model, memory.updated_at);
+  if (replaced) decodedChunks.delete(memory.id);
+  return replaced;
+}
+
+interface DecodedChunk {
+  start: number;
+  end: number;
+  vector: Float32Array;
+}
+
+// Decoded chunk embeddings keyed by memory id, validated against the row's
+// updated_at and the model like the whole-memory cache in vector_store
+const decodedChunks = new Map<string, { updated_at: string; model: string; chunks: DecodedChunk[] }>();
+let cacheListener: (() => void) | null = null;
+
+function ensureCacheListener(): void {
+  if (cacheListener) return;
+  cacheListener = addMemoryListener(({ memory }) => {
+    decodedChunks.delete(memory.id);
+  });
+}
+
+/**
+ * Top-k memories by their best-matching chunk, among memories matching
+ * filters. Chunk BLOBs are loaded and decoded only on cache misses.
+ */
+export function searchChunks(query: Float32Array, k: number, filters: RecallFilters = {}, model: string = getModelName()): ChunkMatch[] {
+  ensureCacheListener();
+  const top = new TopKHeap<ChunkMatch>(k);
+
+  for (const refs of iterateChunkRefs(model, filters)) {
+    const misses = refs.filter((ref) => {
+      const cached = decodedChunks.get(ref.id);
+      return cached?.updated_at !== ref.updated_at || cached.model !== model;
+    });
+    if (misses.length > 0) {
+      const rows = getChunkEmbeddingsByIds(misses.map((ref) => ref.id), model);
+      for (const ref of misses) {
+        const chunks = (rows.get(ref.id) ?? []).map((row) => ({
+          start: row.start_offset,
+          end: row.end_offset,
+          vector: bufferToEmbedding(row.embedding),
+        }));
+        decodedChunks.set(ref.id, { updated_at: ref.updated_at, model, chunks });
+      }
+    }
+
+    for (const ref of refs) {
+      let best: ChunkMatch | null = null;
+      for (const chunk of decodedChunks.get(ref.id)?.chunks ?? []) {
+        const score = cosineSimilarity(query, chunk.vector);
+        if (!best || score > best.score) best = { id: ref.id, score, start: chunk.start, end: chunk.end };
+      }
+      if (best) top.push(best);
+    }
+  }
+
+  return top.toSorted();
+}
+
+export function getChunkCacheSize(): number {
+  return decodedChunks.size;
+}
+
+// Reset for testing
+export function _resetChunkCache(): void {
+  decodedChunks.clear();
+}
+
+/** Merge whole-memory and chunk hits, scoring each memory by its best match. */
+export function mergeSemanticResults(vectorResults: VectorSearchResult[], chunkResults: ChunkMatch[]): SemanticMatch[] {
+  const merged = new Map<string, SemanticMatch>();
+  for (const { id, score } of vectorResults) merged.set(id, { id, score, chunk: null });
+  for (const { id, score, start, end } of chunkResults) {
+    const existing = merged.get(id);
+    if (!existing || score > existing.score) merged.set(id, { id, score, chunk: { start, end } });
+  }
+  return [...merged.values()].sort((a, b) => b.score - a.score);
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+/** The passage at [start, end) of content, with words starting with a query term in **bold** and ellipses where it was cut. */
+export function buildSnippet(content: string, chunk: { start: number; end: number }, query: string): string {
+  let snippet = content.slice(chunk.start, chunk.end).trim();
+  const terms = [...new Set((query.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? []).filter((t) => t.length >= 3))];
+  if (terms.length > 0) {
+    const pattern = new RegExp(`(?<![\\p{L}\\p{N}])((?:${terms.map(escapeRegExp).join("|")})[\\p{L}\\p{N}]*)`, "giu");
+    snippet = snippet.replace(pattern, "**$1**");
+  }
+  return `${chunk.start > 0 ? "…" : ""}${snippet}${chunk.end < content.length ? "…" : ""}`;
+}
@@ -0,0 +1,65 @@
+/**
+ * Resource matching for session claims. A claim is either a literal resource
+ * ("src/db.ts"), a glob ("src/db/**", "src/*.ts") or a prefix ending in "/"
+ * ("src/db/", same as "src/db/**").
+ */
+
+const WILDCARD = /[*?]/;
+
+export function isResourcePattern(resource: string): boolean {
+  return WILDCARD.test(resource) || resource.endsWith("/");
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.+^${}()|[\]\\]/g, "\\$&");
+}
+
+/** `**` crosses directories, `*` and `?` stay within one path segment. */
+export function globToRegExp(pattern: string): RegExp {
+  const glob = pattern.endsWith("/") ? `${pattern}**` : pattern;
+  let source = "";
+  for (let i = 0; i < glob.length; i++) {
+    const char = glob[i];
+    if (glob.startsWith("/**", i) && i + 3 === glob.length) {
+      // "src/db/**" also covers "src/db" itself
+      source += "(?:/.*)?";
+      i += 2;
+    } else if (glob.startsWith("**/", i)) {
+      source += "(?:.*/)?";
+      i += 2;
+    } else if (glob.startsWith("**", i)) {
+      source += ".*";
+      i += 1;
+    } else if (char === "*") {
+      source += "[^/]*";
+    } else if (char === "?") {
+      source += "[^/]";
+    } else {
+      source += escapeRegExp(char);
+    }
+  }
+  return new RegExp(`^${source}$`);
+}
+
+/** The literal part of a pattern before its first wildcard. */
+function staticPrefix(pattern: string): string {
+  const match = WILDCARD.exec(pattern);
+  return match ? pattern.slice(0, match.index) : pattern;
+}
+
+/**
+ * Whether two claims could cover the same file. Two patterns are compared by
+ * their literal prefixes, which errs towards reporting a conflict.
+ */
+export function claimsOverlap(a: string, b: string): boolean {
+  if (a === b) return true;
+  const aPattern = isResourcePattern(a);
+  const bPattern = isResourcePattern(b);
+  if (!aPattern && !bPattern) return false;
+  if (aPattern && !bPattern) return globToRegExp(a).test(b);
+  if (!aPattern && bPattern) return globToRegExp(b).test(a);
+
+  const aPrefix = staticPrefix(a);
+  const bPrefix = staticPrefix(b);
+  return aPrefix.startsWith(bPrefix) || bPrefix.startsWith(aPrefix);
+}
@@ -33,6 +33,239 @@ export function getToolMode(): "default" | "moltbook" {
 }
 
 export function getEnabledToolCount(): number {
-  return isMoltbookEnabled() ? 21 : 14;
+  return isMoltbookEnabled() ? 36 : 29;
 }
 
+
+// --- Tunable options (--name=value flag, or MOLTMIND_NAME env var) ---
+
+export function getOption(name: string): string | null {
+  const prefix = `--${name}=`;
+  const arg = process.argv.find((a) => a.startsWith(prefix));
+  if (arg) return arg.slice(prefix.length);
+
+  const envKey = `MOLTMIND_${name.toUpperCase().replace(/-/g, "_")}`;
+  const envValue = process.env[envKey];
+  return envValue !== undefined && envValue !== "" ? envValue : null;
+}
+
+export function getNumberOption(name: string, fallback: number): number {
+  const raw = getOption(name);
+  if (raw === null) return fallback;
+  const value = Number(raw);
+  return Number.isFinite(value) ? value : fallback;
+}
+
+export interface DecayConfig {
+  half_life_days: number;
+  warm_threshold: number;
+  cold_threshold: number;
+  interval_ms: number;
+}
+
+export function getDecayConfig(): DecayConfig {
+  return {
+    half_life_days: getNumberOption("decay-half-life", 30),
+    warm_threshold: getNumberOption("decay-warm-threshold", 0.5),
+    cold_threshold: getNumberOption("decay-cold-threshold", 0.15),
+    interval_ms: getNumberOption("decay-interval", 10 * 60) * 1000,
+  };
+}
+
+export interface RetentionConfig {
+  /** Days an archived memory is kept before it is deleted for good; 0 (the default) keeps it forever */
+  archived_days: number;
+  diagnostics_days: number;
+  /** Days session events and token estimates of completed sessions are kept */
+  events_days: number;
+  interval_ms: number;
+}
+
+export function getRetentionConfig(): RetentionConfig {
+  return {
+    archived_days: Math.max(0, getNumberOption("retention-archived-days", 0)),
+    diagnostics_days: Math.max(0, getNumberOption("retention-diagnostics-days", 30)),
+    events_days: Math.max(0, getNumberOption("retention-events-days", 30)),
+    interval_ms: getNumberOption("retention-interval", 24 * 60 * 60) * 1000,
+  };
+}
+
+// --- Recall ranking ---
+
+export type RankingStrategy = "linear" | "rrf" | "decay";
+
+export interface RankingWeights {
+  semantic: number;
+  keyword: number;
+  /** Decay-strategy boost from recency and access frequency (see computeDecayScore) */
+  recency: number;
+  /** Decay-strategy boost for hot (full) and warm (half) memories */
+  tier: number;
+  /** RRF smoothing constant */
+  rrf_k: number;
+}
+
+export interface RankingConfig {
+  strategy: RankingStrategy;
+  weights: RankingWeights;
+}
+
+const RANKING_STRATEGIES: RankingStrategy[] = ["linear", "rrf", "decay"];
+
+export function isRankingStrategy(value: unknown): value is RankingStrategy {
+  return RANKING_STRATEGIES.includes(value as RankingStrategy);
+}
+
+export function getRankingConfig(): RankingConfig {
+  const strategy = getOption("ranking");
+  return {
+    strategy: isRankingStrategy(strategy) ? strategy : "linear",
+    weights: {
+      semantic: getNumberOption("rank-semantic-weight", 0.7),
+      keyword: getNumberOption("rank-keyword-weight", 0.3),
+      recency: getNumberOption("rank-recency-weight", 0.3),
+      tier: getNumberOption("rank-tier-weight", 0.1),
+      rrf_k: getNumberOption("rank-rrf-k", 60),
+    },
+  };
+}
+
+// --- Embedding provider (--embedding-provider=transformers|openai|hash) ---
+
+export type EmbeddingProviderKind = "transformers" | "openai" | "hash";
+
+const EMBEDDING_PROVIDERS: EmbeddingProviderKind[] = ["transformers", "openai", "hash"];
+
+export interface EmbeddingConfig {
+  provider: EmbeddingProviderKind;
+  /** Model name; each provider has its own default */
+  model: string | null;
+  /** Base URL of an OpenAI-compatible API (openai provider) */
+  url: string | null;
+  api_key: string | null;
+  /** Overrides the known dimension count for the model */
+  dimensions: number | null;
+  /** Pre-downloaded transformers models; set, it disables remote fetching */
+  model_dir: string | null;
+}
+
+export function getEmbeddingConfig(): EmbeddingConfig {
+  const provider = getOption("embedding-provider");
+  const dimensions = getNumberOption("embedding-dimensions", 0);
+  return {
+    provider: EMBEDDING_PROVIDERS.includes(provider as EmbeddingProviderKind) ? provider as EmbeddingProviderKind : "transformers",
+    model: getOption("embedding-model"),
+    url: getOption("embedding-url"),
+    api_key: getOption("embedding-api-key"),
+    dimensions: dimensions > 0 ? Math.floor(dimensions) : null,
+    model_dir: getOption("model-dir"),
+  };
+}
+
+// --- Chunked embeddings (long memories are embedded passage by passage) ---
+
+export interface ChunkingConfig {
+  /** Characters per passage; content up to this length is embedded whole */
+  size: number;
+  /** Characters shared by neighbouring passages */
+  overlap: number;
+}
+
+export function getChunkingConfig(): ChunkingConfig {
+  // ~1000 characters stays inside MiniLM's 256-token window
+  const size = Math.max(200, Math.floor(getNumberOption("chunk-size", 1000)));
+  const overlap = Math.floor(getNumberOption("chunk-overlap", 200));
+  return { size, overlap: Math.min(Math.max(0, overlap), Math.floor(size / 2)) };
+}
+
+// --- Agent identity for addressed handoffs (--agent=<name>, --agent-roles=<role>,<role>) ---
+
+export interface AgentIdentity {
+  name: string | null;
+  /** Roles or channels this agent also answers to */
+  roles: string[];
+}
+
+export function getAgentIdentity(): AgentIdentity {
+  const roles = getOption("agent-roles");
+  return {
+    name: getOption("agent"),
+    roles: roles ? roles.split(",").map((r) => r.trim()).filter(Boolean) : [],
+  };
+}
+
+// --- Resource claims (--claim-ttl=<seconds>) ---
+
+export interface ClaimConfig {
+  /** Default lifetime of an mm_claim claim; renewing claims are extended by each heartbeat */
+  ttl_seconds: number;
+}
+
+export function getClaimConfig(): ClaimConfig {
+  return {
+    // At least two 30s heartbeats, so a renewing claim never lapses between them
+    ttl_seconds: Math.max(60, getNumberOption("claim-ttl", 5 * 60)),
+  };
+}
+
+// --- Resource change notifications (--notify-interval=<seconds>, 0 disables) ---
+
+export function getNotifyIntervalMs(): number {
+  return Math.max(0, getNumberOption("notify-interval", 2)) * 1000;
+}
+
+// --- Near-duplicate handling (--dedupe-policy=allow|reject|return|merge, --dedupe-scan-limit=<memories>) ---
+
+export type DuplicatePolicy = "allow" | "reject" | "return" | "merge";
+
+const DUPLICATE_POLICIES: DuplicatePolicy[] = ["allow", "reject", "return", "merge"];
+
+export function isDuplicatePolicy(value: unknown): value is DuplicatePolicy {
+  return DUPLICATE_POLICIES.includes(value as DuplicatePolicy);
+}
+
+export interface DedupeConfig {
+  policy: DuplicatePolicy;
+  /** Cosine similarity at or above which two memories count as duplicates */
+  threshold: number;
+  /** Largest vault (live embedded memories) mm_dedupe will scan */
+  scan_limit: number;
+}
+
+export function getDedupeConfig(): DedupeConfig {
+  const policy = getOption("dedupe-policy");
+  return {
+    policy: isDuplicatePolicy(policy) ? policy : "allow",
+    threshold: getNumberOption("dedupe-threshold", 0.95),
+    scan_limit: Math.max(0, getNumberOption("dedupe-scan-limit", 10000)),
+  };
+}
+
+// --- Vector store backend (--vector-store=brute|hnsw|sqlite-vec|zvec) ---
+
+export type VectorStoreBackend = "brute" | "hnsw" | "sqlite-vec" | "zvec";
+
+const VECTOR_STORE_BACKENDS: VectorStoreBackend[] = ["brute", "hnsw", "sqlite-vec", "zvec"];
+
+/** Explicitly requested backend, or null to use the default (Zvec for Pro, brute force otherwise). */
+export function getVectorStoreOption(): VectorStoreBackend | null {
+  const value = getOption("vector-store");
+  return VECTOR_STORE_BACKENDS.includes(value as VectorStoreBackend) ? value as VectorStoreBackend : null;
+}
+
+// --- Vault transfer paths (--allow-any-transfer-path) ---
+
+/** Whether mm_export and mm_import may use files outside the vault directory. */
+export function isAnyTransferPathAllowed(): boolean {
+  return process.argv.includes("--allow-any-transfer-path") || getOption("allow-any-transfer-path") !== null;
+}
+
+// --- Markdown mirror (--mirror or --mirror=<dir>) ---
+
+export function isMirrorEnabled(): boolean {
+  return process.argv.includes("--mirror") || getOption("mirror") !== null;
+}
+
+export function getMirrorDirOption(): string | null {
+  return getOption("mirror");
+}
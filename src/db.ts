@@ -3,7 +3,9 @@ import { mkdirSync, existsSync } from "node:fs";
 import { join } from "node:path";
 import { homedir } from "node:os";
 import crypto from "node:crypto";
-import type { Memory, MemoryType, MemoryTier, Handoff, Session, SessionStatus, SessionEvent, SessionClaim } from "./types.js";
+import type { Memory, MemoryType, MemoryTier, MemoryVersion, MemoryLink, LinkType, Handoff, HandoffState, Session, SessionStatus, SessionEvent, SessionClaim } from "./types.js";
+import { claimsOverlap } from "./claims.js";
+import { parseQuery, toFtsMatch, toFtsExclusion, toJsonPath, type ParsedQuery, type RecallFilters, type MetadataPredicate, type MetadataScalar } from "./query_parser.js";
 
 const GLOBAL_DIR = join(homedir(), ".moltmind");
 const GLOBAL_DB_PATH = join(GLOBAL_DIR, "memory.db");
@@ -221,6 +223,153 @@ function migrateV7(database: Database.Database): void {
   `);
 }
 
+function migrateV8(database: Database.Database): void {
+  // What each external vector index (Zvec, HNSW) holds, for drift detection
+  database.exec(`
+    CREATE TABLE IF NOT EXISTS vector_manifest (
+      backend TEXT NOT NULL,
+      memory_id TEXT NOT NULL,
+      checksum TEXT,
+      indexed_at TEXT NOT NULL,
+      PRIMARY KEY (backend, memory_id)
+    ) WITHOUT ROWID;
+  `);
+}
+
+function migrateV9(database: Database.Database): void {
+  // Which provider:model produced each embedding, so recall never mixes vector spaces
+  const columns = database.prepare("PRAGMA table_info(memories)").all() as Array<{ name: string }>;
+  if (!columns.some((c) => c.name === "embedding_model")) {
+    database.exec("ALTER TABLE memories ADD COLUMN embedding_model TEXT");
+  }
+  // Until now every embedding came from the bundled MiniLM model
+  database.exec(`
+    UPDATE memories SET embedding_model = 'transformers:Xenova/all-MiniLM-L6-v2'
+    WHERE embedding IS NOT NULL AND embedding_model IS NULL;
+    CREATE INDEX IF NOT EXISTS idx_memories_embedding_model ON memories(embedding_model);
+  `);
+}
+
+function migrateV10(database: Database.Database): void {
+  // Per-passage embeddings of long memories; offsets index into memories.content
+  database.exec(`
+    CREATE TABLE IF NOT EXISTS memory_chunks (
+      memory_id TEXT NOT NULL,
+      chunk_index INTEGER NOT NULL,
+      start_offset INTEGER NOT NULL,
+      end_offset INTEGER NOT NULL,
+      embedding BLOB NOT NULL,
+      embedding_model TEXT NOT NULL,
+      PRIMARY KEY (memory_id, chunk_index)
+    ) WITHOUT ROWID;
+    CREATE INDEX IF NOT EXISTS idx_memory_chunks_model ON memory_chunks(embedding_model);
+  `);
+}
+
+function migrateV11(database: Database.Database): void {
+  // Embeddings by content hash, so text seen before is never embedded twice
+  database.exec(`
+    CREATE TABLE IF NOT EXISTS embedding_cache (
+      model TEXT NOT NULL,
+      hash TEXT NOT NULL,
+      embedding BLOB NOT NULL,
+      last_used_at TEXT NOT NULL,
+      PRIMARY KEY (model, hash)
+    ) WITHOUT ROWID;
+    CREATE INDEX IF NOT EXISTS idx_embedding_cache_used ON embedding_cache(last_used_at);
+  `);
+}
+
+function migrateV12(database: Database.Database): void {
+  // Prior states of a memory's title, content, type, tags and metadata, one row per edit
+  database.exec(`
+    CREATE TABLE IF NOT EXISTS memory_versions (
+      memory_id TEXT NOT NULL,
+      version INTEGER NOT NULL,
+      type TEXT NOT NULL,
+      title TEXT NOT NULL,
+      content TEXT NOT NULL,
+      tags TEXT NOT NULL,
+      metadata TEXT NOT NULL,
+      created_at TEXT NOT NULL,
+      replaced_at TEXT NOT NULL,
+      PRIMARY KEY (memory_id, version)
+    ) WITHOUT ROWID;
+  `);
+}
+
+function migrateV13(database: Database.Database): void {
+  // Typed edges between memories: source <type> target, e.g. new decision supersedes old one
+  database.exec(`
+    CREATE TABLE IF NOT EXISTS memory_links (
+      source_id TEXT NOT NULL,
+      target_id TEXT NOT NULL,
+      type TEXT NOT NULL,
+      created_at TEXT NOT NULL,
+      PRIMARY KEY (source_id, target_id, type)
+    ) WITHOUT ROWID;
+    CREATE INDEX IF NOT EXISTS idx_memory_links_target ON memory_links(target_id, type);
+  `);
+}
+
+function migrateV14(database: Database.Database): void {
+  // Successive handoffs form a chain through their parent
+  const columns = database.prepare("PRAGMA table_info(handoffs)").all() as Array<{ name: string }>;
+  if (!columns.some((c) => c.name === "parent_handoff_id")) {
+    database.exec("ALTER TABLE handoffs ADD COLUMN parent_handoff_id TEXT");
+  }
+  database.exec(`
+    CREATE INDEX IF NOT EXISTS idx_handoffs_created ON handoffs(created_at);
+    CREATE INDEX IF NOT EXISTS idx_handoffs_session ON handoffs(session_id);
+    CREATE INDEX IF NOT EXISTS idx_handoffs_parent ON handoffs(parent_handoff_id);
+  `);
+}
+
+function migrateV15(database: Database.Database): void {
+  // Addressed handoffs: who a handoff is for, and who took it
+  const columns = database.prepare("PRAGMA table_info(handoffs)").all() as Array<{ name: string }>;
+  for (const column of ["target", "accepted_by", "accepted_at"]) {
+    if (!columns.some((c) => c.name === column)) {
+      database.exec(`ALTER TABLE handoffs ADD COLUMN ${column} TEXT`);
+    }
+  }
+  database.exec("CREATE INDEX IF NOT EXISTS idx_handoffs_target ON handoffs(target, accepted_at)");
+}
+
+function migrateV16(database: Database.Database): void {
+  // Handoff progress: lifecycle state plus which stop conditions and unknowns are checked off
+  const columns = database.prepare("PRAGMA table_info(handoffs)").all() as Array<{ name: string }>;
+  const add = (name: string, definition: string): void => {
+    if (!columns.some((c) => c.name === name)) database.exec(`ALTER TABLE handoffs ADD COLUMN ${name} ${definition}`);
+  };
+  add("state", "TEXT NOT NULL DEFAULT 'open'");
+  add("met_stop_conditions", "TEXT NOT NULL DEFAULT '[]'");
+  add("resolved_unknowns", "TEXT NOT NULL DEFAULT '[]'");
+  add("updated_at", "TEXT");
+  // Legacy handoffs that were continued, or that a later one for the same target
+  // replaced, are history. Only the latest per target is still outstanding, and
+  // in progress if it was accepted.
+  database.exec(`
+    UPDATE handoffs SET state = 'done'
+    WHERE EXISTS (SELECT 1 FROM handoffs child WHERE child.parent_handoff_id = handoffs.id)
+       OR created_at < (SELECT MAX(later.created_at) FROM handoffs later WHERE later.target IS handoffs.target);
+    UPDATE handoffs SET state = 'in_progress' WHERE accepted_at IS NOT NULL AND state = 'open';
+    CREATE INDEX IF NOT EXISTS idx_handoffs_state ON handoffs(state);
+  `);
+}
+
+function migrateV17(database: Database.Database): void {
+  // Claim TTLs: expires_at is pushed forward by the heartbeat for renewing claims
+  const columns = database.prepare("PRAGMA table_info(session_claims)").all() as Array<{ name: string }>;
+  const add = (name: string, definition: string): void => {
+    if (!columns.some((c) => c.name === name)) database.exec(`ALTER TABLE session_claims ADD COLUMN ${name} ${definition}`);
+  };
+  add("ttl_seconds", "INTEGER");
+  add("expires_at", "TEXT");
+  add("renew", "INTEGER NOT NULL DEFAULT 1");
+  database.exec("CREATE INDEX IF NOT EXISTS idx_session_claims_session ON session_claims(session_id)");
+}
+
 const migrations: Array<(database: Database.Database) => void> = [
   migrateV1,
   migrateV2,
@@ -229,6 +378,16 @@ const migrations: Array<(database: Database.Database) => void> = [
   migrateV5,
   migrateV6,
   migrateV7,
+  migrateV8,
+  migrateV9,
+  migrateV10,
+  migrateV11,
+  migrateV12,
+  migrateV13,
+  migrateV14,
+  migrateV15,
+  migrateV16,
+  migrateV17,
 ];
 
 function migrate(database: Database.Database): void {
@@ -255,6 +414,7 @@ export function getDb(): Database.Database {
   db.pragma("journal_mode = WAL");
   db.pragma("busy_timeout = 3000");
   migrate(db);
+  prepareVectorTable(db);
 
   return db;
 }
@@ -272,6 +432,221 @@ export function closeDb(): void {
   closeGlobalDb();
 }
 
+// --- In-database vector table (sqlite-vec) ---
+// When enabled, memory_vectors mirrors every live embedding and is written in
+// the same transaction as the memories row. The table needs the extension on
+// every connection, so it is created here rather than in a migration.
+
+type VectorExtensionLoader = (database: Database.Database) => void;
+
+let vectorTable: { load: VectorExtensionLoader; dimensions: number } | null = null;
+
+// sqlite-vec caps k for a KNN query
+export const VECTOR_TABLE_MAX_K = 4096;
+
+function prepareVectorTable(database: Database.Database): void {
+  if (!vectorTable) return;
+  vectorTable.load(database);
+  // A different embedding size means a different model — start the table over
+  const existing = database.prepare("SELECT sql FROM sqlite_master WHERE name = 'memory_vectors'").get() as { sql: string } | undefined;
+  if (existing && !existing.sql.includes(`float[${vectorTable.dimensions}]`)) {
+    database.exec("DROP TABLE memory_vectors");
+  }
+  database.exec(`
+    CREATE VIRTUAL TABLE IF NOT EXISTS memory_vectors USING vec0(
+      memory_id TEXT PRIMARY KEY,
+      tier TEXT,
+      type TEXT,
+      embedding float[${vectorTable.dimensions}] distance_metric=cosine
+    )
+  `);
+}
+
+/**
+ * Load the vector extension on this and every future connection, create the
+ * memory_vectors table and bring it in line with the memories table.
+ * Returns the number of rows added and removed.
+ */
+export function enableVectorTable(load: VectorExtensionLoader, dimensions: number = 384): { added: number; removed: number } {
+  const wasOpen = db !== null;
+  vectorTable = { load, dimensions };
+  let database: Database.Database;
+  try {
+    database = getDb();
+    if (wasOpen) prepareVectorTable(database);
+  } catch (err) {
+    // Left enabled, every memory write would hit the missing memory_vectors table
+    vectorTable = null;
+    throw err;
+  }
+  return database.transaction(() => {
+    const removed = database.prepare(`
+      DELETE FROM memory_vectors WHERE memory_id NOT IN (
+        SELECT id FROM memories WHERE embedding IS NOT NULL AND tier != 'archived' AND length(embedding) = ?
+      )
+    `).run(dimensions * 4).changes;
+    const added = database.prepare(`
+      INSERT INTO memory_vectors (memory_id, tier, type, embedding)
+      SELECT id, tier, type, embedding FROM memories
+      WHERE embedding IS NOT NULL AND tier != 'archived' AND length(embedding) = ?
+        AND id NOT IN (SELECT memory_id FROM memory_vectors)
+    `).run(dimensions * 4).changes;
+    return { added, removed };
+  })();
+}
+
+export function isVectorTableEnabled(): boolean {
+  return vectorTable !== null;
+}
+
+// Reset for testing
+export function _disableVectorTable(): void {
+  vectorTable = null;
+}
+
+/** Re-derive one memory's memory_vectors row from its memories row. */
+function syncVectorRow(database: Database.Database, id: string): void {
+  if (!vectorTable) return;
+  const row = database.prepare("SELECT tier, type, embedding FROM memories WHERE id = ?").get(id) as
+    { tier: MemoryTier; type: MemoryType; embedding: Buffer | null } | undefined;
+  database.prepare("DELETE FROM memory_vectors WHERE memory_id = ?").run(id);
+  if (!row || !row.embedding || row.tier === "archived" || row.embedding.length !== vectorTable.dimensions * 4) return;
+  database.prepare("INSERT INTO memory_vectors (memory_id, tier, type, embedding) VALUES (?, ?, ?, ?)").run(id, row.tier, row.type, row.embedding);
+}
+
+/**
+ * KNN over memory_vectors. Tier and type filters run inside the vector query;
+ * any other filters are checked against memories, widening k until enough
+ * candidates survive or the table is exhausted.
+ */
+export function searchVectorTable(query: Float32Array, k: number, filters: RecallFilters = {}): Array<{ id: string; score: number }> {
+  if (!vectorTable) throw new Error("Vector table is not enabled");
+  const database = getDb();
+  const clauses = ["embedding MATCH ?", "k = ?"];
+  const values: unknown[] = [];
+
+  if (filters.tiers && filters.tiers.length > 0) {
+    clauses.push(`tier IN (${filters.tiers.map(() => "?").join(", ")})`);
+    values.push(...filters.tiers);
+  }
+  if (filters.types && filters.types.length > 0) {
+    clauses.push(`type IN (${filters.types.map(() => "?").join(", ")})`);
+    values.push(...filters.types);
+  }
+  for (const type of filters.exclude_types ?? []) {
+    clauses.push("type != ?");
+    values.push(type);
+  }
+
+  const pushedDown = ["tiers", "types", "exclude_types"];
+  const needsRecheck = Object.keys(filters).some((key) => !pushedDown.includes(key));
+  const stmt = database.prepare(`SELECT memory_id, distance FROM memory_vectors WHERE ${clauses.join(" AND ")} ORDER BY distance`);
+  const queryBlob = Buffer.from(query.buffer, query.byteOffset, query.byteLength);
+
+  for (let fetch = needsRecheck ? k * 4 : k; ; fetch *= 4) {
+    const limit = Math.min(fetch, VECTOR_TABLE_MAX_K);
+    const rows = stmt.all(queryBlob, limit, ...values) as Array<{ memory_id: string; distance: number }>;
+    const allowed = needsRecheck ? filterMemoryIds(rows.map((r) => r.memory_id), filters) : null;
+    const kept = rows.filter((r) => !allowed || allowed.has(r.memory_id));
+    if (kept.length >= k || rows.length < limit || limit === VECTOR_TABLE_MAX_K) {
+      // Cosine distance → similarity, matching the other stores
+      return kept.slice(0, k).map((r) => ({ id: r.memory_id, score: 1 - r.distance }));
+    }
+  }
+}
+
+// --- Vector index manifest ---
+// A null checksum marks an id the index holds but whose vector is unverified.
+
+export function getVectorManifest(backend: string): Map<string, string | null> {
+  const database = getDb();
+  const rows = database.prepare("SELECT memory_id, checksum FROM vector_manifest WHERE backend = ?").all(backend) as Array<{ memory_id: string; checksum: string | null }>;
+  return new Map(rows.map((row) => [row.memory_id, row.checksum]));
+}
+
+/** Recorded checksum for one id: undefined when the index doesn't hold it. */
+export function getVectorManifestChecksum(backend: string, id: string): string | null | undefined {
+  const database = getDb();
+  const row = database.prepare("SELECT checksum FROM vector_manifest WHERE backend = ? AND memory_id = ?").get(backend, id) as { checksum: string | null } | undefined;
+  return row?.checksum;
+}
+
+export function setVectorManifestEntries(backend: string, entries: Array<[string, string | null]>): void {
+  if (entries.length === 0) return;
+  const database = getDb();
+  const stmt = database.prepare(
+    `INSERT INTO vector_manifest (backend, memory_id, checksum, indexed_at) VALUES (?, ?, ?, ?)
+     ON CONFLICT(backend, memory_id) DO UPDATE SET checksum = excluded.checksum, indexed_at = excluded.indexed_at`
+  );
+  const now = new Date().toISOString();
+  database.transaction(() => {
+    for (const [id, checksum] of entries) stmt.run(backend, id, checksum, now);
+  })();
+}
+
+export function deleteVectorManifestEntries(backend: string, ids: string[]): void {
+  if (ids.length === 0) return;
+  const database = getDb();
+  const stmt = database.prepare("DELETE FROM vector_manifest WHERE backend = ? AND memory_id = ?");
+  database.transaction(() => {
+    for (const id of ids) stmt.run(backend, id);
+  })();
+}
+
+/**
+ * Manifest-level counts for an index of vectors blobLength bytes long, from
+ * ids alone: no BLOB is read or hashed, so changed vectors aren't detected.
+ */
+export function getVectorManifestCounts(backend: string, blobLength: number): {
+  expected: number; indexed: number; missing: number; stale: number; unverified: number;
+} {
+  const database = getDb();
+  const live = "m.embedding IS NOT NULL AND m.tier != 'archived' AND length(m.embedding) = @blobLength";
+  return database.prepare(
+    `SELECT
+       (SELECT COUNT(*) FROM memories m WHERE ${live}) AS expected,
+       (SELECT COUNT(*) FROM vector_manifest WHERE backend = @backend) AS indexed,
+       (SELECT COUNT(*) FROM memories m WHERE ${live}
+          AND NOT EXISTS (SELECT 1 FROM vector_manifest v WHERE v.backend = @backend AND v.memory_id = m.id)) AS missing,
+       (SELECT COUNT(*) FROM vector_manifest v WHERE v.backend = @backend
+          AND NOT EXISTS (SELECT 1 FROM memories m WHERE m.id = v.memory_id AND ${live})) AS stale,
+       (SELECT COUNT(*) FROM vector_manifest WHERE backend = @backend AND checksum IS NULL) AS unverified`
+  ).get({ backend, blobLength }) as { expected: number; indexed: number; missing: number; stale: number; unverified: number };
+}
+
+export function clearVectorManifest(backend: string): void {
+  const database = getDb();
+  database.prepare("DELETE FROM vector_manifest WHERE backend = ?").run(backend);
+}
+
+// --- Memory change listeners (mirrors, caches) ---
+
+export type MemoryChange = {
+  kind: "insert" | "update" | "delete";
+  memory: Memory;
+  /** Set when decay or a read moved the memory between tiers */
+  tier_from?: MemoryTier;
+};
+export type MemoryChangeListener = (change: MemoryChange) => void;
+
+const memoryListeners = new Set<MemoryChangeListener>();
+
+export function addMemoryListener(listener: MemoryChangeListener): () => void {
+  memoryListeners.add(listener);
+  return () => memoryListeners.delete(listener);
+}
+
+function notifyMemoryChange(change: MemoryChange): void {
+  for (const listener of memoryListeners) {
+    try {
+      listener(change);
+    } catch (err) {
+      // A failing listener must never break the write itself
+      console.error(`MoltMind: memory listener failed — ${err instanceof Error ? err.message : String(err)}`);
+    }
+  }
+}
+
 function rowToMemory(row: Record<string, unknown>): Memory {
   return {
     id: row.id as string,
@@ -281,6 +656,7 @@ function rowToMemory(row: Record<string, unknown>): Memory {
     tags: JSON.parse(row.tags as string) as string[],
     metadata: JSON.parse(row.metadata as string) as Record<string, unknown>,
     embedding: (row.embedding as Buffer) ?? null,
+    embedding_model: (row.embedding_model as string | null) ?? null,
     tier: row.tier as MemoryTier,
     created_at: row.created_at as string,
     updated_at: row.updated_at as string,
@@ -301,59 +677,87 @@ function rowToHandoff(row: Record<string, unknown>): Handoff {
     artifacts: JSON.parse(row.artifacts as string) as string[],
     stop_conditions: JSON.parse(row.stop_conditions as string) as string[],
     session_id: row.session_id as string,
+    parent_handoff_id: (row.parent_handoff_id as string) ?? null,
+    target: (row.target as string) ?? null,
+    accepted_by: (row.accepted_by as string) ?? null,
+    accepted_at: (row.accepted_at as string) ?? null,
+    state: row.state as HandoffState,
+    met_stop_conditions: JSON.parse(row.met_stop_conditions as string) as number[],
+    resolved_unknowns: JSON.parse(row.resolved_unknowns as string) as number[],
+    updated_at: (row.updated_at as string) ?? null,
     created_at: row.created_at as string,
   };
 }
 
-function getMemoryRaw(id: string): Memory | null {
+export function getMemoryRaw(id: string): Memory | null {
   const database = getDb();
   const row = database.prepare("SELECT * FROM memories WHERE id = ?").get(id) as Record<string, unknown> | undefined;
   if (!row) return null;
   return rowToMemory(row);
 }
 
-export function insertMemory(memory: Omit<Memory, "id" | "created_at" | "updated_at" | "accessed_at" | "access_count" | "decay_score"> & Partial<Pick<Memory, "id" | "created_at" | "updated_at" | "accessed_at" | "access_count" | "decay_score">>): Memory {
+export function insertMemory(memory: Omit<Memory, "id" | "embedding_model" | "created_at" | "updated_at" | "accessed_at" | "access_count" | "decay_score"> & Partial<Pick<Memory, "id" | "embedding_model" | "created_at" | "updated_at" | "accessed_at" | "access_count" | "decay_score">>): Memory {
   const database = getDb();
   const now = new Date().toISOString();
   const id = memory.id ?? crypto.randomUUID();
 
   const stmt = database.prepare(`
-    INSERT INTO memories (id, type, title, content, tags, metadata, embedding, tier, created_at, updated_at, accessed_at, access_count, decay_score)
-    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    INSERT INTO memories (id, type, title, content, tags, metadata, embedding, embedding_model, tier, created_at, updated_at, accessed_at, access_count, decay_score)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
   `);
 
-  stmt.run(
-    id,
-    memory.type,
-    memory.title,
-    memory.content,
-    JSON.stringify(memory.tags),
-    JSON.stringify(memory.metadata),
-    memory.embedding ?? null,
-    memory.tier ?? "hot",
-    memory.created_at ?? now,
-    memory.updated_at ?? now,
-    memory.accessed_at ?? now,
-    memory.access_count ?? 0,
-    memory.decay_score ?? 1.0,
-  );
+  database.transaction(() => {
+    stmt.run(
+      id,
+      memory.type,
+      memory.title,
+      memory.content,
+      JSON.stringify(memory.tags),
+      JSON.stringify(memory.metadata),
+      memory.embedding ?? null,
+      memory.embedding ? memory.embedding_model ?? null : null,
+      memory.tier ?? "hot",
+      memory.created_at ?? now,
+      memory.updated_at ?? now,
+      memory.accessed_at ?? now,
+      memory.access_count ?? 0,
+      memory.decay_score ?? 1.0,
+    );
+    syncVectorRow(database, id);
+  })();
 
-  return getMemoryRaw(id)!;
+  const inserted = getMemoryRaw(id)!;
+  notifyMemoryChange({ kind: "insert", memory: inserted });
+  return inserted;
 }
 
 export function getMemory(id: string): Memory | null {
   const database = getDb();
-  const exists = database.prepare("SELECT id FROM memories WHERE id = ?").get(id) as Record<string, unknown> | undefined;
+  const exists = database.prepare("SELECT id, tier FROM memories WHERE id = ?").get(id) as { id: string; tier: MemoryTier } | undefined;
   if (!exists) return null;
 
-  // Update accessed_at and access_count, then read the updated row
-  database.prepare("UPDATE memories SET accessed_at = ?, access_count = access_count + 1 WHERE id = ?").run(new Date().toISOString(), id);
-  const row = database.prepare("SELECT * FROM memories WHERE id = ?").get(id) as Record<string, unknown>;
+  // Update accessed_at and access_count, then read the updated row.
+  // Accessing a decayed (warm/cold) memory promotes it back to hot.
+  const now = new Date().toISOString();
+  const promote = exists.tier === "warm" || exists.tier === "cold";
+  if (promote) {
+    database.transaction(() => {
+      database.prepare("UPDATE memories SET accessed_at = ?, access_count = access_count + 1, tier = 'hot', decay_score = 1.0 WHERE id = ?").run(now, id);
+      if (vectorTable) database.prepare("UPDATE memory_vectors SET tier = 'hot' WHERE memory_id = ?").run(id);
+    })();
+  } else {
+    database.prepare("UPDATE memories SET accessed_at = ?, access_count = access_count + 1 WHERE id = ?").run(now, id);
+  }
+  const memory = rowToMemory(database.prepare("SELECT * FROM memories WHERE id = ?").get(id) as Record<string, unknown>);
 
-  return rowToMemory(row);
+  if (promote) {
+    notifyMemoryChange({ kind: "update", memory, tier_from: exists.tier });
+  }
+
+  return memory;
 }
 
-export function updateMemory(id: string, updates: Partial<Pick<Memory, "type" | "title" | "content" | "tags" | "metadata" | "embedding" | "tier" | "decay_score">>): Memory | null {
+export function updateMemory(id: string, updates: Partial<Pick<Memory, "type" | "title" | "content" | "tags" | "metadata" | "embedding" | "embedding_model" | "tier" | "decay_score">>): Memory | null {
   const database = getDb();
   const existing = database.prepare("SELECT * FROM memories WHERE id = ?").get(id) as Record<string, unknown> | undefined;
   if (!existing) return null;
@@ -367,18 +771,151 @@ export function updateMemory(id: string, updates: Partial<Pick<Memory, "type" |
   if (updates.tags !== undefined) { fields.push("tags = ?"); values.push(JSON.stringify(updates.tags)); }
   if (updates.metadata !== undefined) { fields.push("metadata = ?"); values.push(JSON.stringify(updates.metadata)); }
   if (updates.embedding !== undefined) { fields.push("embedding = ?"); values.push(updates.embedding); }
+  if (updates.embedding === null) { fields.push("embedding_model = NULL"); }
+  else if (updates.embedding_model !== undefined) { fields.push("embedding_model = ?"); values.push(updates.embedding_model); }
   if (updates.tier !== undefined) { fields.push("tier = ?"); values.push(updates.tier); }
   if (updates.decay_score !== undefined) { fields.push("decay_score = ?"); values.push(updates.decay_score); }
 
   if (fields.length === 0) return rowToMemory(existing);
 
+  const now = new Date().toISOString();
   fields.push("updated_at = ?");
-  values.push(new Date().toISOString());
+  values.push(now);
   values.push(id);
 
-  database.prepare(`UPDATE memories SET ${fields.join(", ")} WHERE id = ?`).run(...values);
+  // Only edits to what the memory says are versioned — not re-embeds or tier moves
+  const edited = (updates.type !== undefined && updates.type !== existing.type)
+    || (updates.title !== undefined && updates.title !== existing.title)
+    || (updates.content !== undefined && updates.content !== existing.content)
+    || (updates.tags !== undefined && JSON.stringify(updates.tags) !== existing.tags)
+    || (updates.metadata !== undefined && JSON.stringify(updates.metadata) !== existing.metadata);
+
+  database.transaction(() => {
+    if (edited) {
+      database.prepare(`
+        INSERT INTO memory_versions (memory_id, version, type, title, content, tags, metadata, created_at, replaced_at)
+        SELECT @id, COALESCE(MAX(version), 0) + 1, @type, @title, @content, @tags, @metadata, @created_at, @replaced_at
+        FROM memory_versions WHERE memory_id = @id
+      `).run({
+        id,
+        type: existing.type,
+        title: existing.title,
+        content: existing.content,
+        tags: existing.tags,
+        metadata: existing.metadata,
+        created_at: existing.updated_at,
+        replaced_at: now,
+      });
+    }
+    database.prepare(`UPDATE memories SET ${fields.join(", ")} WHERE id = ?`).run(...values);
+    if (updates.embedding !== undefined || updates.tier !== undefined || updates.type !== undefined) {
+      syncVectorRow(database, id);
+    }
+    // Chunk embeddings cover the old text — the re-embed worker rebuilds them
+    if (updates.title !== undefined || updates.content !== undefined) {
+      database.prepare("DELETE FROM memory_chunks WHERE memory_id = ?").run(id);
+    }
+  })();
+
+  // An explicit tier change must not be undone by promotion-on-access
+  const updated = updates.tier !== undefined ? getMemoryRaw(id) : getMemory(id);
+  if (updated) notifyMemoryChange({ kind: "update", memory: updated });
+  return updated;
+}
+
+function rowToMemoryVersion(row: Record<string, unknown>): MemoryVersion {
+  return {
+    memory_id: row.memory_id as string,
+    version: row.version as number,
+    type: row.type as MemoryType,
+    title: row.title as string,
+    content: row.content as string,
+    tags: JSON.parse(row.tags as string) as string[],
+    metadata: JSON.parse(row.metadata as string) as Record<string, unknown>,
+    created_at: row.created_at as string,
+    replaced_at: row.replaced_at as string,
+  };
+}
+
+/** Prior versions of a memory, oldest first. The current state lives in memories. */
+export function getMemoryVersions(memoryId: string): MemoryVersion[] {
+  const database = getDb();
+  const rows = database.prepare("SELECT * FROM memory_versions WHERE memory_id = ? ORDER BY version").all(memoryId) as Array<Record<string, unknown>>;
+  return rows.map(rowToMemoryVersion);
+}
+
+export function getMemoryVersion(memoryId: string, version: number): MemoryVersion | null {
+  const database = getDb();
+  const row = database.prepare("SELECT * FROM memory_versions WHERE memory_id = ? AND version = ?").get(memoryId, version) as Record<string, unknown> | undefined;
+  return row ? rowToMemoryVersion(row) : null;
+}
+
+// --- Memory links ---
+
+/** Add edges from sourceId; existing edges are left as they are. Returns how many were new. */
+export function addMemoryLinks(sourceId: string, links: Array<{ target_id: string; type: LinkType }>): number {
+  const database = getDb();
+  const stmt = database.prepare("INSERT OR IGNORE INTO memory_links (source_id, target_id, type, created_at) VALUES (?, ?, ?, ?)");
+  const now = new Date().toISOString();
+  let added = 0;
+  database.transaction(() => {
+    for (const link of links) added += stmt.run(sourceId, link.target_id, link.type, now).changes;
+  })();
+  return added;
+}
+
+export function removeMemoryLinks(sourceId: string, links: Array<{ target_id: string; type: LinkType }>): number {
+  const database = getDb();
+  const stmt = database.prepare("DELETE FROM memory_links WHERE source_id = ? AND target_id = ? AND type = ?");
+  let removed = 0;
+  database.transaction(() => {
+    for (const link of links) removed += stmt.run(sourceId, link.target_id, link.type).changes;
+  })();
+  return removed;
+}
+
+/** Re-point fromId's edges at toId, e.g. when fromId is merged into toId. */
+export function moveMemoryLinks(fromId: string, toId: string): void {
+  const database = getDb();
+  database.transaction(() => {
+    database.prepare("UPDATE OR IGNORE memory_links SET source_id = ? WHERE source_id = ?").run(toId, fromId);
+    database.prepare("UPDATE OR IGNORE memory_links SET target_id = ? WHERE target_id = ?").run(toId, fromId);
+    // Left behind: edges that already existed on toId, and ones between the two memories
+    database.prepare("DELETE FROM memory_links WHERE source_id = ? OR target_id = ? OR source_id = target_id").run(fromId, fromId);
+  })();
+}
 
-  return getMemory(id);
+/** Every edge touching one of ids, in either direction. */
+export function getMemoryLinks(ids: string[]): MemoryLink[] {
+  if (ids.length === 0) return [];
+  const database = getDb();
+  const results = new Map<string, MemoryLink>();
+  // Each id is bound twice — stay well under SQLite's bound-parameter limit
+  for (let i = 0; i < ids.length; i += 250) {
+    const chunk = ids.slice(i, i + 250);
+    const placeholders = chunk.map(() => "?").join(", ");
+    const rows = database.prepare(
+      `SELECT * FROM memory_links WHERE source_id IN (${placeholders}) OR target_id IN (${placeholders}) ORDER BY created_at`
+    ).all(...chunk, ...chunk) as MemoryLink[];
+    for (const row of rows) results.set(`${row.source_id}\0${row.target_id}\0${row.type}`, row);
+  }
+  return [...results.values()];
+}
+
+/** Which of ids a live (non-archived) memory supersedes. */
+export function getSupersededIds(ids: string[]): Set<string> {
+  if (ids.length === 0) return new Set();
+  const database = getDb();
+  const superseded = new Set<string>();
+  for (let i = 0; i < ids.length; i += 500) {
+    const chunk = ids.slice(i, i + 500);
+    const rows = database.prepare(`
+      SELECT DISTINCT l.target_id FROM memory_links l JOIN memories m ON m.id = l.source_id
+      WHERE l.type = 'supersedes' AND m.tier != 'archived' AND l.target_id IN (${chunk.map(() => "?").join(", ")})
+    `).all(...chunk) as Array<{ target_id: string }>;
+    for (const row of rows) superseded.add(row.target_id);
+  }
+  return superseded;
 }
 
 export function deleteMemory(id: string): boolean {
@@ -386,21 +923,239 @@ export function deleteMemory(id: string): boolean {
   const existing = database.prepare("SELECT id FROM memories WHERE id = ?").get(id) as Record<string, unknown> | undefined;
   if (!existing) return false;
 
-  database.prepare("UPDATE memories SET tier = 'archived', updated_at = ? WHERE id = ?").run(new Date().toISOString(), id);
+  database.transaction(() => {
+    database.prepare("UPDATE memories SET tier = 'archived', updated_at = ? WHERE id = ?").run(new Date().toISOString(), id);
+    syncVectorRow(database, id);
+  })();
+  notifyMemoryChange({ kind: "delete", memory: getMemoryRaw(id)! });
   return true;
 }
 
-export function searchMemoriesFTS(query: string, limit: number = 10): Memory[] {
+// json_extract returns 1/0 for JSON booleans
+function toSqlValue(value: MetadataScalar): unknown {
+  return typeof value === "boolean" ? (value ? 1 : 0) : value;
+}
+
+function metadataClause(predicate: MetadataPredicate): { clause: string; values: unknown[] } {
+  const path = toJsonPath(predicate.path);
+  const extract = "json_extract(m.metadata, ?)";
+  const op = predicate.op ?? "eq";
+  const value = predicate.value;
+
+  if (op === "exists") {
+    return { clause: "json_type(m.metadata, ?) IS NOT NULL", values: [path] };
+  }
+  if (op === "in" || op === "contains") {
+    const list = Array.isArray(value) ? value : [value ?? null];
+    if (list.length === 0) return { clause: "0", values: [] };
+    const placeholders = list.map(() => "?").join(", ");
+    const clause = op === "in"
+      ? `${extract} IN (${placeholders})`
+      : `EXISTS (SELECT 1 FROM json_each(m.metadata, ?) WHERE value IN (${placeholders}))`;
+    return { clause, values: [path, ...list.map(toSqlValue)] };
+  }
+  if (Array.isArray(value)) {
+    throw new Error(`Metadata operator "${op}" takes a single value`);
+  }
+  if (value === null || value === undefined) {
+    if (op === "eq") return { clause: `${extract} IS NULL`, values: [path] };
+    if (op === "ne") return { clause: `${extract} IS NOT NULL`, values: [path] };
+    throw new Error(`Metadata operator "${op}" requires a value`);
+  }
+
+  const sqlOps = { eq: "=", ne: "!=", gt: ">", gte: ">=", lt: "<", lte: "<=" } as const;
+  if (op === "ne") {
+    // Missing fields count as "not equal"
+    return { clause: `(${extract} IS NULL OR ${extract} != ?)`, values: [path, path, toSqlValue(value)] };
+  }
+  return { clause: `${extract} ${sqlOps[op]} ?`, values: [path, toSqlValue(value)] };
+}
+
+/**
+ * SQL WHERE fragments for recall filters on the memories table (alias m).
+ * Archived memories are excluded unless a tier filter asks for them.
+ */
+export function buildMemoryFilterSql(filters: RecallFilters = {}): { clauses: string[]; values: unknown[] } {
+  const clauses: string[] = [];
+  const values: unknown[] = [];
+
+  if (filters.tiers && filters.tiers.length > 0) {
+    clauses.push(`m.tier IN (${filters.tiers.map(() => "?").join(", ")})`);
+    values.push(...filters.tiers);
+  } else {
+    clauses.push("m.tier != 'archived'");
+  }
+  if (filters.types && filters.types.length > 0) {
+    clauses.push(`m.type IN (${filters.types.map(() => "?").join(", ")})`);
+    values.push(...filters.types);
+  }
+  if (filters.exclude_types && filters.exclude_types.length > 0) {
+    clauses.push(`m.type NOT IN (${filters.exclude_types.map(() => "?").join(", ")})`);
+    values.push(...filters.exclude_types);
+  }
+  for (const tag of filters.tags ?? []) {
+    clauses.push("EXISTS (SELECT 1 FROM json_each(m.tags) WHERE value = ?)");
+    values.push(tag);
+  }
+  if (filters.tags_any && filters.tags_any.length > 0) {
+    clauses.push(`EXISTS (SELECT 1 FROM json_each(m.tags) WHERE value IN (${filters.tags_any.map(() => "?").join(", ")}))`);
+    values.push(...filters.tags_any);
+  }
+  for (const tag of filters.exclude_tags ?? []) {
+    clauses.push("NOT EXISTS (SELECT 1 FROM json_each(m.tags) WHERE value = ?)");
+    values.push(tag);
+  }
+  if (filters.embedding_model) {
+    clauses.push("m.embedding_model = ?");
+    values.push(filters.embedding_model);
+  }
+  const exclusion = toFtsExclusion(filters);
+  if (exclusion) {
+    clauses.push("m.rowid NOT IN (SELECT rowid FROM memories_fts WHERE memories_fts MATCH ?)");
+    values.push(exclusion);
+  }
+  if (filters.before) {
+    clauses.push("m.created_at < ?");
+    values.push(filters.before);
+  }
+  if (filters.after) {
+    clauses.push("m.created_at >= ?");
+    values.push(filters.after);
+  }
+  if (filters.updated_before) {
+    clauses.push("m.updated_at < ?");
+    values.push(filters.updated_before);
+  }
+  if (filters.updated_after) {
+    clauses.push("m.updated_at >= ?");
+    values.push(filters.updated_after);
+  }
+  for (const predicate of filters.metadata ?? []) {
+    const { clause, values: predicateValues } = metadataClause(predicate);
+    clauses.push(clause);
+    values.push(...predicateValues);
+  }
+  if (filters.exclude_superseded) {
+    clauses.push(`NOT EXISTS (SELECT 1 FROM memory_links l JOIN memories s ON s.id = l.source_id
+      WHERE l.type = 'supersedes' AND l.target_id = m.id AND s.tier != 'archived')`);
+  }
+
+  return { clauses, values };
+}
+
+/**
+ * Keyword search. A plain string is treated as escaped free text; pass a
+ * ParsedQuery for phrases and negation. Filters are applied in SQL before
+ * ranking. With no positive terms, returns filtered memories by recency.
+ */
+export function searchMemoriesFTS(query: string | ParsedQuery, limit: number = 10, filters: RecallFilters = {}): Memory[] {
+  return searchMemoriesFTSRanked(query, limit, filters).map((r) => r.memory);
+}
+
+/** Like searchMemoriesFTS, but also returns FTS5's BM25 rank (lower is better; null without terms). */
+export function searchMemoriesFTSRanked(
+  query: string | ParsedQuery,
+  limit: number = 10,
+  filters: RecallFilters = {}
+): Array<{ memory: Memory; bm25: number | null }> {
   const database = getDb();
+  const parsed = typeof query === "string" ? parseQuery(query) : query;
+  const match = toFtsMatch(parsed);
+  const { clauses, values } = buildMemoryFilterSql(filters);
+
+  if (!match) {
+    const rows = database.prepare(
+      `SELECT m.* FROM memories m WHERE ${clauses.join(" AND ")} ORDER BY m.updated_at DESC LIMIT ?`
+    ).all(...values, limit) as Record<string, unknown>[];
+    return rows.map((row) => ({ memory: rowToMemory(row), bm25: null }));
+  }
+
   const rows = database.prepare(`
-    SELECT m.* FROM memories m
+    SELECT m.*, fts.rank AS fts_rank FROM memories m
     JOIN memories_fts fts ON m.rowid = fts.rowid
-    WHERE memories_fts MATCH ?
-    ORDER BY rank
+    WHERE memories_fts MATCH ? AND ${clauses.join(" AND ")}
+    ORDER BY fts.rank
     LIMIT ?
-  `).all(query, limit) as Record<string, unknown>[];
+  `).all(match, ...values, limit) as Record<string, unknown>[];
 
-  return rows.map(rowToMemory);
+  return rows.map((row) => ({ memory: rowToMemory(row), bm25: row.fts_rank as number }));
+}
+
+/** Fetch memories by id that also satisfy the given filters (order not preserved). */
+export function getMemoriesByIds(ids: string[], filters: RecallFilters = {}): Memory[] {
+  if (ids.length === 0) return [];
+  const database = getDb();
+  const { clauses, values } = buildMemoryFilterSql(filters);
+  const results: Memory[] = [];
+
+  // Stay well under SQLite's bound-parameter limit
+  for (let i = 0; i < ids.length; i += 500) {
+    const chunk = ids.slice(i, i + 500);
+    const rows = database.prepare(
+      `SELECT m.* FROM memories m WHERE m.id IN (${chunk.map(() => "?").join(", ")}) AND ${clauses.join(" AND ")}`
+    ).all(...chunk, ...values) as Record<string, unknown>[];
+    results.push(...rows.map(rowToMemory));
+  }
+  return results;
+}
+
+/** Subset of ids that satisfy the given filters. */
+export function filterMemoryIds(ids: string[], filters: RecallFilters = {}): Set<string> {
+  const database = getDb();
+  const { clauses, values } = buildMemoryFilterSql(filters);
+  const matched = new Set<string>();
+
+  for (let i = 0; i < ids.length; i += 500) {
+    const chunk = ids.slice(i, i + 500);
+    const rows = database.prepare(
+      `SELECT m.id FROM memories m WHERE m.id IN (${chunk.map(() => "?").join(", ")}) AND ${clauses.join(" AND ")}`
+    ).all(...chunk, ...values) as Array<{ id: string }>;
+    for (const row of rows) matched.add(row.id);
+  }
+  return matched;
+}
+
+export interface EmbeddingRef {
+  id: string;
+  updated_at: string;
+}
+
+/**
+ * Chunked scan (keyset on rowid) over memories that have an embedding and
+ * satisfy the filters. Yields only id and updated_at so callers can skip
+ * loading BLOBs they already hold decoded.
+ */
+export function* iterateEmbeddingRefs(filters: RecallFilters = {}, chunkSize: number = 500): Generator<EmbeddingRef[]> {
+  const database = getDb();
+  const { clauses, values } = buildMemoryFilterSql(filters);
+  const stmt = database.prepare(
+    `SELECT m.rowid AS rid, m.id, m.updated_at FROM memories m
+     WHERE m.rowid > ? AND m.embedding IS NOT NULL AND ${clauses.join(" AND ")}
+     ORDER BY m.rowid LIMIT ?`
+  );
+
+  let lastRowid = 0;
+  for (;;) {
+    const rows = stmt.all(lastRowid, ...values, chunkSize) as Array<{ rid: number; id: string; updated_at: string }>;
+    if (rows.length === 0) return;
+    lastRowid = rows[rows.length - 1].rid;
+    yield rows.map(({ id, updated_at }) => ({ id, updated_at }));
+    if (rows.length < chunkSize) return;
+  }
+}
+
+/** Raw embedding BLOBs for the given ids (ids without an embedding are omitted). */
+export function getEmbeddingsByIds(ids: string[]): Map<string, Buffer> {
+  const database = getDb();
+  const embeddings = new Map<string, Buffer>();
+  for (let i = 0; i < ids.length; i += 500) {
+    const chunk = ids.slice(i, i + 500);
+    const rows = database.prepare(
+      `SELECT id, embedding FROM memories WHERE id IN (${chunk.map(() => "?").join(", ")}) AND embedding IS NOT NULL`
+    ).all(...chunk) as Array<{ id: string; embedding: Buffer }>;
+    for (const row of rows) embeddings.set(row.id, row.embedding);
+  }
+  return embeddings;
 }
 
 export function getAllMemories(tier?: MemoryTier, limit: number = 100, includeArchived: boolean = false): Memory[] {
@@ -420,6 +1175,57 @@ export function getAllMemories(tier?: MemoryTier, limit: number = 100, includeAr
   return rows.map(rowToMemory);
 }
 
+// --- Decay ---
+
+export function getDecayCandidates(): Array<{
+  id: string;
+  tier: MemoryTier;
+  created_at: string;
+  accessed_at: string;
+  access_count: number;
+  decay_score: number;
+}> {
+  const database = getDb();
+  return database.prepare(
+    "SELECT id, tier, created_at, accessed_at, access_count, decay_score FROM memories WHERE tier != 'archived'"
+  ).all() as Array<{
+    id: string;
+    tier: MemoryTier;
+    created_at: string;
+    accessed_at: string;
+    access_count: number;
+    decay_score: number;
+  }>;
+}
+
+/**
+ * Write decay scores and tier moves. Listeners hear about each tier move once
+ * the transaction commits; a score that changes within its tier is not news.
+ */
+export function applyDecayUpdates(updates: Array<{ id: string; decay_score: number; tier: MemoryTier }>): void {
+  if (updates.length === 0) return;
+  const database = getDb();
+  // Decay is not an edit — leave updated_at untouched
+  const current = database.prepare("SELECT tier FROM memories WHERE id = ?");
+  const stmt = database.prepare("UPDATE memories SET decay_score = ?, tier = ? WHERE id = ? AND tier != 'archived'");
+  const vectorStmt = vectorTable ? database.prepare("UPDATE memory_vectors SET tier = ? WHERE memory_id = ?") : null;
+  const moved: Array<{ id: string; from: MemoryTier }> = [];
+  const txn = database.transaction(() => {
+    for (const u of updates) {
+      const before = current.get(u.id) as { tier: MemoryTier } | undefined;
+      const { changes } = stmt.run(u.decay_score, u.tier, u.id);
+      if (changes === 0) continue;
+      vectorStmt?.run(u.tier, u.id);
+      if (before && before.tier !== u.tier) moved.push({ id: u.id, from: before.tier });
+    }
+  });
+  txn();
+
+  for (const { id, from } of moved) {
+    notifyMemoryChange({ kind: "update", memory: getMemoryRaw(id)!, tier_from: from });
+  }
+}
+
 export function getMemoryStats(): { total: number; by_type: Record<string, number>; by_tier: Record<string, number> } {
   const database = getDb();
 
@@ -440,14 +1246,236 @@ export function getMemoryStats(): { total: number; by_type: Record<string, numbe
   return { total, by_type, by_tier };
 }
 
-export function insertHandoff(handoff: Omit<Handoff, "id" | "created_at"> & Partial<Pick<Handoff, "id" | "created_at">>): Handoff {
+export interface StaleEmbeddingRow {
+  rowid: number;
+  id: string;
+  title: string;
+  content: string;
+  updated_at: string;
+  /** 1 when the memory-level embedding is already from the active model */
+  embedding_current: number;
+}
+
+function staleEmbeddingClause(): string {
+  return `tier != 'archived' AND (embedding IS NULL OR embedding_model IS NOT @model
+    OR (length(content) > @chunk_size AND NOT EXISTS (
+      SELECT 1 FROM memory_chunks c WHERE c.memory_id = memories.id AND c.embedding_model = @model)))`;
+}
+
+/**
+ * Live memories with no embedding, or one from a model other than this, and
+ * long ones whose chunks weren't embedded by it.
+ */
+export function countStaleEmbeddings(model: string, chunkSize: number): number {
+  const database = getDb();
+  return (database.prepare(`SELECT COUNT(*) as count FROM memories WHERE ${staleEmbeddingClause()}`)
+    .get({ model, chunk_size: chunkSize }) as { count: number }).count;
+}
+
+export function getStaleEmbeddingBatch(model: string, chunkSize: number, afterRowid: number, limit: number): StaleEmbeddingRow[] {
+  const database = getDb();
+  return database.prepare(
+    `SELECT rowid, id, title, content, updated_at,
+       (embedding IS NOT NULL AND embedding_model IS @model) AS embedding_current
+     FROM memories
+     WHERE rowid > @after AND ${staleEmbeddingClause()} ORDER BY rowid LIMIT @limit`
+  ).all({ model, chunk_size: chunkSize, after: afterRowid, limit }) as StaleEmbeddingRow[];
+}
+
+/**
+ * Store a background re-embed without touching updated_at. Skipped (returns
+ * false) when the memory changed since it was read — that edit embeds itself.
+ */
+export function setMemoryEmbedding(id: string, embedding: Buffer, model: string, expectedUpdatedAt: string): boolean {
+  const database = getDb();
+  const changed = database.transaction(() => {
+    const result = database.prepare(
+      "UPDATE memories SET embedding = ?, embedding_model = ? WHERE id = ? AND updated_at = ?"
+    ).run(embedding, model, id, expectedUpdatedAt);
+    if (result.changes > 0) syncVectorRow(database, id);
+    return result.changes > 0;
+  })();
+  if (changed) notifyMemoryChange({ kind: "update", memory: getMemoryRaw(id)! });
+  return changed;
+}
+
+/** Live embeddings per provider:model (unknown provenance counts under "unknown"). */
+export function getEmbeddingModelCounts(): Record<string, number> {
+  const database = getDb();
+  const rows = database.prepare(
+    "SELECT embedding_model, COUNT(*) as count FROM memories WHERE embedding IS NOT NULL AND tier != 'archived' GROUP BY embedding_model"
+  ).all() as Array<{ embedding_model: string | null; count: number }>;
+  const counts: Record<string, number> = {};
+  for (const row of rows) counts[row.embedding_model ?? "unknown"] = row.count;
+  return counts;
+}
+
+/** Whether any live embedding came from a model other than this one. */
+export function hasForeignEmbeddings(model: string): boolean {
+  const database = getDb();
+  const row = database.prepare(
+    "SELECT 1 FROM memories WHERE embedding IS NOT NULL AND tier != 'archived' AND embedding_model IS NOT ? LIMIT 1"
+  ).get(model);
+  return row !== undefined;
+}
+
+export interface MemoryChunkRecord {
+  chunk_index: number;
+  start_offset: number;
+  end_offset: number;
+  embedding: Buffer;
+}
+
+export interface ChunkEmbeddingRow extends MemoryChunkRecord {
+  memory_id: string;
+}
+
+/**
+ * Replace a memory's chunk embeddings. Skipped (returns false) when the
+ * memory changed since its text was read, like setMemoryEmbedding.
+ */
+export function replaceMemoryChunks(id: string, chunks: MemoryChunkRecord[], model: string, expectedUpdatedAt: string): boolean {
+  const database = getDb();
+  return database.transaction(() => {
+    const current = database.prepare("SELECT updated_at FROM memories WHERE id = ?").get(id) as { updated_at: string } | undefined;
+    if (current?.updated_at !== expectedUpdatedAt) return false;
+    database.prepare("DELETE FROM memory_chunks WHERE memory_id = ?").run(id);
+    const insert = database.prepare(
+      "INSERT INTO memory_chunks (memory_id, chunk_index, start_offset, end_offset, embedding, embedding_model) VALUES (?, ?, ?, ?, ?, ?)"
+    );
+    for (const chunk of chunks) {
+      insert.run(id, chunk.chunk_index, chunk.start_offset, chunk.end_offset, chunk.embedding, model);
+    }
+    return true;
+  })();
+}
+
+export function getMemoryChunks(id: string): Array<Omit<ChunkEmbeddingRow, "embedding"> & { embedding_model: string }> {
+  const database = getDb();
+  return database.prepare(
+    "SELECT memory_id, chunk_index, start_offset, end_offset, embedding_model FROM memory_chunks WHERE memory_id = ? ORDER BY chunk_index"
+  ).all(id) as Array<Omit<ChunkEmbeddingRow, "embedding"> & { embedding_model: string }>;
+}
+
+/**
+ * Chunked scan (keyset on rowid) over memories that have chunks for model and
+ * satisfy the filters, like iterateEmbeddingRefs.
+ */
+export function* iterateChunkRefs(model: string, filters: RecallFilters = {}, chunkSize: number = 500): Generator<EmbeddingRef[]> {
+  const database = getDb();
+  // Chunks carry their own model; the memory-level embedding's is irrelevant here
+  const { clauses, values } = buildMemoryFilterSql({ ...filters, embedding_model: undefined });
+  const stmt = database.prepare(
+    `SELECT m.rowid AS rid, m.id, m.updated_at FROM memories m
+     WHERE m.rowid > ? AND EXISTS (SELECT 1 FROM memory_chunks c WHERE c.memory_id = m.id AND c.embedding_model = ?)
+       AND ${clauses.join(" AND ")}
+     ORDER BY m.rowid LIMIT ?`
+  );
+
+  let lastRowid = 0;
+  for (;;) {
+    const rows = stmt.all(lastRowid, model, ...values, chunkSize) as Array<{ rid: number; id: string; updated_at: string }>;
+    if (rows.length === 0) return;
+    lastRowid = rows[rows.length - 1].rid;
+    yield rows.map(({ id, updated_at }) => ({ id, updated_at }));
+    if (rows.length < chunkSize) return;
+  }
+}
+
+/** The model's chunk embeddings of the given memories, grouped by memory id. */
+export function getChunkEmbeddingsByIds(ids: string[], model: string): Map<string, ChunkEmbeddingRow[]> {
+  const database = getDb();
+  const chunks = new Map<string, ChunkEmbeddingRow[]>();
+  for (let i = 0; i < ids.length; i += 500) {
+    const batch = ids.slice(i, i + 500);
+    const rows = database.prepare(
+      `SELECT memory_id, chunk_index, start_offset, end_offset, embedding FROM memory_chunks
+       WHERE embedding_model = ? AND memory_id IN (${batch.map(() => "?").join(", ")})
+       ORDER BY memory_id, chunk_index`
+    ).all(model, ...batch) as ChunkEmbeddingRow[];
+    for (const row of rows) {
+      const list = chunks.get(row.memory_id);
+      if (list) list.push(row);
+      else chunks.set(row.memory_id, [row]);
+    }
+  }
+  return chunks;
+}
+
+export function getChunkStats(): { memories: number; chunks: number } {
+  const database = getDb();
+  return database.prepare(
+    "SELECT COUNT(DISTINCT memory_id) AS memories, COUNT(*) AS chunks FROM memory_chunks"
+  ).get() as { memories: number; chunks: number };
+}
+
+// --- Embedding cache (content hash -> embedding, per model) ---
+
+/** Cached embeddings for the given hashes. Read-only — see touchCachedEmbeddings. */
+export function getCachedEmbeddings(model: string, hashes: string[]): Map<string, Buffer> {
+  const database = getDb();
+  const found = new Map<string, Buffer>();
+  for (let i = 0; i < hashes.length; i += 500) {
+    const chunk = hashes.slice(i, i + 500);
+    const placeholders = chunk.map(() => "?").join(", ");
+    const rows = database.prepare(
+      `SELECT hash, embedding FROM embedding_cache WHERE model = ? AND hash IN (${placeholders})`
+    ).all(model, ...chunk) as Array<{ hash: string; embedding: Buffer }>;
+    for (const row of rows) found.set(row.hash, row.embedding);
+  }
+  return found;
+}
+
+/** Mark (model, hash) entries as used now, in one transaction. */
+export function touchCachedEmbeddings(entries: Array<[string, string]>): void {
+  if (entries.length === 0) return;
+  const database = getDb();
+  const now = new Date().toISOString();
+  const stmt = database.prepare("UPDATE embedding_cache SET last_used_at = ? WHERE model = ? AND hash = ?");
+  database.transaction(() => {
+    for (const [model, hash] of entries) stmt.run(now, model, hash);
+  })();
+}
+
+export function putCachedEmbeddings(model: string, entries: Array<[string, Buffer]>): void {
+  if (entries.length === 0) return;
+  const database = getDb();
+  const now = new Date().toISOString();
+  const stmt = database.prepare(
+    "INSERT OR REPLACE INTO embedding_cache (model, hash, embedding, last_used_at) VALUES (?, ?, ?, ?)"
+  );
+  database.transaction(() => {
+    for (const [hash, embedding] of entries) stmt.run(model, hash, embedding, now);
+  })();
+}
+
+/** Drop the least recently used entries beyond maxEntries. Returns how many were removed. */
+export function pruneEmbeddingCache(maxEntries: number): number {
+  const database = getDb();
+  return database.prepare(
+    `DELETE FROM embedding_cache WHERE (model, hash) IN (
+       SELECT model, hash FROM embedding_cache ORDER BY last_used_at DESC LIMIT -1 OFFSET ?
+     )`
+  ).run(Math.max(0, maxEntries)).changes;
+}
+
+export function countCachedEmbeddings(): number {
+  const database = getDb();
+  return (database.prepare("SELECT COUNT(*) as count FROM embedding_cache").get() as { count: number }).count;
+}
+
+type OptionalHandoffField =
+  | "id" | "created_at" | "parent_handoff_id" | "target" | "accepted_by" | "accepted_at"
+  | "state" | "met_stop_conditions" | "resolved_unknowns" | "updated_at";
+
+export function insertHandoff(handoff: Omit<Handoff, OptionalHandoffField> & Partial<Pick<Handoff, OptionalHandoffField>>): Handoff {
   const database = getDb();
   const now = new Date().toISOString();
   const id = handoff.id ?? crypto.randomUUID();
 
   database.prepare(`
-    INSERT INTO handoffs (id, goal, current_state, next_action, constraints, known_unknowns, artifacts, stop_conditions, session_id, created_at)
-    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    INSERT INTO handoffs (id, goal, current_state, next_action, constraints, known_unknowns, artifacts, stop_conditions, session_id, parent_handoff_id, target, accepted_by, accepted_at, state, met_stop_conditions, resolved_unknowns, updated_at, created_at)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
   `).run(
     id,
     handoff.goal,
@@ -458,19 +1486,138 @@ export function insertHandoff(handoff: Omit<Handoff, "id" | "created_at"> & Part
     JSON.stringify(handoff.artifacts),
     JSON.stringify(handoff.stop_conditions),
     handoff.session_id,
+    handoff.parent_handoff_id ?? null,
+    handoff.target ?? null,
+    handoff.accepted_by ?? null,
+    handoff.accepted_at ?? null,
+    handoff.state ?? "open",
+    JSON.stringify(handoff.met_stop_conditions ?? []),
+    JSON.stringify(handoff.resolved_unknowns ?? []),
+    handoff.updated_at ?? null,
     handoff.created_at ?? now,
   );
 
-  return getLatestHandoff()!;
+  return getHandoff(id)!;
+}
+
+export function getHandoff(id: string): Handoff | null {
+  const database = getDb();
+  const row = database.prepare("SELECT * FROM handoffs WHERE id = ?").get(id) as Record<string, unknown> | undefined;
+  if (!row) return null;
+  return rowToHandoff(row);
 }
 
 export function getLatestHandoff(): Handoff | null {
   const database = getDb();
-  const row = database.prepare("SELECT * FROM handoffs ORDER BY created_at DESC LIMIT 1").get() as Record<string, unknown> | undefined;
+  const row = database.prepare("SELECT * FROM handoffs ORDER BY created_at DESC, rowid DESC LIMIT 1").get() as Record<string, unknown> | undefined;
   if (!row) return null;
   return rowToHandoff(row);
 }
 
+export interface HandoffFilters {
+  session_id?: string;
+  /** Case-insensitive substring of the goal */
+  goal?: string;
+  /** ISO bounds on created_at: at or after, and before */
+  after?: string;
+  before?: string;
+  /** Addressed to one of these targets; with include_untargeted, handoffs for anyone too */
+  targets?: string[];
+  include_untargeted?: boolean;
+  accepted?: boolean;
+  accepted_by?: string;
+  /** Accepted by a session (not a named agent) that is no longer active */
+  accepted_by_ended_session?: boolean;
+  states?: HandoffState[];
+}
+
+function buildHandoffFilterSql(filters: HandoffFilters): { where: string; values: unknown[] } {
+  const clauses: string[] = [];
+  const values: unknown[] = [];
+  if (filters.session_id) { clauses.push("session_id = ?"); values.push(filters.session_id); }
+  if (filters.goal) { clauses.push("goal LIKE ? ESCAPE '\\'"); values.push(`%${filters.goal.replace(/[\\%_]/g, "\\$&")}%`); }
+  if (filters.after) { clauses.push("created_at >= ?"); values.push(filters.after); }
+  if (filters.before) { clauses.push("created_at < ?"); values.push(filters.before); }
+  if (filters.targets) {
+    const addressed = filters.targets.length > 0 ? `target IN (${filters.targets.map(() => "?").join(", ")})` : "0";
+    clauses.push(filters.include_untargeted ? `(${addressed} OR target IS NULL)` : addressed);
+    values.push(...filters.targets);
+  }
+  if (filters.accepted !== undefined) clauses.push(filters.accepted ? "accepted_at IS NOT NULL" : "accepted_at IS NULL");
+  if (filters.accepted_by) { clauses.push("accepted_by = ?"); values.push(filters.accepted_by); }
+  if (filters.accepted_by_ended_session) {
+    clauses.push("EXISTS (SELECT 1 FROM sessions s WHERE s.id = handoffs.accepted_by AND s.status != 'active')");
+  }
+  if (filters.states && filters.states.length > 0) {
+    clauses.push(`state IN (${filters.states.map(() => "?").join(", ")})`);
+    values.push(...filters.states);
+  }
+  return { where: clauses.length > 0 ? `WHERE ${clauses.join(" AND ")}` : "", values };
+}
+
+/** Handoffs matching every given filter, newest first. */
+export function listHandoffs(filters: HandoffFilters = {}, limit: number = 20): Handoff[] {
+  const database = getDb();
+  const { where, values } = buildHandoffFilterSql(filters);
+  const rows = database.prepare(`SELECT * FROM handoffs ${where} ORDER BY created_at DESC, rowid DESC LIMIT ?`).all(...values, limit) as Record<string, unknown>[];
+  return rows.map(rowToHandoff);
+}
+
+export function countHandoffs(filters: HandoffFilters = {}): number {
+  const database = getDb();
+  const { where, values } = buildHandoffFilterSql(filters);
+  return (database.prepare(`SELECT COUNT(*) AS count FROM handoffs ${where}`).get(...values) as { count: number }).count;
+}
+
+/** Mark a handoff taken, and in progress. False if it doesn't exist or someone accepted it first. */
+export function acceptHandoff(id: string, acceptedBy: string): boolean {
+  const database = getDb();
+  const now = new Date().toISOString();
+  return database.prepare(`
+    UPDATE handoffs SET accepted_by = ?, accepted_at = ?, updated_at = ?,
+      state = CASE state WHEN 'open' THEN 'in_progress' ELSE state END
+    WHERE id = ? AND accepted_at IS NULL
+  `).run(acceptedBy, now, now, id).changes > 0;
+}
+
+/** Move an accepted handoff from one acceptor to another. False if someone else moved it first. */
+export function takeOverHandoff(id: string, from: string, to: string): boolean {
+  const database = getDb();
+  const now = new Date().toISOString();
+  return database.prepare(
+    "UPDATE handoffs SET accepted_by = ?, accepted_at = ?, updated_at = ? WHERE id = ? AND accepted_by = ?"
+  ).run(to, now, now, id, from).changes > 0;
+}
+
+export function updateHandoffProgress(id: string, updates: {
+  state?: HandoffState;
+  current_state?: string;
+  next_action?: string;
+  met_stop_conditions?: number[];
+  resolved_unknowns?: number[];
+}): Handoff | null {
+  const database = getDb();
+  const fields: string[] = [];
+  const values: unknown[] = [];
+  if (updates.state !== undefined) { fields.push("state = ?"); values.push(updates.state); }
+  if (updates.current_state !== undefined) { fields.push("current_state = ?"); values.push(updates.current_state); }
+  if (updates.next_action !== undefined) { fields.push("next_action = ?"); values.push(updates.next_action); }
+  if (updates.met_stop_conditions !== undefined) { fields.push("met_stop_conditions = ?"); values.push(JSON.stringify(updates.met_stop_conditions)); }
+  if (updates.resolved_unknowns !== undefined) { fields.push("resolved_unknowns = ?"); values.push(JSON.stringify(updates.resolved_unknowns)); }
+  if (fields.length === 0) return getHandoff(id);
+
+  fields.push("updated_at = ?");
+  values.push(new Date().toISOString(), id);
+  database.prepare(`UPDATE handoffs SET ${fields.join(", ")} WHERE id = ?`).run(...values);
+  return getHandoff(id);
+}
+
+export function getChildHandoffs(parentId: string): Handoff[] {
+  const database = getDb();
+  const rows = database.prepare("SELECT * FROM handoffs WHERE parent_handoff_id = ? ORDER BY created_at ASC").all(parentId) as Record<string, unknown>[];
+  return rows.map(rowToHandoff);
+}
+
 // --- Diagnostics ---
 
 export function insertDiagnostic(
@@ -586,6 +1733,19 @@ export function getRecentFeedback(limit: number = 10): Array<{
   }>;
 }
 
+// --- Meta key/value (internal state such as job checkpoints) ---
+
+export function getMeta(key: string): string | null {
+  const database = getDb();
+  const row = database.prepare("SELECT value FROM meta WHERE key = ?").get(key) as { value: string } | undefined;
+  return row ? row.value : null;
+}
+
+export function setMeta(key: string, value: string): void {
+  const database = getDb();
+  database.prepare("INSERT OR REPLACE INTO meta (key, value) VALUES (?, ?)").run(key, value);
+}
+
 // --- Metrics key/value ---
 
 export function getMetric(key: string): string | null {
@@ -797,6 +1957,7 @@ export function initProjectVault(activeSessionId?: string | null): string {
   db.pragma("journal_mode = WAL");
   db.pragma("busy_timeout = 3000");
   migrate(db);
+  prepareVectorTable(db);
 
   // Carry over the active session so mm_session_save still works
   if (activeSessionId) {
@@ -855,6 +2016,17 @@ export function getActiveSessions(): Session[] {
 
 // --- Session Events ---
 
+function rowToSessionEvent(row: Record<string, unknown>): SessionEvent {
+  return {
+    id: row.id as string,
+    session_id: row.session_id as string,
+    event_type: row.event_type as string,
+    resource_id: (row.resource_id as string) ?? null,
+    summary: (row.summary as string) ?? null,
+    created_at: row.created_at as string,
+  };
+}
+
 export function logSessionEvent(
   sessionId: string,
   eventType: string,
@@ -872,14 +2044,7 @@ export function getSessionEvents(sessionId: string, limit: number = 50): Session
   const rows = database.prepare(
     "SELECT * FROM session_events WHERE session_id = ? ORDER BY created_at ASC LIMIT ?"
   ).all(sessionId, limit) as Record<string, unknown>[];
-  return rows.map((row) => ({
-    id: row.id as string,
-    session_id: row.session_id as string,
-    event_type: row.event_type as string,
-    resource_id: (row.resource_id as string) ?? null,
-    summary: (row.summary as string) ?? null,
-    created_at: row.created_at as string,
-  }));
+  return rows.map(rowToSessionEvent);
 }
 
 export function getRecentEvents(sinceIso: string, limit: number = 50): SessionEvent[] {
@@ -887,40 +2052,70 @@ export function getRecentEvents(sinceIso: string, limit: number = 50): SessionEv
   const rows = database.prepare(
     "SELECT * FROM session_events WHERE created_at > ? ORDER BY created_at DESC LIMIT ?"
   ).all(sinceIso, limit) as Record<string, unknown>[];
-  return rows.map((row) => ({
-    id: row.id as string,
-    session_id: row.session_id as string,
-    event_type: row.event_type as string,
-    resource_id: (row.resource_id as string) ?? null,
-    summary: (row.summary as string) ?? null,
-    created_at: row.created_at as string,
-  }));
+  return rows.map(rowToSessionEvent);
 }
 
 // --- Session Claims (Advisory Locks) ---
 
+function rowToSessionClaim(row: Record<string, unknown>): SessionClaim {
+  return {
+    resource: row.resource as string,
+    session_id: row.session_id as string,
+    pid: row.pid as number,
+    claimed_at: row.claimed_at as string,
+    description: (row.description as string) ?? null,
+    ttl_seconds: (row.ttl_seconds as number) ?? null,
+    expires_at: (row.expires_at as string) ?? null,
+    renew: row.renew === 1,
+  };
+}
+
+export interface ClaimOptions {
+  /** Seconds until the claim lapses; omit for a claim that lasts until the session ends */
+  ttlSeconds?: number | null;
+  /** Let the heartbeat renew the claim (default true) */
+  renew?: boolean;
+}
+
+/**
+ * Claim a resource, literal or pattern. Fails if it overlaps a live claim of
+ * another active session, and logs a claim_conflict event on each holder's
+ * session so the holder hears about it.
+ */
 export function claimResource(
   sessionId: string,
   resource: string,
   pid: number,
-  description: string | null = null
-): { success: boolean; held_by?: string } {
+  description: string | null = null,
+  options: ClaimOptions = {}
+): { success: boolean; held_by?: string; conflicts?: SessionClaim[] } {
   const database = getDb();
+  const now = new Date();
+
+  return database.transaction(() => {
+    const conflicts = database.prepare(
+      "SELECT sc.* FROM session_claims sc JOIN sessions s ON sc.session_id = s.id WHERE s.status = 'active' AND sc.session_id != ? AND (sc.expires_at IS NULL OR sc.expires_at > ?)"
+    ).all(sessionId, now.toISOString())
+      .map((row) => rowToSessionClaim(row as Record<string, unknown>))
+      .filter((claim) => claimsOverlap(claim.resource, resource));
+
+    if (conflicts.length > 0) {
+      for (const claim of conflicts) {
+        logSessionEvent(claim.session_id, "claim_conflict", claim.resource, `Session ${sessionId.slice(0, 8)} tried to claim ${resource}`);
+      }
+      return { success: false, held_by: conflicts[0].session_id, conflicts };
+    }
 
-  // Check if already claimed by a different active session with fresh heartbeat
-  const existing = database.prepare(
-    "SELECT sc.session_id, sc.pid FROM session_claims sc JOIN sessions s ON sc.session_id = s.id WHERE sc.resource = ? AND s.status = 'active'"
-  ).get(resource) as { session_id: string; pid: number } | undefined;
-
-  if (existing && existing.session_id !== sessionId) {
-    return { success: false, held_by: existing.session_id };
-  }
-
-  database.prepare(
-    "INSERT OR REPLACE INTO session_claims (resource, session_id, pid, claimed_at, description) VALUES (?, ?, ?, ?, ?)"
-  ).run(resource, sessionId, pid, new Date().toISOString(), description);
-
-  return { success: true };
+    const ttl = options.ttlSeconds ?? null;
+    database.prepare(
+      "INSERT OR REPLACE INTO session_claims (resource, session_id, pid, claimed_at, description, ttl_seconds, expires_at, renew) VALUES (?, ?, ?, ?, ?, ?, ?, ?)"
+    ).run(
+      resource, sessionId, pid, now.toISOString(), description, ttl,
+      ttl === null ? null : new Date(now.getTime() + ttl * 1000).toISOString(),
+      options.renew === false ? 0 : 1
+    );
+    return { success: true };
+  })();
 }
 
 export function releaseResource(sessionId: string, resource: string): boolean {
@@ -939,18 +2134,282 @@ export function releaseAllClaims(sessionId: string): number {
   return result.changes;
 }
 
-export function getActiveClaims(): SessionClaim[] {
+/** Unexpired claims of active sessions, optionally only those of one session. */
+export function getActiveClaims(sessionId?: string): SessionClaim[] {
   const database = getDb();
   const rows = database.prepare(
-    "SELECT sc.* FROM session_claims sc JOIN sessions s ON sc.session_id = s.id WHERE s.status = 'active'"
-  ).all() as Record<string, unknown>[];
-  return rows.map((row) => ({
-    resource: row.resource as string,
-    session_id: row.session_id as string,
-    pid: row.pid as number,
-    claimed_at: row.claimed_at as string,
-    description: (row.description as string) ?? null,
-  }));
+    `SELECT sc.* FROM session_claims sc JOIN sessions s ON sc.session_id = s.id
+     WHERE s.status = 'active' AND (sc.expires_at IS NULL OR sc.expires_at > ?)${sessionId ? " AND sc.session_id = ?" : ""}
+     ORDER BY sc.claimed_at ASC`
+  ).all(...[new Date().toISOString(), ...(sessionId ? [sessionId] : [])]) as Record<string, unknown>[];
+  return rows.map(rowToSessionClaim);
+}
+
+/**
+ * Push the expiry of a session's renewing claims one TTL past now. Lapsed
+ * claims stay lapsed — another session may have claimed the resource since.
+ */
+export function renewClaims(sessionId: string): number {
+  const database = getDb();
+  return database.prepare(
+    "UPDATE session_claims SET expires_at = strftime('%Y-%m-%dT%H:%M:%fZ', 'now', '+' || ttl_seconds || ' seconds') WHERE session_id = ? AND renew = 1 AND expires_at > ?"
+  ).run(sessionId, new Date().toISOString()).changes;
+}
+
+export function deleteExpiredClaims(): number {
+  const database = getDb();
+  return database.prepare(
+    "DELETE FROM session_claims WHERE expires_at IS NOT NULL AND expires_at <= ?"
+  ).run(new Date().toISOString()).changes;
+}
+
+/** Newest first. */
+export function getSessionEventsByType(sessionId: string, eventType: string, limit: number = 20): SessionEvent[] {
+  const database = getDb();
+  const rows = database.prepare(
+    "SELECT * FROM session_events WHERE session_id = ? AND event_type = ? ORDER BY created_at DESC LIMIT ?"
+  ).all(sessionId, eventType, limit) as Record<string, unknown>[];
+  return rows.map(rowToSessionEvent);
+}
+
+// --- Change Detection (for MCP resource subscriptions) ---
+
+/** Changes whenever another connection commits to the database; our own writes leave it alone. */
+export function getDataVersion(): number {
+  const database = getDb();
+  return database.pragma("data_version", { simple: true }) as number;
+}
+
+export interface ChangeFingerprints {
+  events: string;
+  claims: string;
+  latest_handoff: string;
+}
+
+/**
+ * Cheap summaries of the watched tables, read every poll; a resource changed
+ * when its fingerprint did. Claim expiry is left out so heartbeat renewals
+ * don't count.
+ */
+export function getChangeFingerprints(): ChangeFingerprints {
+  const database = getDb();
+  const events = database.prepare(
+    "SELECT COALESCE(MAX(rowid), 0) AS fp FROM session_events"
+  ).get() as { fp: number };
+  const claims = database.prepare(
+    "SELECT COALESCE(group_concat(resource || '|' || session_id || '|' || claimed_at, ','), '') AS fp FROM (SELECT * FROM session_claims ORDER BY resource)"
+  ).get() as { fp: string };
+  const handoff = database.prepare(
+    "SELECT id || ':' || state || ':' || COALESCE(updated_at, '') || ':' || COALESCE(accepted_at, '') AS fp FROM handoffs ORDER BY created_at DESC, rowid DESC LIMIT 1"
+  ).get() as { fp: string } | undefined;
+  return { events: String(events.fp), claims: claims.fp, latest_handoff: handoff?.fp ?? "" };
+}
+
+// --- Retention ---
+
+export interface RetentionCutoffs {
+  /** ISO timestamps; rows older than these go, null leaves the table alone */
+  archived_before: string | null;
+  diagnostics_before: string | null;
+  /** Applies to sessions completed before it */
+  events_before: string | null;
+}
+
+export interface PurgeCounts {
+  memories: number;
+  diagnostics: number;
+  session_events: number;
+  token_estimates: number;
+}
+
+// Memories archived (deleteMemory stamps updated_at) before @archived_before
+const EXPIRED_MEMORY = "tier = 'archived' AND updated_at < @archived_before";
+const EXPIRED_SESSION = `session_id IN (
+  SELECT id FROM sessions WHERE status = 'completed' AND COALESCE(ended_at, started_at) < @events_before
+)`;
+
+export function getExpiredMemories(archivedBefore: string, limit: number = 50): Array<{ id: string; title: string; archived_at: string }> {
+  const database = getDb();
+  return database.prepare(
+    `SELECT id, title, updated_at AS archived_at FROM memories WHERE ${EXPIRED_MEMORY} ORDER BY updated_at LIMIT @limit`
+  ).all({ archived_before: archivedBefore, limit }) as Array<{ id: string; title: string; archived_at: string }>;
+}
+
+export function countExpiredRows(cutoffs: RetentionCutoffs): PurgeCounts {
+  const database = getDb();
+  const count = (sql: string, params: Record<string, string>): number =>
+    (database.prepare(`SELECT COUNT(*) AS n FROM ${sql}`).get(params) as { n: number }).n;
+  return {
+    memories: cutoffs.archived_before ? count(`memories WHERE ${EXPIRED_MEMORY}`, { archived_before: cutoffs.archived_before }) : 0,
+    diagnostics: cutoffs.diagnostics_before ? count("diagnostics WHERE created_at < @before", { before: cutoffs.diagnostics_before }) : 0,
+    session_events: cutoffs.events_before ? count(`session_events WHERE ${EXPIRED_SESSION}`, { events_before: cutoffs.events_before }) : 0,
+    token_estimates: cutoffs.events_before ? count(`token_estimates WHERE ${EXPIRED_SESSION}`, { events_before: cutoffs.events_before }) : 0,
+  };
+}
+
+/**
+ * Hard-delete rows past their cutoffs in one transaction. Purged memories take
+ * their chunks, versions, links and vector rows with them; their ids are returned so
+ * external vector stores can drop them too.
+ */
+export function purgeExpiredRows(cutoffs: RetentionCutoffs): PurgeCounts & { memory_ids: string[] } {
+  const database = getDb();
+  const result: PurgeCounts & { memory_ids: string[] } = { memories: 0, diagnostics: 0, session_events: 0, token_estimates: 0, memory_ids: [] };
+
+  database.transaction(() => {
+    if (cutoffs.archived_before) {
+      const params = { archived_before: cutoffs.archived_before };
+      result.memory_ids = (database.prepare(`SELECT id FROM memories WHERE ${EXPIRED_MEMORY}`).all(params) as Array<{ id: string }>).map((r) => r.id);
+      const expired = `memory_id IN (SELECT id FROM memories WHERE ${EXPIRED_MEMORY})`;
+      database.prepare(`DELETE FROM memory_chunks WHERE ${expired}`).run(params);
+      database.prepare(`DELETE FROM memory_versions WHERE ${expired}`).run(params);
+      database.prepare(`DELETE FROM memory_links WHERE source_id IN (SELECT id FROM memories WHERE ${EXPIRED_MEMORY}) OR target_id IN (SELECT id FROM memories WHERE ${EXPIRED_MEMORY})`).run(params);
+      if (vectorTable) database.prepare(`DELETE FROM memory_vectors WHERE ${expired}`).run(params);
+      result.memories = database.prepare(`DELETE FROM memories WHERE ${EXPIRED_MEMORY}`).run(params).changes;
+    }
+    if (cutoffs.diagnostics_before) {
+      result.diagnostics = database.prepare("DELETE FROM diagnostics WHERE created_at < ?").run(cutoffs.diagnostics_before).changes;
+    }
+    if (cutoffs.events_before) {
+      const params = { events_before: cutoffs.events_before };
+      result.session_events = database.prepare(`DELETE FROM session_events WHERE ${EXPIRED_SESSION}`).run(params).changes;
+      result.token_estimates = database.prepare(`DELETE FROM token_estimates WHERE ${EXPIRED_SESSION}`).run(params).changes;
+    }
+  })();
+
+  return result;
+}
+
+export function getDatabaseSizeBytes(): number {
+  const database = getDb();
+  const pages = database.pragma("page_count", { simple: true }) as number;
+  const pageSize = database.pragma("page_size", { simple: true }) as number;
+  return pages * pageSize;
+}
+
+/** Merge FTS index segments and rebuild the file to return freed pages to the OS. */
+export function compactDatabase(): void {
+  const database = getDb();
+  database.exec("INSERT INTO memories_fts(memories_fts) VALUES ('optimize')");
+  database.exec("VACUUM");
+  database.pragma("wal_checkpoint(TRUNCATE)");
+}
+
+// --- Vault export / import ---
+
+export type VaultTable = "memories" | "handoffs" | "sessions" | "session_events" | "feedback";
+
+export function recordExists(table: VaultTable, id: string): boolean {
+  const database = getDb();
+  const row = database.prepare(`SELECT id FROM ${table} WHERE id = ?`).get(id) as Record<string, unknown> | undefined;
+  return !!row;
+}
+
+export function runInTransaction<T>(fn: () => T): T {
+  const database = getDb();
+  return database.transaction(fn)();
+}
+
+export function* iterateMemories(includeArchived: boolean = true): Generator<Memory> {
+  const database = getDb();
+  const sql = includeArchived
+    ? "SELECT * FROM memories ORDER BY created_at ASC"
+    : "SELECT * FROM memories WHERE tier != 'archived' ORDER BY created_at ASC";
+  for (const row of database.prepare(sql).iterate() as IterableIterator<Record<string, unknown>>) {
+    yield rowToMemory(row);
+  }
+}
+
+export function getAllHandoffs(): Handoff[] {
+  const database = getDb();
+  const rows = database.prepare("SELECT * FROM handoffs ORDER BY created_at ASC, rowid ASC").all() as Record<string, unknown>[];
+  return rows.map(rowToHandoff);
+}
+
+export function getAllSessions(): Session[] {
+  const database = getDb();
+  const rows = database.prepare("SELECT * FROM sessions ORDER BY started_at ASC").all() as Record<string, unknown>[];
+  return rows.map(rowToSession);
+}
+
+export function getAllMemoryVersions(): MemoryVersion[] {
+  const database = getDb();
+  const rows = database.prepare("SELECT * FROM memory_versions ORDER BY memory_id, version").all() as Record<string, unknown>[];
+  return rows.map(rowToMemoryVersion);
+}
+
+export function getAllMemoryLinks(): MemoryLink[] {
+  const database = getDb();
+  return database.prepare("SELECT * FROM memory_links ORDER BY created_at ASC").all() as MemoryLink[];
+}
+
+export function getAllSessionEvents(): SessionEvent[] {
+  const database = getDb();
+  const rows = database.prepare("SELECT * FROM session_events ORDER BY created_at ASC").all() as Record<string, unknown>[];
+  return rows.map(rowToSessionEvent);
+}
+
+export function getAllFeedback(): Array<{ id: string; type: string; message: string; tool_name: string | null; created_at: string }> {
+  const database = getDb();
+  return database.prepare(
+    "SELECT * FROM feedback ORDER BY created_at ASC"
+  ).all() as Array<{ id: string; type: string; message: string; tool_name: string | null; created_at: string }>;
+}
+
+export function insertSessionRecord(session: Session): void {
+  const database = getDb();
+  database.prepare(`
+    INSERT INTO sessions (id, status, summary, goal, actions_taken, outcomes, where_left_off, started_at, ended_at, metadata, pid, last_heartbeat)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+  `).run(
+    session.id,
+    // An imported session can never be live in this process
+    session.status === "active" ? "paused" : session.status,
+    session.summary,
+    session.goal,
+    JSON.stringify(session.actions_taken),
+    JSON.stringify(session.outcomes),
+    session.where_left_off,
+    session.started_at,
+    session.ended_at,
+    JSON.stringify(session.metadata),
+    null,
+    null,
+  );
+}
+
+export function insertSessionEventRecord(event: SessionEvent): void {
+  const database = getDb();
+  database.prepare(
+    "INSERT INTO session_events (id, session_id, event_type, resource_id, summary, created_at) VALUES (?, ?, ?, ?, ?, ?)"
+  ).run(event.id, event.session_id, event.event_type, event.resource_id, event.summary, event.created_at);
+}
+
+/** Insert a version as exported. Returns false when that version number already exists. */
+export function insertMemoryVersionRecord(version: MemoryVersion): boolean {
+  const database = getDb();
+  return database.prepare(`
+    INSERT OR IGNORE INTO memory_versions (memory_id, version, type, title, content, tags, metadata, created_at, replaced_at)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+  `).run(
+    version.memory_id, version.version, version.type, version.title, version.content,
+    JSON.stringify(version.tags), JSON.stringify(version.metadata), version.created_at, version.replaced_at,
+  ).changes > 0;
+}
+
+/** Insert an edge as exported, keeping its created_at. Returns false when it already exists. */
+export function insertMemoryLinkRecord(link: MemoryLink): boolean {
+  const database = getDb();
+  return database.prepare(
+    "INSERT OR IGNORE INTO memory_links (source_id, target_id, type, created_at) VALUES (?, ?, ?, ?)"
+  ).run(link.source_id, link.target_id, link.type, link.created_at).changes > 0;
+}
+
+export function insertFeedbackRecord(feedback: { id: string; type: string; message: string; tool_name: string | null; created_at: string }): void {
+  const database = getDb();
+  database.prepare(
+    "INSERT INTO feedback (id, type, message, tool_name, created_at) VALUES (?, ?, ?, ?, ?)"
+  ).run(feedback.id, feedback.type, feedback.message, feedback.tool_name, feedback.created_at);
 }
 
 // --- Moltbook post dedup ---
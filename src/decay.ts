@@ -0,0 +1,110 @@
+import { getDecayCandidates, applyDecayUpdates, logSessionEvent, addMemoryListener } from "./db.js";
+import { getDecayConfig, type DecayConfig } from "./config.js";
+import { getCurrentSessionId } from "./metrics.js";
+import type { MemoryTier } from "./types.js";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Share of the score a heavily-used memory can recover once recency has faded
+const USAGE_WEIGHT = 0.5;
+
+// Tier order from most to least relevant — decay only ever moves memories right
+const TIER_RANK: Record<Exclude<MemoryTier, "archived">, number> = { hot: 0, warm: 1, cold: 2 };
+
+let lastRunAt = 0;
+
+export interface DecayInput {
+  created_at: string;
+  accessed_at: string;
+  access_count: number;
+}
+
+export interface DecayTransition {
+  id: string;
+  from: MemoryTier;
+  to: MemoryTier;
+  decay_score: number;
+}
+
+/**
+ * Score in [0, 1]: exponential recency decay on accessed_at, lifted by access
+ * frequency (accesses per week of age) so frequently used memories fade slower.
+ */
+export function computeDecayScore(input: DecayInput, config: DecayConfig = getDecayConfig(), now: number = Date.now()): number {
+  const sinceAccessDays = Math.max(0, (now - new Date(input.accessed_at).getTime()) / DAY_MS);
+  const ageDays = Math.max(0, (now - new Date(input.created_at).getTime()) / DAY_MS);
+
+  const recency = Math.pow(0.5, sinceAccessDays / Math.max(config.half_life_days, 0.001));
+  const accessesPerWeek = input.access_count / Math.max(ageDays / 7, 1);
+  const usage = accessesPerWeek / (accessesPerWeek + 1);
+
+  const score = recency + (1 - recency) * usage * USAGE_WEIGHT;
+  return Math.round(Math.min(1, Math.max(0, score)) * 10000) / 10000;
+}
+
+export function tierForScore(score: number, config: DecayConfig = getDecayConfig()): Exclude<MemoryTier, "archived"> {
+  if (score < config.cold_threshold) return "cold";
+  if (score < config.warm_threshold) return "warm";
+  return "hot";
+}
+
+export function recordTierTransition(transition: DecayTransition): void {
+  const sessionId = getCurrentSessionId();
+  if (!sessionId) return;
+  const verb = transition.to === "hot" || (transition.from === "cold" && transition.to === "warm") ? "Promoted" : "Demoted";
+  logSessionEvent(
+    sessionId,
+    "tier_changed",
+    transition.id,
+    `${verb} memory ${transition.id.slice(0, 8)}: ${transition.from} → ${transition.to} (decay ${transition.decay_score.toFixed(2)})`,
+  );
+}
+
+// Tier moves are logged from the change feed, so promotions inside db.getMemory
+// are recorded without db.ts depending on this module
+addMemoryListener(({ memory, tier_from }) => {
+  if (tier_from && tier_from !== memory.tier) {
+    recordTierTransition({ id: memory.id, from: tier_from, to: memory.tier, decay_score: memory.decay_score });
+  }
+});
+
+/**
+ * Recompute decay_score for every non-archived memory and demote those that
+ * fell below a tier threshold. Promotion happens on access (see getMemory).
+ */
+export function runDecayPass(config: DecayConfig = getDecayConfig(), now: number = Date.now()): { scanned: number; updated: number; transitions: DecayTransition[] } {
+  const candidates = getDecayCandidates();
+  const updates: Array<{ id: string; decay_score: number; tier: MemoryTier }> = [];
+  const transitions: DecayTransition[] = [];
+
+  for (const mem of candidates) {
+    const score = computeDecayScore(mem, config, now);
+    const target = tierForScore(score, config);
+    const current = mem.tier as Exclude<MemoryTier, "archived">;
+    const tier = TIER_RANK[target] > TIER_RANK[current] ? target : current;
+
+    if (tier === current && Math.abs(score - mem.decay_score) < 0.001) continue;
+    updates.push({ id: mem.id, decay_score: score, tier });
+    if (tier !== current) {
+      transitions.push({ id: mem.id, from: current, to: tier, decay_score: score });
+    }
+  }
+
+  applyDecayUpdates(updates);
+
+  lastRunAt = now;
+  return { scanned: candidates.length, updated: updates.length, transitions };
+}
+
+/** Called from the 30s heartbeat — only does work once per configured interval. */
+export function maybeRunDecay(now: number = Date.now()): boolean {
+  const config = getDecayConfig();
+  if (now - lastRunAt < config.interval_ms) return false;
+  runDecayPass(config, now);
+  return true;
+}
+
+// Reset for testing
+export function _resetDecay(): void {
+  lastRunAt = 0;
+}
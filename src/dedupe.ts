@@ -0,0 +1,184 @@
+import {
+  getMemoriesByIds, getMemoryRaw, updateMemory, deleteMemory, hasForeignEmbeddings,
+  iterateEmbeddingRefs, getEmbeddingsByIds, moveMemoryLinks,
+} from "./db.js";
+import { bufferToEmbedding, embeddingToBuffer, cosineSimilarity, getModelName } from "./embeddings.js";
+import { embedText } from "./embedding_cache.js";
+import { embedMemoryChunks } from "./chunking.js";
+import { getVectorStore } from "./vector_store.js";
+import type { RecallFilters } from "./query_parser.js";
+import type { Memory } from "./types.js";
+
+// Same cap mm_store puts on content
+export const MAX_CONTENT_LENGTH = 51200;
+
+export interface DuplicateMatch {
+  memory: Memory;
+  similarity: number;
+}
+
+export interface DuplicateCluster {
+  /** The oldest memory — the others would be merged into it */
+  keep: { id: string; title: string; created_at: string };
+  duplicates: Array<{ id: string; title: string; similarity: number }>;
+}
+
+/** Only compare vectors from the active model. */
+function modelFilters(): RecallFilters {
+  const model = getModelName();
+  return hasForeignEmbeddings(model) ? { embedding_model: model } : {};
+}
+
+function round(value: number): number {
+  return Math.round(value * 10000) / 10000;
+}
+
+/** The most similar live memory at or above threshold, if any. */
+export function findDuplicate(vector: Float32Array, threshold: number): DuplicateMatch | null {
+  for (const result of getVectorStore().search(vector, 3, modelFilters())) {
+    if (result.score < threshold) break;
+    // External indexes may briefly hold archived ids — re-check against the table
+    const [memory] = getMemoriesByIds([result.id]);
+    if (memory) return { memory, similarity: round(result.score) };
+  }
+  return null;
+}
+
+export interface MergeResult {
+  memory: Memory;
+  /** Indexes of sources left out because they would push the content past MAX_CONTENT_LENGTH */
+  unmerged: number[];
+}
+
+/**
+ * Fold other memories' content and tags into target: content not already in
+ * it is appended and tags are unioned, then the result is re-embedded. A
+ * source whose content does not fit is left out entirely and reported in
+ * unmerged. Ids of folded-in sources are recorded in metadata.merged_from.
+ * Returns null when the target is gone or archived.
+ */
+export async function mergeIntoMemory(
+  targetId: string,
+  sources: Array<{ id?: string; content: string; tags: string[] }>
+): Promise<MergeResult | null> {
+  const target = getMemoryRaw(targetId);
+  if (!target || target.tier === "archived") return null;
+
+  let content = target.content;
+  const folded: typeof sources = [];
+  const unmerged: number[] = [];
+  sources.forEach((source, index) => {
+    const addition = source.content.trim();
+    if (addition && !content.includes(addition)) {
+      if (content.length + addition.length + 2 > MAX_CONTENT_LENGTH) {
+        unmerged.push(index);
+        return;
+      }
+      content = `${content}\n\n${addition}`;
+    }
+    folded.push(source);
+  });
+  if (folded.length === 0) return { memory: target, unmerged };
+
+  const updates: Parameters<typeof updateMemory>[1] = {
+    tags: [...new Set([...target.tags, ...folded.flatMap((s) => s.tags)])],
+  };
+  const mergedFrom = folded.flatMap((s) => (s.id ? [s.id] : []));
+  if (mergedFrom.length > 0) {
+    const previous = Array.isArray(target.metadata.merged_from) ? target.metadata.merged_from as string[] : [];
+    updates.metadata = { ...target.metadata, merged_from: [...new Set([...previous, ...mergedFrom])] };
+  }
+
+  let vector: Float32Array | null = null;
+  if (content !== target.content) {
+    updates.content = content;
+    vector = await embedText(`${target.title} ${content}`);
+    if (vector) {
+      updates.embedding = embeddingToBuffer(vector);
+      updates.embedding_model = getModelName();
+    }
+  }
+
+  const updated = updateMemory(targetId, updates);
+  if (!updated) return null;
+  // Dual-write to vector store (no-op on BruteForceStore)
+  if (vector) getVectorStore().upsert(targetId, vector);
+  if (updates.content !== undefined) await embedMemoryChunks(updated);
+  return { memory: updated, unmerged };
+}
+
+/**
+ * Group live memories whose embeddings are at least threshold-similar, by
+ * asking the vector store for each memory's nearest neighbours. Clusters are
+ * transitive: A~B and B~C puts all three together.
+ *
+ * That is one search per memory — quadratic in vault size on the brute-force
+ * store — so mm_dedupe refuses vaults above the configured scan limit.
+ */
+export function findDuplicateClusters(threshold: number, neighbours: number = 5): DuplicateCluster[] {
+  const filters = modelFilters();
+  const store = getVectorStore();
+  const parent = new Map<string, string>();
+
+  const find = (id: string): string => {
+    let root = id;
+    while (parent.get(root) !== root) root = parent.get(root)!;
+    parent.set(id, root);
+    return root;
+  };
+
+  for (const refs of iterateEmbeddingRefs(filters)) {
+    for (const [id, blob] of getEmbeddingsByIds(refs.map((ref) => ref.id))) {
+      for (const result of store.search(bufferToEmbedding(blob), neighbours + 1, filters)) {
+        if (result.id === id || result.score < threshold) continue;
+        if (!parent.has(id)) parent.set(id, id);
+        if (!parent.has(result.id)) parent.set(result.id, result.id);
+        parent.set(find(id), find(result.id));
+      }
+    }
+  }
+
+  const groups = new Map<string, string[]>();
+  for (const id of parent.keys()) {
+    const root = find(id);
+    groups.set(root, [...(groups.get(root) ?? []), id]);
+  }
+
+  const clusters: DuplicateCluster[] = [];
+  for (const ids of groups.values()) {
+    const members = getMemoriesByIds(ids).sort((a, b) => a.created_at.localeCompare(b.created_at));
+    if (members.length < 2) continue;
+    const [keep, ...rest] = members;
+    const keepVector = bufferToEmbedding(keep.embedding!);
+    clusters.push({
+      keep: { id: keep.id, title: keep.title, created_at: keep.created_at },
+      duplicates: rest
+        .map((m) => ({ id: m.id, title: m.title, similarity: round(cosineSimilarity(keepVector, bufferToEmbedding(m.embedding!))) }))
+        .sort((a, b) => b.similarity - a.similarity),
+    });
+  }
+  return clusters.sort((a, b) => b.duplicates.length - a.duplicates.length);
+}
+
+/**
+ * Merge each duplicate into its cluster's keeper, moving its links, then
+ * archive it. Duplicates too large to fold in are left live and returned in
+ * skipped.
+ */
+export async function applyDuplicateCluster(
+  cluster: DuplicateCluster
+): Promise<{ memory: Memory; merged: string[]; skipped: string[] } | null> {
+  const sources = getMemoriesByIds(cluster.duplicates.map((d) => d.id));
+  const result = await mergeIntoMemory(cluster.keep.id, sources);
+  if (!result) return null;
+  const skipped = result.unmerged.map((index) => sources[index].id);
+  const merged: string[] = [];
+  for (const source of sources) {
+    if (skipped.includes(source.id)) continue;
+    moveMemoryLinks(source.id, result.memory.id);
+    deleteMemory(source.id);
+    getVectorStore().delete(source.id);
+    merged.push(source.id);
+  }
+  return { memory: result.memory, merged, skipped };
+}
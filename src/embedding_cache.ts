@@ -0,0 +1,157 @@
+import { createHash } from "node:crypto";
+import { getCachedEmbeddings, putCachedEmbeddings, touchCachedEmbeddings, pruneEmbeddingCache, countCachedEmbeddings } from "./db.js";
+import { embed, embedBatch, embeddingToBuffer, bufferToEmbedding, getModelName } from "./embeddings.js";
+import { getNumberOption } from "./config.js";
+
+// Writes between trims of the persistent cache back to --embedding-cache-size
+const PRUNE_EVERY = 100;
+// Cache hits are recorded in memory and written with the next insert, or once this many pile up
+const TOUCH_BATCH = 500;
+
+export interface CacheCounters {
+  hits: number;
+  misses: number;
+  hit_rate: number;
+  entries: number;
+}
+
+export interface EmbeddingCacheStats {
+  /** In-memory LRU of recall queries, for this process */
+  query: CacheCounters & { capacity: number };
+  /** Persistent cache of memory text in memory.db; hits and misses since startup */
+  text: CacheCounters;
+}
+
+/** Map-backed LRU: a read moves the key to the end, inserts evict from the front. */
+class LruCache<V> {
+  private entries = new Map<string, V>();
+
+  constructor(readonly capacity: number) {}
+
+  get(key: string): V | undefined {
+    const value = this.entries.get(key);
+    if (value !== undefined) {
+      this.entries.delete(key);
+      this.entries.set(key, value);
+    }
+    return value;
+  }
+
+  set(key: string, value: V): void {
+    this.entries.delete(key);
+    this.entries.set(key, value);
+    while (this.entries.size > this.capacity) {
+      this.entries.delete(this.entries.keys().next().value!);
+    }
+  }
+
+  get size(): number {
+    return this.entries.size;
+  }
+}
+
+let queryCache: LruCache<Float32Array> | null = null;
+const queryCounters = { hits: 0, misses: 0 };
+const textCounters = { hits: 0, misses: 0 };
+let writesSincePrune = 0;
+// Hits not yet written to last_used_at, keyed model\0hash
+const pendingTouches = new Map<string, [string, string]>();
+
+function flushTouches(): void {
+  touchCachedEmbeddings([...pendingTouches.values()]);
+  pendingTouches.clear();
+}
+
+function getQueryCache(): LruCache<Float32Array> {
+  queryCache ??= new LruCache(Math.max(1, getNumberOption("query-cache-size", 256)));
+  return queryCache;
+}
+
+export function contentHash(text: string): string {
+  return createHash("sha256").update(text).digest("hex");
+}
+
+/** Embed a recall query, reusing the vector of an identical recent query. */
+export async function embedQuery(text: string): Promise<Float32Array | null> {
+  const cache = getQueryCache();
+  const key = `${getModelName()}\0${contentHash(text)}`;
+  const cached = cache.get(key);
+  if (cached) {
+    queryCounters.hits++;
+    return cached;
+  }
+  queryCounters.misses++;
+  const vector = await embed(text);
+  if (vector) cache.set(key, vector);
+  return vector;
+}
+
+/**
+ * Embed memory text through the persistent cache: each distinct text is
+ * embedded once per model, misses in batched model calls.
+ */
+export async function embedTexts(texts: string[]): Promise<Array<Float32Array | null>> {
+  const model = getModelName();
+  const hashes = texts.map(contentHash);
+  const cached = getCachedEmbeddings(model, [...new Set(hashes)]);
+
+  const misses = hashes.filter((hash) => !cached.has(hash));
+  textCounters.hits += hashes.length - misses.length;
+  textCounters.misses += misses.length;
+  for (const hash of cached.keys()) pendingTouches.set(`${model}\0${hash}`, [model, hash]);
+
+  const missing = [...new Set(misses)];
+  const fresh = new Map<string, Float32Array>();
+  if (missing.length > 0) {
+    const missingTexts = missing.map((hash) => texts[hashes.indexOf(hash)]);
+    const vectors = await embedBatch(missingTexts);
+    const entries: Array<[string, Buffer]> = [];
+    missing.forEach((hash, i) => {
+      const vector = vectors[i];
+      if (!vector) return;
+      fresh.set(hash, vector);
+      entries.push([hash, embeddingToBuffer(vector)]);
+    });
+    putCachedEmbeddings(model, entries);
+    writesSincePrune += entries.length;
+    // Recency must be current before pruning by it
+    flushTouches();
+    if (writesSincePrune >= PRUNE_EVERY) {
+      writesSincePrune = 0;
+      pruneEmbeddingCache(getNumberOption("embedding-cache-size", 10_000));
+    }
+  } else if (pendingTouches.size >= TOUCH_BATCH) {
+    flushTouches();
+  }
+
+  return hashes.map((hash) => {
+    const blob = cached.get(hash);
+    return blob ? bufferToEmbedding(blob) : fresh.get(hash) ?? null;
+  });
+}
+
+export async function embedText(text: string): Promise<Float32Array | null> {
+  return (await embedTexts([text]))[0];
+}
+
+function counters(c: { hits: number; misses: number }, entries: number): CacheCounters {
+  const total = c.hits + c.misses;
+  return { hits: c.hits, misses: c.misses, hit_rate: total > 0 ? Math.round((c.hits / total) * 1000) / 1000 : 0, entries };
+}
+
+export function getEmbeddingCacheStats(): EmbeddingCacheStats {
+  const cache = getQueryCache();
+  return {
+    query: { ...counters(queryCounters, cache.size), capacity: cache.capacity },
+    text: counters(textCounters, countCachedEmbeddings()),
+  };
+}
+
+// Reset for testing
+export function _resetEmbeddingCache(): void {
+  queryCache = null;
+  queryCounters.hits = queryCounters.misses = 0;
+  textCounters.hits = textCounters.misses = 0;
+  writesSincePrune = 0;
+  pendingTouches.clear();
+}
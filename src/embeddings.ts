@@ -1,54 +1,366 @@
 import { env, pipeline } from "@xenova/transformers";
 import type { FeatureExtractionPipeline } from "@xenova/transformers";
+import { rmSync } from "node:fs";
 import { join } from "node:path";
 import { homedir } from "node:os";
+import { getEmbeddingConfig, type EmbeddingConfig } from "./config.js";
+import { verifyModelFiles, writeModelManifest, describeModelFileProblems, type ModelFileReport } from "./model_files.js";
 
-const MODEL_NAME = "Xenova/all-MiniLM-L6-v2";
+const DEFAULT_MODEL = "Xenova/all-MiniLM-L6-v2";
 const MODEL_DIR = join(homedir(), ".moltmind", "models");
 const LOAD_TIMEOUT_MS = 30_000;
+const RETRY_BASE_MS = 5_000;
+const RETRY_MAX_MS = 10 * 60_000;
+const HTTP_TIMEOUT_MS = 15_000;
 
-let extractor: FeatureExtractionPipeline | null = null;
-let modelFailed = false;
+// Output sizes of common embedding models; anything else needs --embedding-dimensions
+const KNOWN_DIMENSIONS: Record<string, number> = {
+  "Xenova/all-MiniLM-L6-v2": 384,
+  "Xenova/all-MiniLM-L12-v2": 384,
+  "Xenova/paraphrase-multilingual-MiniLM-L12-v2": 384,
+  "Xenova/bge-small-en-v1.5": 384,
+  "Xenova/bge-base-en-v1.5": 768,
+  "Xenova/all-mpnet-base-v2": 768,
+  "nomic-embed-text": 768,
+  "mxbai-embed-large": 1024,
+  "text-embedding-3-small": 1536,
+  "text-embedding-3-large": 3072,
+  "text-embedding-ada-002": 1536,
+};
 
-async function loadModel(): Promise<FeatureExtractionPipeline | null> {
-  if (extractor) return extractor;
-  if (modelFailed) return null;
+/**
+ * Turns text into vectors. `id` ("<provider>:<model>") is stored next to every
+ * embedding, so vectors from different models are never compared.
+ */
+export interface EmbeddingProvider {
+  readonly id: string;
+  readonly dimensions: number;
+  /** Null when the model is unavailable — callers fall back to keyword search. */
+  embed(text: string): Promise<Float32Array | null>;
+  /** Several texts in one model call; providers without it are called once per text. */
+  embedBatch?(texts: string[]): Promise<Array<Float32Array | null>>;
+  isReady(): boolean;
+}
+
+/** Wait before retry number `attempt`: 5s, doubling up to 10 minutes. */
+export function modelRetryDelay(attempt: number): number {
+  return Math.min(RETRY_BASE_MS * 2 ** Math.max(0, attempt - 1), RETRY_MAX_MS);
+}
+
+function logDownloadProgress(progress: { status: string; file?: string; progress?: number }): void {
+  if (progress.status === "download" && progress.file && progress.progress !== undefined) {
+    console.error(`MoltMind: downloading ${progress.file} ${Math.round(progress.progress)}%`);
+  }
+}
+
+/** Where a transformers model's files live and whether a load is being retried. */
+export interface ModelLoadState {
+  model_dir: string;
+  offline: boolean;
+  failed_attempts: number;
+  last_error: string | null;
+  /** When the next load is allowed, after a failure */
+  retry_at: string | null;
+}
+
+/**
+ * Local ONNX models via @xenova/transformers. Downloaded on first use into
+ * ~/.moltmind/models, or read from a --model-dir with remote fetching off.
+ * A failed load is retried with backoff instead of disabling search for good.
+ */
+export class TransformersProvider implements EmbeddingProvider {
+  readonly id: string;
+  readonly dimensions: number;
+  private model: string;
+  private modelDir: string;
+  private offline: boolean;
+  private extractor: FeatureExtractionPipeline | null = null;
+  private loading: Promise<FeatureExtractionPipeline | null> | null = null;
+  private failedAttempts = 0;
+  private lastError: string | null = null;
+  private retryAt = 0;
+
+  constructor(model: string = DEFAULT_MODEL, dimensions?: number, modelDir?: string | null) {
+    this.model = model;
+    this.id = `transformers:${model}`;
+    this.dimensions = dimensions ?? KNOWN_DIMENSIONS[model] ?? 384;
+    this.modelDir = modelDir ?? MODEL_DIR;
+    this.offline = Boolean(modelDir);
+  }
+
+  async embed(text: string): Promise<Float32Array | null> {
+    const extractor = await this.load();
+    if (!extractor) return null;
+    const output = await extractor(text, { pooling: "mean", normalize: true });
+    return output.data as Float32Array;
+  }
+
+  async embedBatch(texts: string[]): Promise<Array<Float32Array | null>> {
+    const extractor = await this.load();
+    if (!extractor) return texts.map(() => null);
+    // One [texts, dimensions] tensor for the whole batch
+    const output = await extractor(texts, { pooling: "mean", normalize: true });
+    const data = output.data as Float32Array;
+    const size = data.length / texts.length;
+    return texts.map((_, i) => data.slice(i * size, (i + 1) * size));
+  }
+
+  isReady(): boolean {
+    return this.extractor !== null;
+  }
 
-  // Configure cache directory before loading
-  env.cacheDir = MODEL_DIR;
-  // Disable browser-specific features
+  getLoadState(): ModelLoadState {
+    return {
+      model_dir: this.modelDir,
+      offline: this.offline,
+      failed_attempts: this.failedAttempts,
+      last_error: this.lastError,
+      retry_at: this.retryAt > Date.now() ? new Date(this.retryAt).toISOString() : null,
+    };
+  }
+
+  private async load(): Promise<FeatureExtractionPipeline | null> {
+    if (this.extractor) return this.extractor;
+    if (this.loading) return this.loading;
+    if (Date.now() < this.retryAt) return null;
+    this.loading = this.attemptLoad().finally(() => {
+      this.loading = null;
+    });
+    return this.loading;
+  }
+
+  private async attemptLoad(): Promise<FeatureExtractionPipeline | null> {
+    // Disable browser-specific features
+    env.allowLocalModels = true;
+    env.allowRemoteModels = !this.offline;
+    env.localModelPath = this.modelDir;
+    env.cacheDir = this.modelDir;
+
+    let timer: NodeJS.Timeout | undefined;
+    try {
+      const files = verifyModelFiles(this.modelDir, this.model);
+      if (this.offline && !files.ok) {
+        throw new Error(`model files unusable (${describeModelFileProblems(files)}) — run moltmind --download-model`);
+      }
+      if (files.corrupt.length > 0) {
+        // Online: drop the bad copies so they are fetched again
+        for (const file of files.corrupt) rmSync(join(files.path, file), { force: true });
+      }
+
+      const loadPromise = pipeline("feature-extraction", this.model, { progress_callback: logDownloadProgress });
+      // A load that outlives the timeout is still picked up when it finishes
+      loadPromise.then((extractor) => { this.extractor ??= extractor; }, () => {});
+
+      const timeoutPromise = new Promise<never>((_, reject) => {
+        timer = setTimeout(() => reject(new Error("Model loading timed out")), LOAD_TIMEOUT_MS);
+      });
+
+      this.extractor = await Promise.race([loadPromise, timeoutPromise]);
+      this.failedAttempts = 0;
+      this.lastError = null;
+      return this.extractor;
+    } catch (err) {
+      this.failedAttempts++;
+      this.lastError = err instanceof Error ? err.message : String(err);
+      const delay = modelRetryDelay(this.failedAttempts);
+      this.retryAt = Date.now() + delay;
+      console.error(`MoltMind: embedding model failed to load — falling back to FTS5-only search, retrying in ${Math.round(delay / 1000)}s. Error: ${this.lastError}`);
+      return null;
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+}
+
+/**
+ * Fetch a transformers model into dir (default ~/.moltmind/models) and record
+ * checksums of its files, so a later --model-dir=dir run works offline.
+ */
+export async function downloadModel(model: string = DEFAULT_MODEL, dir: string = MODEL_DIR): Promise<ModelFileReport> {
   env.allowLocalModels = true;
   env.allowRemoteModels = true;
+  env.localModelPath = dir;
+  env.cacheDir = dir;
 
-  try {
-    const loadPromise = pipeline("feature-extraction", MODEL_NAME, {
-      progress_callback: (progress: { status: string; file?: string; progress?: number }) => {
-        if (progress.status === "download" && progress.file && progress.progress !== undefined) {
-          console.error(`MoltMind: downloading ${progress.file} ${Math.round(progress.progress)}%`);
-        }
-      },
-    });
+  const extractor = await pipeline("feature-extraction", model, { progress_callback: logDownloadProgress });
+  await extractor.dispose();
 
-    const timeoutPromise = new Promise<never>((_, reject) => {
-      setTimeout(() => reject(new Error("Model loading timed out")), LOAD_TIMEOUT_MS);
-    });
+  const files = verifyModelFiles(dir, model);
+  if (!files.ok) throw new Error(`download incomplete (${describeModelFileProblems(files)})`);
+  writeModelManifest(dir, model);
+  return verifyModelFiles(dir, model);
+}
 
-    extractor = await Promise.race([loadPromise, timeoutPromise]) as FeatureExtractionPipeline;
-    return extractor;
-  } catch (err) {
-    modelFailed = true;
-    const msg = err instanceof Error ? err.message : String(err);
-    console.error(`MoltMind: embedding model failed to load — falling back to FTS5-only search. Error: ${msg}`);
-    return null;
+/**
+ * Any server speaking the OpenAI embeddings API (OpenAI, Ollama, LM Studio,
+ * llama.cpp). Failures are per call, so a server that comes back is used again.
+ */
+export class HttpEmbeddingProvider implements EmbeddingProvider {
+  readonly id: string;
+  readonly dimensions: number;
+  private url: string;
+  private model: string;
+  private apiKey: string | null;
+  private ready = false;
+
+  constructor(options: { url: string; model: string; api_key?: string | null; dimensions?: number }) {
+    this.url = options.url.replace(/\/+$/, "");
+    this.model = options.model;
+    this.apiKey = options.api_key ?? null;
+    this.id = `openai:${options.model}`;
+    this.dimensions = options.dimensions ?? KNOWN_DIMENSIONS[options.model] ?? 384;
+  }
+
+  async embed(text: string): Promise<Float32Array | null> {
+    return (await this.embedBatch([text]))[0];
+  }
+
+  async embedBatch(texts: string[]): Promise<Array<Float32Array | null>> {
+    const controller = new AbortController();
+    const timeout = setTimeout(() => controller.abort(), HTTP_TIMEOUT_MS);
+    try {
+      const res = await fetch(`${this.url}/embeddings`, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          ...(this.apiKey ? { Authorization: `Bearer ${this.apiKey}` } : {}),
+        },
+        body: JSON.stringify({ model: this.model, input: texts.length === 1 ? texts[0] : texts }),
+        signal: controller.signal,
+      });
+      if (!res.ok) throw new Error(`HTTP ${res.status}`);
+      const body = await res.json() as { data?: Array<{ embedding?: number[]; index?: number }> };
+      if (!Array.isArray(body.data) || body.data.length !== texts.length) {
+        throw new Error(`expected ${texts.length} embeddings in data`);
+      }
+      // Servers may answer out of order; index says which input each belongs to
+      const vectors: Array<Float32Array | null> = texts.map(() => null);
+      body.data.forEach((item, i) => {
+        if (!Array.isArray(item.embedding)) throw new Error(`response has no data[${i}].embedding`);
+        vectors[item.index ?? i] = Float32Array.from(item.embedding);
+      });
+      this.ready = true;
+      return vectors;
+    } catch (err) {
+      this.ready = false;
+      console.error(`MoltMind: embedding request to ${this.url} failed — ${err instanceof Error ? err.message : String(err)}`);
+      return texts.map(() => null);
+    } finally {
+      clearTimeout(timeout);
+    }
+  }
+
+  isReady(): boolean {
+    return this.ready;
+  }
+}
+
+/**
+ * Deterministic bag-of-words feature hashing. No model, no network: texts
+ * sharing words get similar vectors, which is enough for tests and offline demos.
+ */
+export class HashEmbeddingProvider implements EmbeddingProvider {
+  readonly id: string;
+  readonly dimensions: number;
+
+  constructor(dimensions: number = 384) {
+    this.dimensions = dimensions;
+    this.id = `hash:${dimensions}`;
+  }
+
+  async embed(text: string): Promise<Float32Array | null> {
+    const vector = new Float32Array(this.dimensions);
+    for (const token of text.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? []) {
+      // FNV-1a; the top bit picks the sign so collisions tend to cancel out
+      let hash = 0x811c9dc5;
+      for (let i = 0; i < token.length; i++) {
+        hash = Math.imul(hash ^ token.charCodeAt(i), 0x01000193) >>> 0;
+      }
+      vector[hash % this.dimensions] += hash & 0x80000000 ? -1 : 1;
+    }
+    let norm = 0;
+    for (const x of vector) norm += x * x;
+    if (norm > 0) {
+      const scale = 1 / Math.sqrt(norm);
+      for (let i = 0; i < vector.length; i++) vector[i] *= scale;
+    }
+    return vector;
+  }
+
+  isReady(): boolean {
+    return true;
+  }
+}
+
+export function createEmbeddingProvider(config: EmbeddingConfig = getEmbeddingConfig()): EmbeddingProvider {
+  const dimensions = config.dimensions ?? undefined;
+  switch (config.provider) {
+    case "hash":
+      return new HashEmbeddingProvider(dimensions);
+    case "openai":
+      if (!config.model) throw new Error("--embedding-model is required with --embedding-provider=openai");
+      return new HttpEmbeddingProvider({
+        url: config.url ?? "https://api.openai.com/v1",
+        model: config.model,
+        api_key: config.api_key,
+        dimensions,
+      });
+    default:
+      return new TransformersProvider(config.model ?? DEFAULT_MODEL, dimensions, config.model_dir);
   }
 }
 
+let provider: EmbeddingProvider | null = null;
+
+export function getEmbeddingProvider(): EmbeddingProvider {
+  if (!provider) {
+    try {
+      provider = createEmbeddingProvider();
+    } catch (err) {
+      console.error(`MoltMind: ${err instanceof Error ? err.message : String(err)} — using ${DEFAULT_MODEL}`);
+      provider = new TransformersProvider();
+    }
+  }
+  return provider;
+}
+
+export function setEmbeddingProvider(next: EmbeddingProvider): void {
+  provider = next;
+}
+
 export async function embed(text: string): Promise<Float32Array | null> {
-  const model = await loadModel();
-  if (!model) return null;
+  const active = getEmbeddingProvider();
+  const vector = await active.embed(text);
+  if (vector && vector.length !== active.dimensions) {
+    // Storing it would poison every index built for the declared size
+    console.error(`MoltMind: ${active.id} returned ${vector.length} dimensions, expected ${active.dimensions} — set --embedding-dimensions`);
+    return null;
+  }
+  return vector;
+}
 
-  const output = await model(text, { pooling: "mean", normalize: true });
-  return output.data as Float32Array;
+/**
+ * Embed many texts with as few model calls as possible, batchSize texts per
+ * call. Entries are null where embedding failed, exactly as embed() would be.
+ */
+export async function embedBatch(texts: string[], batchSize: number = 32): Promise<Array<Float32Array | null>> {
+  const active = getEmbeddingProvider();
+  const vectors: Array<Float32Array | null> = [];
+  for (let i = 0; i < texts.length; i += batchSize) {
+    const group = texts.slice(i, i + batchSize);
+    const batch = active.embedBatch
+      ? await active.embedBatch(group)
+      : await Promise.all(group.map((text) => active.embed(text)));
+    for (const vector of batch) {
+      if (vector && vector.length !== active.dimensions) {
+        console.error(`MoltMind: ${active.id} returned ${vector.length} dimensions, expected ${active.dimensions} — set --embedding-dimensions`);
+        vectors.push(null);
+      } else {
+        vectors.push(vector);
+      }
+    }
+  }
+  return vectors;
 }
 
 export function cosineSimilarity(a: Float32Array, b: Float32Array): number {
@@ -91,16 +403,36 @@ export function bufferToEmbedding(buffer: Buffer): Float32Array {
   return new Float32Array(arrayBuffer);
 }
 
+/** Id of the active provider and model, as stored in memories.embedding_model. */
+export function getModelName(): string {
+  return getEmbeddingProvider().id;
+}
+
+/** Ids written before providers existed were bare transformers model names. */
+export function normalizeModelId(id: string): string {
+  return id.includes(":") ? id : `transformers:${id}`;
+}
+
+export function getEmbeddingDimensions(): number {
+  return getEmbeddingProvider().dimensions;
+}
+
 export function isModelReady(): boolean {
-  return extractor !== null;
+  return getEmbeddingProvider().isReady();
 }
 
 // Exported for testing — allows resetting internal state
 export function _resetForTesting(): void {
-  extractor = null;
-  modelFailed = false;
+  provider = null;
 }
 
+/** Swap in a provider whose model never loads, keeping the configured id and size. */
 export function _setModelFailed(): void {
-  modelFailed = true;
+  const configured = getEmbeddingProvider();
+  provider = {
+    id: configured.id,
+    dimensions: configured.dimensions,
+    embed: async () => null,
+    isReady: () => false,
+  };
 }
@@ -0,0 +1,51 @@
+import type { Handoff, HandoffState } from "./types.js";
+
+export const HANDOFF_STATES: HandoffState[] = ["open", "in_progress", "done", "abandoned"];
+
+/** States that still need someone to pick the work up or finish it */
+export const OUTSTANDING_HANDOFF_STATES: HandoffState[] = ["open", "in_progress"];
+
+export interface HandoffProgress {
+  stop_conditions_met: number;
+  stop_conditions_total: number;
+  unknowns_resolved: number;
+  unknowns_total: number;
+  /** e.g. "2/3 stop conditions met, 1/2 unknowns resolved" */
+  summary: string;
+}
+
+export function getHandoffProgress(handoff: Handoff): HandoffProgress {
+  const met = handoff.met_stop_conditions.length;
+  const total = handoff.stop_conditions.length;
+  const resolved = handoff.resolved_unknowns.length;
+  const unknowns = handoff.known_unknowns.length;
+  const parts: string[] = [];
+  if (total > 0) parts.push(`${met}/${total} stop conditions met`);
+  if (unknowns > 0) parts.push(`${resolved}/${unknowns} unknowns resolved`);
+  return {
+    stop_conditions_met: met,
+    stop_conditions_total: total,
+    unknowns_resolved: resolved,
+    unknowns_total: unknowns,
+    summary: parts.length > 0 ? parts.join(", ") : "no stop conditions",
+  };
+}
+
+/**
+ * Apply checks and unchecks to a sorted set of item indexes. Returns the first
+ * out-of-range index instead when one is given.
+ */
+export function applyCheckoff(
+  current: number[],
+  itemCount: number,
+  check: number[] = [],
+  uncheck: number[] = []
+): number[] | { invalid: number } {
+  const invalid = [...check, ...uncheck].find((i) => !Number.isInteger(i) || i < 0 || i >= itemCount);
+  if (invalid !== undefined) return { invalid };
+
+  const checked = new Set(current);
+  for (const i of check) checked.add(i);
+  for (const i of uncheck) checked.delete(i);
+  return [...checked].sort((a, b) => a - b);
+}
@@ -0,0 +1,120 @@
+import { getMemoryRaw, getMemoryVersions } from "./db.js";
+import type { MemoryType } from "./types.js";
+
+// Above this many LCS cells a changed block is shown as a wholesale replacement
+const MAX_DIFF_CELLS = 4_000_000;
+
+export interface RevisionChanges {
+  type?: { from: MemoryType; to: MemoryType };
+  title?: { from: string; to: string };
+  tags?: { added: string[]; removed: string[] };
+  metadata?: { from: Record<string, unknown>; to: Record<string, unknown> };
+  /** Line diff of content: "- " removed, "+ " added, "  " unchanged between changes */
+  content?: string[];
+}
+
+export interface Revision {
+  version: number;
+  current: boolean;
+  type: MemoryType;
+  title: string;
+  tags: string[];
+  /** When this revision was written */
+  created_at: string;
+  /** What changed from the previous revision; absent on the first */
+  changes?: RevisionChanges;
+}
+
+/**
+ * Line diff of the block that differs between before and after, via longest
+ * common subsequence once the shared prefix and suffix are trimmed.
+ */
+export function diffLines(before: string, after: string): string[] {
+  const a = before.split("\n");
+  const b = after.split("\n");
+  let start = 0;
+  while (start < a.length && start < b.length && a[start] === b[start]) start++;
+  let endA = a.length;
+  let endB = b.length;
+  while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) {
+    endA--;
+    endB--;
+  }
+  const oldLines = a.slice(start, endA);
+  const newLines = b.slice(start, endB);
+  if (oldLines.length * newLines.length > MAX_DIFF_CELLS) {
+    return [...oldLines.map((l) => `- ${l}`), ...newLines.map((l) => `+ ${l}`)];
+  }
+
+  // lengths[i][j]: LCS length of oldLines[i..] and newLines[j..]
+  const width = newLines.length + 1;
+  const lengths = new Uint32Array((oldLines.length + 1) * width);
+  for (let i = oldLines.length - 1; i >= 0; i--) {
+    for (let j = newLines.length - 1; j >= 0; j--) {
+      lengths[i * width + j] = oldLines[i] === newLines[j]
+        ? lengths[(i + 1) * width + j + 1] + 1
+        : Math.max(lengths[(i + 1) * width + j], lengths[i * width + j + 1]);
+    }
+  }
+
+  const out: string[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < oldLines.length || j < newLines.length) {
+    if (i < oldLines.length && j < newLines.length && oldLines[i] === newLines[j]) {
+      out.push(`  ${oldLines[i++]}`);
+      j++;
+    } else if (j >= newLines.length || (i < oldLines.length && lengths[(i + 1) * width + j] >= lengths[i * width + j + 1])) {
+      out.push(`- ${oldLines[i++]}`);
+    } else {
+      out.push(`+ ${newLines[j++]}`);
+    }
+  }
+  return out;
+}
+
+interface Snapshot {
+  type: MemoryType;
+  title: string;
+  content: string;
+  tags: string[];
+  metadata: Record<string, unknown>;
+}
+
+function compare(before: Snapshot, after: Snapshot): RevisionChanges {
+  const changes: RevisionChanges = {};
+  if (before.type !== after.type) changes.type = { from: before.type, to: after.type };
+  if (before.title !== after.title) changes.title = { from: before.title, to: after.title };
+  const added = after.tags.filter((t) => !before.tags.includes(t));
+  const removed = before.tags.filter((t) => !after.tags.includes(t));
+  if (added.length > 0 || removed.length > 0) changes.tags = { added, removed };
+  if (JSON.stringify(before.metadata) !== JSON.stringify(after.metadata)) {
+    changes.metadata = { from: before.metadata, to: after.metadata };
+  }
+  if (before.content !== after.content) changes.content = diffLines(before.content, after.content);
+  return changes;
+}
+
+/** Every revision of a memory, newest first, each with its changes from the one before. */
+export function getMemoryHistory(memoryId: string): Revision[] | null {
+  const memory = getMemoryRaw(memoryId);
+  if (!memory) return null;
+
+  const snapshots = [
+    ...getMemoryVersions(memoryId).map((v) => ({ ...v, current: false })),
+    { ...memory, version: 0, current: true },
+  ];
+  const revisions = snapshots.map((snapshot, index): Revision => {
+    const revision: Revision = {
+      version: snapshot.current ? index + 1 : snapshot.version,
+      current: snapshot.current,
+      type: snapshot.type,
+      title: snapshot.title,
+      tags: snapshot.tags,
+      created_at: snapshot.current ? memory.updated_at : snapshot.created_at,
+    };
+    if (index > 0) revision.changes = compare(snapshots[index - 1], snapshot);
+    return revision;
+  });
+  return revisions.reverse();
+}
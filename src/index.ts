@@ -2,25 +2,48 @@
 
 import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js";
+import { SubscribeRequestSchema, UnsubscribeRequestSchema } from "@modelcontextprotocol/sdk/types.js";
 import { z } from "zod";
-import { closeDb, getSession, getSessionDiagnostics, updateSession, listSessions, getLatestHandoff, releaseAllClaims, logSessionEvent } from "./db.js";
+import { closeDb, getDb, getSession, getSessionDiagnostics, updateSession, listSessions, getLatestHandoff, releaseAllClaims, logSessionEvent } from "./db.js";
 import { withDiagnostics } from "./diagnostics.js";
 import { initMetrics, recordToolCall, pauseCurrentSession, getCurrentSessionId, heartbeat } from "./metrics.js";
-import { isMoltbookEnabled, getToolMode, getEnabledToolCount } from "./config.js";
+import { isMoltbookEnabled, getToolMode, getEnabledToolCount, isMirrorEnabled, getMirrorDirOption, getVectorStoreOption, getNotifyIntervalMs } from "./config.js";
+import { maybeRunDecay } from "./decay.js";
+import { maybeRunReembed } from "./reembed.js";
+import { maybeRunRetention } from "./retention.js";
+import {
+  RESOURCE_URIS, readEventsResource, readClaimsResource, readLatestHandoffResource,
+  subscribeResource, unsubscribeResource, pollResourceChanges,
+} from "./resources.js";
 import { handleMmStore } from "./tools/mm_store.js";
+import { handleMmStoreBatch } from "./tools/mm_store_batch.js";
+import { handleMmDedupe } from "./tools/mm_dedupe.js";
+import { handleMmPurge } from "./tools/mm_purge.js";
 import { handleMmRecall } from "./tools/mm_recall.js";
 import { handleMmRead } from "./tools/mm_read.js";
 import { handleMmUpdate } from "./tools/mm_update.js";
+import { handleMmHistory } from "./tools/mm_history.js";
+import { handleMmRevert } from "./tools/mm_revert.js";
+import { handleMmGraph } from "./tools/mm_graph.js";
 import { handleMmDelete } from "./tools/mm_delete.js";
 import { handleMmStatus } from "./tools/mm_status.js";
 import { handleMmInit } from "./tools/mm_init.js";
 import { handleMmHandoffCreate } from "./tools/mm_handoff_create.js";
 import { handleMmHandoffLoad } from "./tools/mm_handoff_load.js";
+import { handleMmHandoffList } from "./tools/mm_handoff_list.js";
+import { handleMmHandoffGet } from "./tools/mm_handoff_get.js";
+import { handleMmHandoffUpdate } from "./tools/mm_handoff_update.js";
 import { handleMmFeedback } from "./tools/mm_feedback.js";
 import { handleMmMetrics } from "./tools/mm_metrics.js";
 import { handleMmSessionSave } from "./tools/mm_session_save.js";
 import { handleMmSessionResume } from "./tools/mm_session_resume.js";
 import { handleMmSessionHistory } from "./tools/mm_session_history.js";
+import { handleMmClaim } from "./tools/mm_claim.js";
+import { handleMmRelease } from "./tools/mm_release.js";
+import { handleMmClaims } from "./tools/mm_claims.js";
+import { handleMmExport } from "./tools/mm_export.js";
+import { handleMmImport } from "./tools/mm_import.js";
+import { handleMmReindex } from "./tools/mm_reindex.js";
 
 const moltbookInstructions = isMoltbookEnabled()
   ? " Moltbook social tools (mb_*) are enabled for posting, commenting, and following on moltbook.com."
@@ -37,10 +60,16 @@ type ToolSummary = { event_type: string; summary: string; resource_id?: string }
 
 const TOOL_SUMMARIZERS: Record<string, (args: Record<string, unknown>, result: Record<string, unknown>) => ToolSummary> = {
   mm_store: (args, result) => ({
-    event_type: "memory_stored",
-    summary: `Stored ${(args.type as string) ?? "raw"} memory: ${String(args.title ?? "").slice(0, 80)}`,
+    event_type: result.merged ? "memory_updated" : "memory_stored",
+    summary: result.duplicate_of
+      ? `${result.merged ? "Merged" : result.success ? "Skipped" : "Rejected"} near-duplicate memory: ${String(args.title ?? "").slice(0, 80)}`
+      : `Stored ${(args.type as string) ?? "raw"} memory: ${String(args.title ?? "").slice(0, 80)}`,
     resource_id: result.id as string | undefined,
   }),
+  mm_store_batch: (args, result) => ({
+    event_type: "memory_stored",
+    summary: `Stored ${result.stored ?? 0} of ${Array.isArray(args.memories) ? args.memories.length : 0} memories in a batch`,
+  }),
   mm_recall: (args) => ({
     event_type: "tool_call",
     summary: `Searched memories: "${String(args.query ?? "").slice(0, 80)}"`,
@@ -55,6 +84,21 @@ const TOOL_SUMMARIZERS: Record<string, (args: Record<string, unknown>, result: R
     summary: `Updated memory ${String(args.id ?? "").slice(0, 8)}${args.title ? `: ${String(args.title).slice(0, 60)}` : ""}`,
     resource_id: args.id as string | undefined,
   }),
+  mm_history: (args) => ({
+    event_type: "tool_call",
+    summary: `Viewed history of memory ${String(args.id ?? "").slice(0, 8)}`,
+    resource_id: args.id as string | undefined,
+  }),
+  mm_revert: (args) => ({
+    event_type: "memory_updated",
+    summary: `Reverted memory ${String(args.id ?? "").slice(0, 8)} to version ${args.version}`,
+    resource_id: args.id as string | undefined,
+  }),
+  mm_graph: (args) => ({
+    event_type: "tool_call",
+    summary: `Viewed links of memory ${String(args.id ?? "").slice(0, 8)}`,
+    resource_id: args.id as string | undefined,
+  }),
   mm_delete: (args) => ({
     event_type: "memory_archived",
     summary: `Archived memory ${String(args.id ?? "").slice(0, 8)}`,
@@ -72,9 +116,26 @@ const TOOL_SUMMARIZERS: Record<string, (args: Record<string, unknown>, result: R
     event_type: "handoff_created",
     summary: `Created handoff: ${String(args.goal ?? "").slice(0, 80)}`,
   }),
-  mm_handoff_load: () => ({
+  mm_handoff_list: (args) => ({
     event_type: "tool_call",
-    summary: "Loaded latest handoff",
+    summary: `Listed handoffs${args.goal ? ` matching "${String(args.goal).slice(0, 60)}"` : ""}`,
+  }),
+  mm_handoff_get: (args) => ({
+    event_type: "tool_call",
+    summary: `Loaded handoff ${String(args.id ?? "").slice(0, 8)}`,
+    resource_id: args.id as string | undefined,
+  }),
+  mm_handoff_load: (args, result) => ({
+    event_type: result.accepted ? "handoff_accepted" : "tool_call",
+    summary: result.accepted
+      ? `Accepted handoff: ${String((result.handoff as { goal?: string } | undefined)?.goal ?? "").slice(0, 80)}`
+      : `Loaded handoff${args.target ? ` for ${String(args.target).slice(0, 40)}` : ""}`,
+    resource_id: (result.handoff as { id?: string } | undefined)?.id,
+  }),
+  mm_handoff_update: (args, result) => ({
+    event_type: "handoff_updated",
+    summary: `Updated handoff ${String(args.id ?? "").slice(0, 8)}${args.state ? ` to ${args.state}` : ""}${result.progress ? `: ${(result.progress as { summary: string }).summary}` : ""}`,
+    resource_id: args.id as string | undefined,
   }),
   mm_feedback: (args) => ({
     event_type: "tool_call",
@@ -96,6 +157,39 @@ const TOOL_SUMMARIZERS: Record<string, (args: Record<string, unknown>, result: R
     event_type: "tool_call",
     summary: "Viewed session history",
   }),
+  mm_claim: (args, result) => ({
+    event_type: "claim",
+    summary: `Claimed ${((result.claimed as string[] | undefined) ?? []).join(", ").slice(0, 80) || "nothing"}${(result.conflicts as unknown[] | undefined)?.length ? " (conflicts)" : ""}`,
+    resource_id: (args.resources as string[] | undefined)?.[0],
+  }),
+  mm_release: (args) => ({
+    event_type: "release",
+    summary: args.all ? "Released all claims" : `Released ${((args.resources as string[] | undefined) ?? []).join(", ").slice(0, 80)}`,
+  }),
+  mm_claims: () => ({
+    event_type: "tool_call",
+    summary: "Listed claims",
+  }),
+  mm_export: (args) => ({
+    event_type: "tool_call",
+    summary: `Exported vault${args.path ? ` to ${String(args.path).slice(0, 80)}` : ""}`,
+  }),
+  mm_import: (args) => ({
+    event_type: "vault_imported",
+    summary: `Imported vault from ${String(args.path ?? "").slice(0, 80)}`,
+  }),
+  mm_reindex: (args) => ({
+    event_type: "tool_call",
+    summary: args.dry_run ? "Checked vector index drift" : `Reindexed vectors${args.full ? " (full)" : ""}`,
+  }),
+  mm_purge: (args, result) => ({
+    event_type: "tool_call",
+    summary: args.dry_run ? "Previewed retention purge" : String(result.message ?? "Purged expired rows").slice(0, 120),
+  }),
+  mm_dedupe: (args, result) => ({
+    event_type: args.apply ? "memory_updated" : "tool_call",
+    summary: args.apply ? `Merged ${result.merged ?? 0} near-duplicate memories` : `Found ${result.duplicates ?? 0} near-duplicate memories`,
+  }),
   mb_auth: (args) => ({
     event_type: "tool_call",
     summary: `Moltbook auth: ${args.action ?? "unknown"}`,
@@ -170,10 +264,31 @@ server.tool(
     type: z.enum(["learning", "error", "decision", "plan", "raw"]).optional().describe("Memory type classification"),
     tags: z.array(z.string().max(100)).max(20).optional().describe("Tags for categorization"),
     metadata: z.record(z.string(), z.unknown()).optional().describe("Additional metadata"),
+    on_duplicate: z.enum(["allow", "reject", "return", "merge"]).optional().describe("When a near-duplicate exists: store anyway (default), refuse, return its id without storing, or merge into it"),
+    links: z.array(z.object({
+      target_id: z.string().describe("ID of the linked memory"),
+      type: z.enum(["supersedes", "relates_to", "caused_by", "fixes", "derived_from"]).describe("How this memory relates to the target"),
+    })).max(20).optional().describe("Links from this memory to existing ones, e.g. a decision that supersedes an older one"),
   },
   wrapTool("mm_store", (args) => handleMmStore(args as Parameters<typeof handleMmStore>[0]))
 );
 
+server.tool(
+  "mm_store_batch",
+  "Store many memories in one call. Prefer this over repeated mm_store when saving several learnings at once. Each item reports its own success, and near-duplicates are handled per item as in mm_store.",
+  {
+    memories: z.array(z.object({
+      title: z.string().max(500).describe("Short title for the memory"),
+      content: z.string().max(51200).describe("Full content of the memory"),
+      type: z.enum(["learning", "error", "decision", "plan", "raw"]).optional().describe("Memory type classification"),
+      tags: z.array(z.string().max(100)).max(20).optional().describe("Tags for categorization"),
+      metadata: z.record(z.string(), z.unknown()).optional().describe("Additional metadata"),
+    })).min(1).max(200).describe("Memories to store (up to 200)"),
+    on_duplicate: z.enum(["allow", "reject", "return", "merge"]).optional().describe("When an item has a near-duplicate: store anyway (default), refuse it, return the existing id without storing, or merge into it"),
+  },
+  wrapTool("mm_store_batch", (args) => handleMmStoreBatch(args as Parameters<typeof handleMmStoreBatch>[0]))
+);
+
 server.tool(
   "mm_recall",
   "Search your memory using natural language. Finds semantically similar memories even if exact words don't match.",
@@ -182,6 +297,32 @@ server.tool(
     limit: z.number().int().min(1).max(500).optional().describe("Max results to return (default 10)"),
     tier: z.enum(["hot", "warm", "cold"]).optional().describe("Filter by memory tier"),
     type: z.enum(["learning", "error", "decision", "plan", "raw"]).optional().describe("Filter by memory type"),
+    advanced: z.boolean().optional().describe("Enable query syntax: \"exact phrase\", tag:x, type:x, tier:x, before:YYYY-MM-DD, after:YYYY-MM-DD, -word to exclude"),
+    tags: z.array(z.string().max(100)).max(20).optional().describe("Only memories with these tags"),
+    tags_mode: z.enum(["any", "all"]).optional().describe("Match any of the tags (default) or all of them"),
+    after: z.string().optional().describe("Only memories created at or after this date (ISO 8601)"),
+    before: z.string().optional().describe("Only memories created before this date (ISO 8601)"),
+    updated_after: z.string().optional().describe("Only memories updated at or after this date (ISO 8601)"),
+    updated_before: z.string().optional().describe("Only memories updated before this date (ISO 8601)"),
+    metadata: z.array(z.object({
+      path: z.string().max(200).describe("Dotted metadata path, e.g. \"source.repo\""),
+      op: z.enum(["eq", "ne", "gt", "gte", "lt", "lte", "in", "contains", "exists"]).optional().describe("Comparison (default eq); contains tests membership in an array field"),
+      value: z.union([
+        z.string(), z.number(), z.boolean(), z.null(),
+        z.array(z.union([z.string(), z.number(), z.boolean(), z.null()])),
+      ]).optional().describe("Value to compare against; a list for in/contains"),
+    })).max(10).optional().describe("Metadata predicates, all of which must match"),
+    ranking: z.enum(["linear", "rrf", "decay"]).optional().describe("Scoring strategy: linear blend (default), reciprocal rank fusion, or linear with a recency/usage/tier boost"),
+    weights: z.object({
+      semantic: z.number().min(0).optional(),
+      keyword: z.number().min(0).optional(),
+      recency: z.number().min(0).optional(),
+      tier: z.number().min(0).optional(),
+      rrf_k: z.number().min(0).optional(),
+    }).optional().describe("Override ranking weights for this call"),
+    explain: z.boolean().optional().describe("Include a per-result score breakdown"),
+    expand_links: z.boolean().optional().describe("Also return memories linked to the results, one hop away"),
+    include_superseded: z.boolean().optional().describe("Include memories that a newer memory supersedes (hidden by default)"),
   },
   wrapTool("mm_recall", (args) => handleMmRecall(args as Parameters<typeof handleMmRecall>[0]))
 );
@@ -206,13 +347,53 @@ server.tool(
     tags: z.array(z.string().max(100)).max(20).optional().describe("New tags"),
     metadata: z.record(z.string(), z.unknown()).optional().describe("New metadata"),
     tier: z.enum(["hot", "warm", "cold", "archived"]).optional().describe("New tier"),
+    links: z.array(z.object({
+      target_id: z.string().describe("ID of the linked memory"),
+      type: z.enum(["supersedes", "relates_to", "caused_by", "fixes", "derived_from"]).describe("How this memory relates to the target"),
+    })).max(20).optional().describe("Links to add from this memory"),
+    remove_links: z.array(z.object({
+      target_id: z.string().describe("ID of the linked memory"),
+      type: z.enum(["supersedes", "relates_to", "caused_by", "fixes", "derived_from"]).describe("How this memory relates to the target"),
+    })).max(20).optional().describe("Links to remove from this memory"),
   },
   wrapTool("mm_update", (args) => handleMmUpdate(args as Parameters<typeof handleMmUpdate>[0]))
 );
 
+server.tool(
+  "mm_graph",
+  "Show the neighborhood of a memory in the link graph: memories it supersedes, relates to, was caused by, fixes or derives from, and those linking to it.",
+  {
+    id: z.string().describe("The memory ID"),
+    depth: z.number().int().min(1).max(3).optional().describe("Hops to follow (default 1)"),
+    types: z.array(z.enum(["supersedes", "relates_to", "caused_by", "fixes", "derived_from"])).optional().describe("Only follow these link types"),
+    include_archived: z.boolean().optional().describe("Include archived memories"),
+  },
+  wrapTool("mm_graph", (args) => handleMmGraph(args as Parameters<typeof handleMmGraph>[0]))
+);
+
+server.tool(
+  "mm_history",
+  "List the revisions of a memory, newest first, with what changed in each edit (title, type, tags, metadata and a line diff of content).",
+  {
+    id: z.string().describe("The memory ID"),
+    limit: z.number().int().min(1).max(100).optional().describe("Max revisions to return (default 20)"),
+  },
+  wrapTool("mm_history", (args) => handleMmHistory(args as Parameters<typeof handleMmHistory>[0]))
+);
+
+server.tool(
+  "mm_revert",
+  "Restore a memory to a prior version from mm_history and re-embed it. The replaced state is kept as a new version.",
+  {
+    id: z.string().describe("The memory ID"),
+    version: z.number().int().min(1).describe("Version number to restore"),
+  },
+  wrapTool("mm_revert", (args) => handleMmRevert(args as Parameters<typeof handleMmRevert>[0]))
+);
+
 server.tool(
   "mm_delete",
-  "Archive a memory (soft delete). The memory is moved to archived tier and won't appear in recall results, but is not permanently removed.",
+  "Archive a memory (soft delete). The memory is moved to archived tier and won't appear in recall results. It is kept unless --retention-archived-days is set, after which mm_purge and the daily cleanup delete it for good.",
   {
     id: z.string().describe("The memory ID to archive"),
   },
@@ -245,15 +426,61 @@ server.tool(
     artifacts: z.array(z.string()).optional().describe("Files or resources involved"),
     stop_conditions: z.array(z.string()).optional().describe("When to consider the goal complete"),
     claims: z.array(z.string()).optional().describe("Resources this session is working on (advisory locks for conflict avoidance)"),
+    parent_handoff_id: z.string().optional().describe("Handoff this one continues (defaults to this session's previous handoff)"),
+    target: z.string().max(200).optional().describe("Agent name, role or channel this handoff is for (default: anyone)"),
   },
   wrapTool("mm_handoff_create", (args) => handleMmHandoffCreate(args as Parameters<typeof handleMmHandoffCreate>[0]))
 );
 
 server.tool(
   "mm_handoff_load",
-  "Load the most recent handoff to resume context from a previous session or agent.",
-  {},
-  wrapTool("mm_handoff_load", () => handleMmHandoffLoad())
+  "Load the newest handoff waiting for this agent (addressed to its --agent name or --agent-roles, or to anyone) and accept it, so no other agent picks it up. A handoff this agent accepted and hasn't finished is returned first (resumed: true); without --agent, so is one left unfinished by an ended session.",
+  {
+    target: z.string().max(200).optional().describe("Load handoffs addressed to this agent, role or channel instead of this agent's own identity"),
+    accept: z.boolean().optional().describe("Mark the handoff accepted by this agent (default true); false only peeks"),
+  },
+  wrapTool("mm_handoff_load", (args) => handleMmHandoffLoad(args as Parameters<typeof handleMmHandoffLoad>[0]))
+);
+
+server.tool(
+  "mm_handoff_list",
+  "List handoffs, newest first, optionally filtered by session, goal text or date. Use this to find handoffs older than the latest one.",
+  {
+    session_id: z.string().optional().describe("Only handoffs written by this session"),
+    goal: z.string().max(500).optional().describe("Only handoffs whose goal contains this text"),
+    after: z.string().optional().describe("Only handoffs created at or after this date (ISO 8601)"),
+    before: z.string().optional().describe("Only handoffs created before this date (ISO 8601)"),
+    target: z.string().max(200).optional().describe("Only handoffs addressed to this agent, role or channel"),
+    accepted: z.boolean().optional().describe("Only accepted (true) or still waiting (false) handoffs"),
+    state: z.array(z.enum(["open", "in_progress", "done", "abandoned"])).optional().describe("Only handoffs in these states"),
+    limit: z.number().int().min(1).max(100).optional().describe("Max handoffs to return (default 20)"),
+  },
+  wrapTool("mm_handoff_list", (args) => handleMmHandoffList(args as Parameters<typeof handleMmHandoffList>[0]))
+);
+
+server.tool(
+  "mm_handoff_get",
+  "Load a handoff by id, with the chain of handoffs it continues and any that continue it.",
+  {
+    id: z.string().describe("The handoff ID"),
+  },
+  wrapTool("mm_handoff_get", (args) => handleMmHandoffGet(args as Parameters<typeof handleMmHandoffGet>[0]))
+);
+
+server.tool(
+  "mm_handoff_update",
+  "Record progress on a handoff: move it through open, in_progress, done or abandoned, and check off stop conditions and known unknowns by their index.",
+  {
+    id: z.string().describe("The handoff ID"),
+    state: z.enum(["open", "in_progress", "done", "abandoned"]).optional().describe("New state"),
+    current_state: z.string().optional().describe("Updated description of where things stand"),
+    next_action: z.string().optional().describe("Updated next step"),
+    meet_stop_conditions: z.array(z.number().int().min(0)).optional().describe("Indexes (0-based) of stop conditions now met"),
+    unmeet_stop_conditions: z.array(z.number().int().min(0)).optional().describe("Indexes of stop conditions to uncheck"),
+    resolve_unknowns: z.array(z.number().int().min(0)).optional().describe("Indexes (0-based) of known unknowns now resolved"),
+    unresolve_unknowns: z.array(z.number().int().min(0)).optional().describe("Indexes of known unknowns to uncheck"),
+  },
+  wrapTool("mm_handoff_update", (args) => handleMmHandoffUpdate(args as Parameters<typeof handleMmHandoffUpdate>[0]))
 );
 
 server.tool(
@@ -293,7 +520,7 @@ server.tool(
 
 server.tool(
   "mm_session_resume",
-  "Load recent sessions + latest handoff, return formatted summary for agent to present.",
+  "Load recent sessions + latest handoff + outstanding handoffs with their progress, return formatted summary for agent to present.",
   {
     limit: z.number().int().min(1).max(50).optional().describe("Number of recent sessions to load (default 5)"),
   },
@@ -311,6 +538,95 @@ server.tool(
   wrapTool("mm_session_history", (args) => handleMmSessionHistory(args as Parameters<typeof handleMmSessionHistory>[0]))
 );
 
+// --- Claim Tools (advisory locks between parallel sessions) ---
+
+server.tool(
+  "mm_claim",
+  "Claim files or patterns (src/db.ts, src/db/**, src/db/) before editing them, so parallel sessions know to stay away. Reports resources another session already holds.",
+  {
+    resources: z.array(z.string().min(1).max(500)).min(1).max(50).describe("Paths, globs (** crosses directories) or prefixes ending in /"),
+    description: z.string().max(200).optional().describe("What you are doing with them"),
+    ttl_seconds: z.number().int().min(60).max(86400).optional().describe("Claim lifetime in seconds (default 300, or --claim-ttl)"),
+    renew: z.boolean().optional().describe("Keep extending the claim while this session is alive (default true); false lets it lapse after ttl_seconds"),
+  },
+  wrapTool("mm_claim", (args) => handleMmClaim(args as Parameters<typeof handleMmClaim>[0]))
+);
+
+server.tool(
+  "mm_release",
+  "Release claims held by this session.",
+  {
+    resources: z.array(z.string()).optional().describe("Claims to release, exactly as they were claimed"),
+    all: z.boolean().optional().describe("Release every claim this session holds"),
+  },
+  wrapTool("mm_release", (args) => handleMmRelease(args as Parameters<typeof handleMmRelease>[0]))
+);
+
+server.tool(
+  "mm_claims",
+  "List active claims across sessions, and conflicts where another session tried to claim something this session holds.",
+  {
+    resource: z.string().optional().describe("Only claims overlapping this path or pattern"),
+    mine: z.boolean().optional().describe("Only this session's claims"),
+  },
+  wrapTool("mm_claims", (args) => handleMmClaims(args as Parameters<typeof handleMmClaims>[0]))
+);
+
+// --- Vault Transfer Tools ---
+
+server.tool(
+  "mm_export",
+  "Export the whole vault (memories with their versions and links, handoffs, sessions, events, feedback) to a versioned JSONL file for backup or moving between machines.",
+  {
+    path: z.string().optional().describe("Output file, relative to exports/ beside memory.db (default: a timestamped file there). Paths outside the vault directory need --allow-any-transfer-path"),
+    include_embeddings: z.boolean().optional().describe("Include base64 embeddings (default true)"),
+    include_archived: z.boolean().optional().describe("Include archived memories (default true)"),
+  },
+  wrapTool("mm_export", (args) => handleMmExport(args as Parameters<typeof handleMmExport>[0]))
+);
+
+server.tool(
+  "mm_import",
+  "Import a JSONL vault export. Skips duplicates by id, remaps conflicting ids, and re-embeds when the embedding model differs.",
+  {
+    path: z.string().describe("A .jsonl file created by mm_export or --export, relative to exports/ beside memory.db. Paths outside the vault directory need --allow-any-transfer-path"),
+  },
+  wrapTool("mm_import", (args) => handleMmImport(args as Parameters<typeof handleMmImport>[0]))
+);
+
+server.tool(
+  "mm_reindex",
+  "Check the vector index against stored memories and repair drift: re-adds missing or changed embeddings and removes archived ones.",
+  {
+    full: z.boolean().optional().describe("Re-verify every vector instead of trusting recorded checksums"),
+    dry_run: z.boolean().optional().describe("Only report drift, don't repair"),
+  },
+  wrapTool("mm_reindex", (args) => handleMmReindex(args as Parameters<typeof handleMmReindex>[0]))
+);
+
+server.tool(
+  "mm_purge",
+  "Permanently delete what the retention policy has expired: archived memories (only when --retention-archived-days is set), old diagnostics, and events of completed sessions. Use dry_run to preview.",
+  {
+    dry_run: z.boolean().optional().describe("Only report what would be deleted"),
+    archived_days: z.number().min(0).optional().describe("Delete memories archived more than this many days ago (default from --retention-archived-days)"),
+    diagnostics_days: z.number().min(0).optional().describe("Delete diagnostics older than this many days"),
+    events_days: z.number().min(0).optional().describe("Delete events of sessions completed more than this many days ago"),
+    compact: z.boolean().optional().describe("Optimize the search index and VACUUM afterwards (default false; VACUUM blocks other processes sharing the vault)"),
+  },
+  wrapTool("mm_purge", (args) => handleMmPurge(args as Parameters<typeof handleMmPurge>[0]))
+);
+
+server.tool(
+  "mm_dedupe",
+  "Scan the vault for clusters of near-duplicate memories and propose merges. With apply, merges each cluster into its oldest memory and archives the rest. Compares every memory with the rest, so vaults over --dedupe-scan-limit (default 10000) are refused.",
+  {
+    threshold: z.number().min(0.5).max(1).optional().describe("Cosine similarity that counts as a duplicate (default 0.95)"),
+    apply: z.boolean().optional().describe("Merge the proposed clusters instead of only listing them"),
+  },
+  wrapTool("mm_dedupe", (args) => handleMmDedupe(args as Parameters<typeof handleMmDedupe>[0]))
+);
+
 // --- Moltbook Tool Registration (opt-in via --moltbook) ---
 
 async function registerMoltbookTools(): Promise<void> {
@@ -406,9 +722,47 @@ async function registerMoltbookTools(): Promise<void> {
   );
 }
 
+// --- Resources (live view of other sessions; subscribe for resources/updated) ---
+
+function jsonResource(uri: URL, data: Record<string, unknown>) {
+  return { contents: [{ uri: uri.href, mimeType: "application/json", text: JSON.stringify(data, null, 2) }] };
+}
+
+server.registerResource(
+  "events",
+  RESOURCE_URIS.events,
+  { description: "The 50 most recent session events across all sessions: stores, claims, handoffs", mimeType: "application/json" },
+  async (uri) => jsonResource(uri, readEventsResource())
+);
+
+server.registerResource(
+  "claims",
+  RESOURCE_URIS.claims,
+  { description: "Active resource claims of all sessions", mimeType: "application/json" },
+  async (uri) => jsonResource(uri, readClaimsResource())
+);
+
+server.registerResource(
+  "latest-handoff",
+  RESOURCE_URIS.latest_handoff,
+  { description: "The most recent handoff and its progress", mimeType: "application/json" },
+  async (uri) => jsonResource(uri, readLatestHandoffResource())
+);
+
+server.server.registerCapabilities({ resources: { subscribe: true } });
+server.server.setRequestHandler(SubscribeRequestSchema, async (request) => {
+  subscribeResource(request.params.uri);
+  return {};
+});
+server.server.setRequestHandler(UnsubscribeRequestSchema, async (request) => {
+  unsubscribeResource(request.params.uri);
+  return {};
+});
+
 // --- Server lifecycle ---
 
 let heartbeatInterval: ReturnType<typeof setInterval> | null = null;
+let notifyInterval: ReturnType<typeof setInterval> | null = null;
 
 function shutdown(): void {
   console.error("MoltMind shutting down");
@@ -418,6 +772,10 @@ function shutdown(): void {
     clearInterval(heartbeatInterval);
     heartbeatInterval = null;
   }
+  if (notifyInterval) {
+    clearInterval(notifyInterval);
+    notifyInterval = null;
+  }
 
   // Release all claims held by this session
   const sid = getCurrentSessionId();
@@ -454,6 +812,63 @@ function shutdown(): void {
   process.exit(0);
 }
 
+// Vector backend: --vector-store wins; Pro defaults to Zvec, falling back to the portable HNSW index.
+// Indexes kept outside memory.db are wrapped so drift can be detected and repaired.
+async function initVectorBackend(): Promise<void> {
+  try {
+    const { isProTier } = await import("./license.js");
+    const requested = getVectorStoreOption();
+    const backend = requested ?? (isProTier() ? "zvec" : "brute");
+    const { dirname, join } = await import("node:path");
+    const { initVectorStore } = await import("./vector_store.js");
+    const { TrackedVectorStore } = await import("./vector_integrity.js");
+    const { getEmbeddingDimensions } = await import("./embeddings.js");
+    const vaultDir = dirname(getDb().name);
+    const dimensions = getEmbeddingDimensions();
+
+    const useHnsw = async (): Promise<void> => {
+      const { HnswStore } = await import("./vector_store_hnsw.js");
+      const store = new HnswStore(join(vaultDir, "hnsw.idx"), dimensions);
+      initVectorStore(new TrackedVectorStore(store, "hnsw", dimensions));
+      console.error(`MoltMind: HNSW ANN index active (${store.stats().count} vectors)`);
+    };
+
+    if (backend === "zvec") {
+      try {
+        const { existsSync } = await import("node:fs");
+        const { ZvecStore, migrateExistingEmbeddings } = await import("./vector_store_zvec.js");
+        const zvecPath = join(vaultDir, "zvec.idx");
+
+        const isNew = !existsSync(zvecPath);
+        const store = new TrackedVectorStore(new ZvecStore(zvecPath, dimensions), "zvec", dimensions);
+        if (isNew) {
+          // Zvec can't list its ids, so a manifest left from a deleted index would hide the loss
+          store.reset();
+          migrateExistingEmbeddings(store);
+        }
+        initVectorStore(store);
+        console.error("MoltMind: Zvec ANN index active");
+      } catch (err) {
+        console.error(`MoltMind: Zvec unavailable (${err}), using HNSW`);
+        await useHnsw();
+      }
+    } else if (backend === "hnsw") {
+      await useHnsw();
+    } else if (backend === "sqlite-vec") {
+      try {
+        const { SqliteVecStore } = await import("./vector_store_sqlite_vec.js");
+        const store = new SqliteVecStore(dimensions);
+        initVectorStore(store);
+        console.error(`MoltMind: sqlite-vec index active (${store.synced.added} added, ${store.synced.removed} removed on sync)`);
+      } catch (err) {
+        console.error(`MoltMind: sqlite-vec unavailable (${err}), using brute-force`);
+      }
+    }
+  } catch (err) {
+    console.error(`MoltMind: ANN index unavailable (${err}), using brute-force`);
+  }
+}
+
 async function main(): Promise<void> {
   // Handle --upgrade flag — interactive checkout with polling
   if (process.argv.includes("--upgrade")) {
@@ -517,39 +932,122 @@ async function main(): Promise<void> {
     process.exit(1);
   }
 
+  // Handle --export [path] / --import <path> — one-shot vault transfer, then exit
+  const exportIdx = process.argv.indexOf("--export");
+  const importIdx = process.argv.indexOf("--import");
+  if (exportIdx !== -1 || importIdx !== -1) {
+    const { exportVault, importVault, defaultExportPath } = await import("./vault_transfer.js");
+    try {
+      if (exportIdx !== -1) {
+        const next = process.argv[exportIdx + 1];
+        const path = next && !next.startsWith("--") ? next : defaultExportPath();
+        const { counts } = exportVault({ path, include_embeddings: !process.argv.includes("--no-embeddings") });
+        console.error(`MoltMind: exported ${counts.memories} memories, ${counts.handoffs} handoffs, ${counts.sessions} sessions to ${path}`);
+      } else {
+        const path = process.argv[importIdx + 1];
+        if (!path || path.startsWith("--")) {
+          console.error("Usage: moltmind --import <path.jsonl>");
+          process.exit(1);
+        }
+        const report = await importVault(path);
+        console.error(`MoltMind: import complete ${JSON.stringify(report)}`);
+      }
+      closeDb();
+      process.exit(0);
+    } catch (err) {
+      console.error(`MoltMind: vault transfer failed — ${err instanceof Error ? err.message : String(err)}`);
+      closeDb();
+      process.exit(1);
+    }
+  }
+
+  // Handle --download-model [dir] — fetch the embedding model for offline use, then exit
+  const downloadIdx = process.argv.indexOf("--download-model");
+  if (downloadIdx !== -1) {
+    const { getEmbeddingConfig } = await import("./config.js");
+    const { downloadModel } = await import("./embeddings.js");
+    const config = getEmbeddingConfig();
+    if (config.provider !== "transformers") {
+      console.error(`MoltMind: --download-model only applies to local transformers models, not --embedding-provider=${config.provider}`);
+      process.exit(1);
+    }
+    const next = process.argv[downloadIdx + 1];
+    const dir = next && !next.startsWith("--") ? next : config.model_dir ?? undefined;
+    try {
+      const report = await downloadModel(config.model ?? undefined, dir);
+      console.error(`MoltMind: model files verified in ${report.path}`);
+      if (dir) console.error(`MoltMind: run with --model-dir=${dir} (or MOLTMIND_MODEL_DIR) to load it offline`);
+      process.exit(0);
+    } catch (err) {
+      console.error(`MoltMind: model download failed — ${err instanceof Error ? err.message : String(err)}`);
+      process.exit(1);
+    }
+  }
+
+  // Handle --reindex — full vector index check and repair, then exit
+  if (process.argv.includes("--reindex")) {
+    await initVectorBackend();
+    const { repairVectorIndex } = await import("./vector_integrity.js");
+    try {
+      const report = repairVectorIndex({ full: true });
+      console.error(report
+        ? `MoltMind: reindexed ${report.backend} (${report.upserted} upserted, ${report.deleted} removed, ${report.expected} live embeddings)`
+        : "MoltMind: vector search reads memory.db directly — nothing to reindex");
+      closeDb();
+      process.exit(0);
+    } catch (err) {
+      console.error(`MoltMind: reindex failed — ${err instanceof Error ? err.message : String(err)}`);
+      closeDb();
+      process.exit(1);
+    }
+  }
+
   initMetrics();
 
-  // Start session heartbeat (30s interval)
+  // Start session heartbeat (30s interval) — also drives the tier decay engine, re-embedding and retention
   heartbeatInterval = setInterval(() => {
     try { heartbeat(); } catch { /* non-critical */ }
+    try { maybeRunDecay(); } catch { /* non-critical */ }
+    try { maybeRunReembed(); } catch { /* non-critical */ }
+    try { maybeRunRetention(); } catch { /* non-critical */ }
   }, 30000);
 
-  // Auto-enable Zvec ANN for Pro users
-  try {
-    const { isProTier } = await import("./license.js");
-    if (isProTier()) {
+  // Notify subscribers when another process writes events, claims or handoffs
+  const notifyMs = getNotifyIntervalMs();
+  if (notifyMs > 0) {
+    notifyInterval = setInterval(() => {
       try {
-        const { existsSync } = await import("node:fs");
-        const { join } = await import("node:path");
-        const { homedir } = await import("node:os");
-        const { ZvecStore, migrateExistingEmbeddings } = await import("./vector_store_zvec.js");
-        const { initVectorStore } = await import("./vector_store.js");
-        const zvecPath = existsSync(".moltmind/memory.db")
-          ? ".moltmind/zvec.idx"
-          : join(homedir(), ".moltmind", "zvec.idx");
-
-        const store = new ZvecStore(zvecPath);
-        if (!existsSync(zvecPath)) {
-          migrateExistingEmbeddings(store);
+        for (const uri of pollResourceChanges()) {
+          server.server.sendResourceUpdated({ uri }).catch(() => { /* client gone */ });
         }
-        initVectorStore(store);
-        console.error("MoltMind: Zvec ANN index active");
-      } catch (err) {
-        console.error(`MoltMind: Zvec unavailable (${err}), using brute-force`);
-      }
+      } catch { /* non-critical */ }
+    }, notifyMs);
+  }
+
+  // Initial decay pass so tiers reflect time spent offline
+  try { maybeRunDecay(); } catch { /* non-critical */ }
+
+  // Incremental repair catches index writes lost to a crash
+  await initVectorBackend();
+  try {
+    const { repairVectorIndex } = await import("./vector_integrity.js");
+    const report = repairVectorIndex();
+    if (report && !report.in_sync) {
+      console.error(`MoltMind: repaired vector index drift (${report.upserted} upserted, ${report.deleted} removed)`);
+    }
+  } catch (err) {
+    console.error(`MoltMind: vector index check failed (${err})`);
+  }
+
+  // Markdown mirror (opt-in via --mirror) — reconcile human edits before serving
+  if (isMirrorEnabled()) {
+    try {
+      const { initMarkdownMirror, getMirrorDir } = await import("./markdown_mirror.js");
+      const result = await initMarkdownMirror(getMirrorDirOption());
+      console.error(`MoltMind: Markdown mirror at ${getMirrorDir()} (${result.updated} updated, ${result.created} created, ${result.archived} archived from files)`);
+    } catch (err) {
+      console.error(`MoltMind: Markdown mirror unavailable (${err})`);
     }
-  } catch {
-    // License check failed — continue with brute-force silently
   }
 
   // Heartbeat check — verify this machine is still the active Pro license holder
@@ -588,6 +1086,9 @@ async function main(): Promise<void> {
   const transport = new StdioServerTransport();
   await server.connect(transport);
 
+  // Embed memories stored while the model was unavailable, or under another model, in the background
+  try { maybeRunReembed(); } catch { /* non-critical */ }
+
   // Send a logging reminder when the client completes initialization
   server.server.oninitialized = () => {
     try {
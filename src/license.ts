@@ -187,35 +187,47 @@ export async function checkHeartbeat(): Promise<void> {
   }
 }
 
-export function checkStoreLimits(): { allowed: boolean; message: string } {
+/** How many more memories may be stored right now (Infinity on Pro). */
+export interface StoreQuota {
+  remaining: number;
+  message: string;
+  /** Reported for stores refused once remaining runs out */
+  limit_message: string;
+}
+
+export function getStoreQuota(): StoreQuota {
   if (isProTier()) {
-    return { allowed: true, message: "Pro: unlimited" };
+    return { remaining: Infinity, message: "Pro: unlimited", limit_message: "" };
   }
 
   const stats = getMemoryStats();
   // Exclude archived from total count
   const activeMemories = stats.total - (stats.by_tier["archived"] ?? 0);
+  const totalMessage = `Free tier limit: ${FREE_TOTAL_LIMIT} total memories reached. Upgrade to Pro for unlimited storage.`;
   if (activeMemories >= FREE_TOTAL_LIMIT) {
-    return {
-      allowed: false,
-      message: `Free tier limit: ${FREE_TOTAL_LIMIT} total memories reached. Upgrade to Pro for unlimited storage.`,
-    };
+    return { remaining: 0, message: totalMessage, limit_message: totalMessage };
   }
 
   const todayStores = getDailyStoreCount();
+  const dailyMessage = `Free tier limit: ${FREE_DAILY_LIMIT} stores per day reached. Resets tomorrow.`;
   if (todayStores >= FREE_DAILY_LIMIT) {
-    return {
-      allowed: false,
-      message: `Free tier limit: ${FREE_DAILY_LIMIT} stores per day reached. Resets tomorrow.`,
-    };
+    return { remaining: 0, message: dailyMessage, limit_message: dailyMessage };
   }
 
+  const dailyLeft = FREE_DAILY_LIMIT - todayStores;
+  const totalLeft = FREE_TOTAL_LIMIT - activeMemories;
   return {
-    allowed: true,
-    message: `Free: ${FREE_DAILY_LIMIT - todayStores}/day, ${FREE_TOTAL_LIMIT - activeMemories} total remaining`,
+    remaining: Math.min(dailyLeft, totalLeft),
+    message: `Free: ${dailyLeft}/day, ${totalLeft} total remaining`,
+    limit_message: dailyLeft <= totalLeft ? dailyMessage : totalMessage,
   };
 }
 
+export function checkStoreLimits(): { allowed: boolean; message: string } {
+  const quota = getStoreQuota();
+  return { allowed: quota.remaining > 0, message: quota.message };
+}
+
 // Exported for testing
 export const _constants = {
   FREE_DAILY_LIMIT,
@@ -0,0 +1,99 @@
+import { getMemoryLinks, getMemoriesByIds, getSupersededIds } from "./db.js";
+import type { LinkType, MemoryLink, MemoryTier, MemoryType } from "./types.js";
+
+export const LINK_TYPES: LinkType[] = ["supersedes", "relates_to", "caused_by", "fixes", "derived_from"];
+
+export type LinkInput = { target_id: string; type: LinkType };
+
+export interface GraphNode {
+  id: string;
+  title: string;
+  type: MemoryType;
+  tier: MemoryTier;
+  /** Hops from the memory the graph was built around */
+  depth: number;
+  superseded: boolean;
+}
+
+export interface LinkedMemory {
+  id: string;
+  title: string;
+  type: MemoryType;
+  tags: string[];
+  /** The recall hit this memory was reached from, and how */
+  via: { id: string; link: LinkType; direction: "outgoing" | "incoming" };
+}
+
+/** The ids in links that don't name an existing memory (archived ones count as existing). */
+export function findMissingLinkTargets(links: LinkInput[]): string[] {
+  const ids = [...new Set(links.map((l) => l.target_id))];
+  const found = new Set(getMemoriesByIds(ids, { tiers: ["hot", "warm", "cold", "archived"] }).map((m) => m.id));
+  return ids.filter((id) => !found.has(id));
+}
+
+/**
+ * Breadth-first walk over links in both directions, up to depth hops.
+ * Archived memories are left out unless includeArchived.
+ */
+export function getNeighborhood(
+  id: string,
+  options: { depth?: number; types?: LinkType[]; includeArchived?: boolean } = {}
+): { nodes: GraphNode[]; edges: MemoryLink[] } | null {
+  const tiers: MemoryTier[] = options.includeArchived ? ["hot", "warm", "cold", "archived"] : ["hot", "warm", "cold"];
+  const [center] = getMemoriesByIds([id], { tiers });
+  if (!center) return null;
+
+  const depthOf = new Map<string, number>([[id, 0]]);
+  const edges = new Map<string, MemoryLink>();
+  let frontier = [id];
+  for (let depth = 1; depth <= (options.depth ?? 1) && frontier.length > 0; depth++) {
+    const next: string[] = [];
+    for (const link of getMemoryLinks(frontier)) {
+      if (options.types && !options.types.includes(link.type)) continue;
+      edges.set(`${link.source_id}\0${link.target_id}\0${link.type}`, link);
+      for (const neighbour of [link.source_id, link.target_id]) {
+        if (depthOf.has(neighbour)) continue;
+        depthOf.set(neighbour, depth);
+        next.push(neighbour);
+      }
+    }
+    frontier = next;
+  }
+
+  const memories = getMemoriesByIds([...depthOf.keys()], { tiers });
+  const visible = new Set(memories.map((m) => m.id));
+  const superseded = getSupersededIds([...visible]);
+  return {
+    nodes: memories
+      .map((m) => ({ id: m.id, title: m.title, type: m.type, tier: m.tier, depth: depthOf.get(m.id)!, superseded: superseded.has(m.id) }))
+      .sort((a, b) => a.depth - b.depth),
+    edges: [...edges.values()].filter((e) => visible.has(e.source_id) && visible.has(e.target_id)),
+  };
+}
+
+/**
+ * Memories one link away from the given recall hits that aren't hits
+ * themselves, each reported once via the best-ranked hit that reaches it.
+ */
+export function expandLinks(hitIds: string[], options: { hideSuperseded?: boolean } = {}): LinkedMemory[] {
+  const rank = new Map(hitIds.map((id, i) => [id, i]));
+  const via = new Map<string, LinkedMemory["via"]>();
+
+  for (const link of getMemoryLinks(hitIds)) {
+    const ends: Array<[string, string, "outgoing" | "incoming"]> = [
+      [link.source_id, link.target_id, "outgoing"],
+      [link.target_id, link.source_id, "incoming"],
+    ];
+    for (const [from, to, direction] of ends) {
+      if (!rank.has(from) || rank.has(to)) continue;
+      const current = via.get(to);
+      if (!current || rank.get(from)! < rank.get(current.id)!) via.set(to, { id: from, link: link.type, direction });
+    }
+  }
+
+  const superseded = options.hideSuperseded ? getSupersededIds([...via.keys()]) : new Set<string>();
+  return getMemoriesByIds([...via.keys()])
+    .filter((m) => !superseded.has(m.id))
+    .map((m) => ({ id: m.id, title: m.title, type: m.type, tags: m.tags, via: via.get(m.id)! }))
+    .sort((a, b) => rank.get(a.via.id)! - rank.get(b.via.id)!);
+}
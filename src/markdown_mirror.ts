@@ -0,0 +1,307 @@
+import { readdirSync, readFileSync, writeFileSync, mkdirSync, unlinkSync, statSync, existsSync, renameSync } from "node:fs";
+import { join, dirname, basename } from "node:path";
+import { getDb, addMemoryListener, iterateMemories, getMemoryRaw, insertMemory, updateMemory, deleteMemory } from "./db.js";
+import { embeddingToBuffer, getModelName } from "./embeddings.js";
+import { embedText } from "./embedding_cache.js";
+import { getVectorStore } from "./vector_store.js";
+import type { Memory, MemoryType, MemoryTier } from "./types.js";
+
+const MEMORY_TYPES: MemoryType[] = ["learning", "error", "decision", "plan", "raw"];
+const MEMORY_TIERS: MemoryTier[] = ["hot", "warm", "cold", "archived"];
+
+let dirOverride: string | null = null;
+let unsubscribe: (() => void) | null = null;
+const pendingWrites = new Set<string>();
+
+export interface MirrorFile {
+  id: string | null;
+  type: MemoryType | null;
+  title: string | null;
+  tags: string[];
+  tier: MemoryTier | null;
+  metadata: Record<string, unknown>;
+  created_at: string | null;
+  content: string;
+}
+
+/** Mirror directory: explicit --mirror=<dir>, else vault/ beside the active memory.db */
+export function getMirrorDir(): string {
+  return dirOverride ?? join(dirname(getDb().name), "vault");
+}
+
+function slugify(title: string): string {
+  return title
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "")
+    .slice(0, 60);
+}
+
+function fileNameFor(memory: Pick<Memory, "id" | "title">): string {
+  return `${slugify(memory.title) || "memory"}--${memory.id.slice(0, 8)}.md`;
+}
+
+function filesForId(dir: string, id: string): string[] {
+  const suffix = `--${id.slice(0, 8)}.md`;
+  return readdirSync(dir).filter((f) => f.endsWith(suffix));
+}
+
+/**
+ * Front-matter values are written as JSON, which is valid YAML for every
+ * value we emit (double-quoted strings, flow sequences, flow mappings).
+ */
+export function serializeMemory(memory: Memory): string {
+  const frontMatter = [
+    `id: ${JSON.stringify(memory.id)}`,
+    `type: ${memory.type}`,
+    `title: ${JSON.stringify(memory.title)}`,
+    `tags: ${JSON.stringify(memory.tags)}`,
+    `tier: ${memory.tier}`,
+    `metadata: ${JSON.stringify(memory.metadata)}`,
+    `created_at: ${JSON.stringify(memory.created_at)}`,
+    `updated_at: ${JSON.stringify(memory.updated_at)}`,
+  ];
+  return `---\n${frontMatter.join("\n")}\n---\n${memory.content}\n`;
+}
+
+function parseValue(raw: string): unknown {
+  const value = raw.trim();
+  if (value === "") return "";
+  try {
+    return JSON.parse(value);
+  } catch {
+    // Hand-written YAML: unquoted flow lists like [a, b] or bare scalars
+    if (value.startsWith("[") && value.endsWith("]")) {
+      return value
+        .slice(1, -1)
+        .split(",")
+        .map((t) => t.trim().replace(/^["']|["']$/g, ""))
+        .filter((t) => t.length > 0);
+    }
+    return value.replace(/^'|'$/g, "");
+  }
+}
+
+/** Parse a mirror file. Returns null for Markdown without front-matter. */
+export function parseMirrorFile(text: string): MirrorFile | null {
+  const normalized = text.replace(/\r\n/g, "\n");
+  if (!normalized.startsWith("---\n")) return null;
+  const end = normalized.indexOf("\n---", 4);
+  if (end === -1) return null;
+
+  const fields: Record<string, unknown> = {};
+  for (const line of normalized.slice(4, end).split("\n")) {
+    const colon = line.indexOf(":");
+    if (colon === -1) continue;
+    fields[line.slice(0, colon).trim()] = parseValue(line.slice(colon + 1));
+  }
+
+  const bodyStart = normalized.indexOf("\n", end + 4);
+  const content = bodyStart === -1 ? "" : normalized.slice(bodyStart + 1).replace(/\n$/, "");
+  const tags = Array.isArray(fields.tags) ? fields.tags.map(String) : [];
+  const metadata = fields.metadata && typeof fields.metadata === "object" && !Array.isArray(fields.metadata)
+    ? fields.metadata as Record<string, unknown>
+    : {};
+
+  return {
+    id: typeof fields.id === "string" && fields.id.length > 0 ? fields.id : null,
+    type: MEMORY_TYPES.includes(fields.type as MemoryType) ? fields.type as MemoryType : null,
+    title: typeof fields.title === "string" ? fields.title : null,
+    tags,
+    tier: MEMORY_TIERS.includes(fields.tier as MemoryTier) ? fields.tier as MemoryTier : null,
+    metadata,
+    created_at: typeof fields.created_at === "string" ? fields.created_at : null,
+    content,
+  };
+}
+
+/** Write (or remove, for archived memories) the mirror file for one memory. */
+export function writeMirrorFile(memory: Memory): void {
+  const dir = getMirrorDir();
+  mkdirSync(dir, { recursive: true });
+
+  const target = fileNameFor(memory);
+  for (const file of filesForId(dir, memory.id)) {
+    if (file !== target || memory.tier === "archived") unlinkSync(join(dir, file));
+  }
+  if (memory.tier === "archived") return;
+
+  const path = join(dir, target);
+  const text = serializeMemory(memory);
+  if (existsSync(path) && readFileSync(path, "utf-8") === text) return;
+
+  const tmpPath = `${path}.tmp`;
+  writeFileSync(tmpPath, text, "utf-8");
+  renameSync(tmpPath, path);
+}
+
+/**
+ * Whether the file carries an edit. Tier is owned by decay, so a file's tier
+ * only counts when it archives the memory.
+ */
+function differs(memory: Memory, file: MirrorFile): boolean {
+  return (file.title !== null && file.title !== memory.title)
+    || file.content !== memory.content
+    || (file.type !== null && file.type !== memory.type)
+    || (file.tier === "archived" && memory.tier !== "archived")
+    || JSON.stringify(file.tags) !== JSON.stringify(memory.tags)
+    || JSON.stringify(file.metadata) !== JSON.stringify(memory.metadata);
+}
+
+async function embedMemoryText(title: string, content: string): Promise<Float32Array | null> {
+  return embedText(`${title} ${content}`);
+}
+
+/**
+ * Two-way reconcile between the memories table and the mirror directory.
+ * A file edited after the memory's updated_at wins and is re-embedded, except
+ * for its tier, which decay owns; files without an id become new memories;
+ * missing files are (re)written.
+ */
+export async function reconcileMirror(): Promise<{ written: number; updated: number; created: number; archived: number }> {
+  const dir = getMirrorDir();
+  mkdirSync(dir, { recursive: true });
+  const result = { written: 0, updated: 0, created: 0, archived: 0 };
+  const seen = new Set<string>();
+
+  for (const file of readdirSync(dir).filter((f) => f.endsWith(".md"))) {
+    const path = join(dir, file);
+    if (!existsSync(path)) continue; // renamed by an earlier write in this pass
+    const parsed = parseMirrorFile(readFileSync(path, "utf-8"));
+    if (!parsed) continue;
+
+    const existing = parsed.id ? getMemoryRaw(parsed.id) : null;
+    if (!existing) {
+      // Human-authored note (no id) or a memory this vault has never seen
+      const title = parsed.title ?? basename(file, ".md");
+      const vector = await embedMemoryText(title, parsed.content);
+      const created = insertMemory({
+        ...(parsed.id ? { id: parsed.id } : {}),
+        type: parsed.type ?? "raw",
+        title,
+        content: parsed.content,
+        tags: parsed.tags,
+        metadata: parsed.metadata,
+        embedding: vector ? embeddingToBuffer(vector) : null,
+        embedding_model: vector ? getModelName() : null,
+        tier: parsed.tier ?? "hot",
+        ...(parsed.created_at ? { created_at: parsed.created_at } : {}),
+      });
+      if (vector && created.tier !== "archived") getVectorStore().upsert(created.id, vector);
+      // Replace the hand-written file with its canonical name and front-matter
+      if (file !== fileNameFor(created) && existsSync(path)) unlinkSync(path);
+      writeMirrorFile(created);
+      seen.add(created.id);
+      result.created++;
+      continue;
+    }
+
+    seen.add(existing.id);
+    if (!differs(existing, parsed)) {
+      // Only the tier is out of date — decay moved it since the file was written
+      if (parsed.tier !== existing.tier) {
+        writeMirrorFile(existing);
+        result.written++;
+      }
+      continue;
+    }
+
+    if (statSync(path).mtimeMs <= Date.parse(existing.updated_at)) {
+      // Database is newer — the file is stale
+      writeMirrorFile(existing);
+      result.written++;
+      continue;
+    }
+
+    if (parsed.tier === "archived") {
+      deleteMemory(existing.id);
+      getVectorStore().delete(existing.id);
+      result.archived++;
+      continue;
+    }
+
+    const title = parsed.title ?? existing.title;
+    const updates: Parameters<typeof updateMemory>[1] = {
+      title,
+      content: parsed.content,
+      tags: parsed.tags,
+      metadata: parsed.metadata,
+      ...(parsed.type ? { type: parsed.type } : {}),
+    };
+    let vector: Float32Array | null = null;
+    if (title !== existing.title || parsed.content !== existing.content) {
+      vector = await embedMemoryText(title, parsed.content);
+      if (vector) {
+        updates.embedding = embeddingToBuffer(vector);
+        updates.embedding_model = getModelName();
+      }
+    }
+    updateMemory(existing.id, updates);
+    if (vector) getVectorStore().upsert(existing.id, vector);
+    result.updated++;
+  }
+
+  for (const memory of iterateMemories(false)) {
+    if (seen.has(memory.id)) continue;
+    writeMirrorFile(memory);
+    result.written++;
+  }
+
+  return result;
+}
+
+function removeMirrorFiles(id: string): void {
+  const dir = getMirrorDir();
+  if (!existsSync(dir)) return;
+  for (const file of filesForId(dir, id)) unlinkSync(join(dir, file));
+}
+
+/**
+ * Write memories changed inside a transaction once it has settled, from the
+ * row as committed — a rolled-back insert leaves no file behind.
+ */
+function flushPendingWrites(): void {
+  if (pendingWrites.size === 0) return; // stopped meanwhile
+  if (getDb().inTransaction) {
+    setImmediate(flushPendingWrites);
+    return;
+  }
+  const ids = [...pendingWrites];
+  pendingWrites.clear();
+  for (const id of ids) {
+    try {
+      const memory = getMemoryRaw(id);
+      if (memory) writeMirrorFile(memory);
+      else removeMirrorFiles(id);
+    } catch (err) {
+      console.error(`MoltMind: mirror write failed — ${err instanceof Error ? err.message : String(err)}`);
+    }
+  }
+}
+
+function onMemoryChange(memory: Memory): void {
+  if (!getDb().inTransaction) {
+    writeMirrorFile(memory);
+    return;
+  }
+  if (pendingWrites.size === 0) setImmediate(flushPendingWrites);
+  pendingWrites.add(memory.id);
+}
+
+/** Start mirroring writes to Markdown and reconcile once with the directory. */
+export async function initMarkdownMirror(dir?: string | null): Promise<Awaited<ReturnType<typeof reconcileMirror>>> {
+  dirOverride = dir ?? null;
+  if (!unsubscribe) {
+    unsubscribe = addMemoryListener(({ memory }) => onMemoryChange(memory));
+  }
+  return reconcileMirror();
+}
+
+export function stopMarkdownMirror(): void {
+  if (unsubscribe) {
+    unsubscribe();
+    unsubscribe = null;
+  }
+  pendingWrites.clear();
+  dirOverride = null;
+}
@@ -2,9 +2,10 @@ import { readFileSync, writeFileSync, existsSync, mkdirSync, renameSync } from "
 import { join } from "node:path";
 import { homedir } from "node:os";
 import crypto from "node:crypto";
-import { getMetric, setMetric, getDiagnosticsSummary, insertSession, updateSession, getActiveSession, updateSessionHeartbeat, markStaleSessions, releaseAllClaims } from "./db.js";
+import { getMetric, setMetric, getDiagnosticsSummary, insertSession, updateSession, getActiveSession, updateSessionHeartbeat, markStaleSessions, releaseAllClaims, renewClaims, deleteExpiredClaims } from "./db.js";
 import { getHealthScore, getRecentFeedback } from "./diagnostics.js";
 import { getAggregateTokenSavings, type TokenSavingsReport } from "./token_estimator.js";
+import { getEmbeddingCacheStats, type EmbeddingCacheStats } from "./embedding_cache.js";
 
 const MOLTMIND_DIR = join(homedir(), ".moltmind");
 const INSTANCE_ID_PATH = join(MOLTMIND_DIR, "instance_id");
@@ -81,7 +82,9 @@ export function initMetrics(): void {
 export function heartbeat(): void {
   if (currentSessionId) {
     updateSessionHeartbeat(currentSessionId, process.pid);
+    renewClaims(currentSessionId);
     markStaleSessions();
+    deleteExpiredClaims();
   }
 }
 
@@ -129,6 +132,7 @@ export interface FullMetrics {
     recent: Array<{ type: string; message: string; tool_name: string | null; created_at: string }>;
   };
   token_savings: TokenSavingsReport;
+  embedding_cache: EmbeddingCacheStats;
   uptime_seconds: number;
 }
 
@@ -208,6 +212,7 @@ export function getFullMetrics(): FullMetrics {
       recent: recentFeedback,
     },
     token_savings: tokenSavings,
+    embedding_cache: getEmbeddingCacheStats(),
     uptime_seconds: Math.floor((Date.now() - startTime) / 1000),
   };
 }
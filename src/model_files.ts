@@ -0,0 +1,87 @@
+import { createHash } from "node:crypto";
+import { existsSync, readFileSync, statSync, writeFileSync } from "node:fs";
+import { join } from "node:path";
+
+const MANIFEST_FILE = "moltmind-manifest.json";
+
+// What the feature-extraction pipeline reads for a quantized model
+export const REQUIRED_MODEL_FILES = [
+  "config.json",
+  "tokenizer.json",
+  "tokenizer_config.json",
+  "onnx/model_quantized.onnx",
+];
+
+/** Checksums recorded by --download-model, next to the files they cover. */
+export interface ModelManifest {
+  model: string;
+  files: Record<string, string>;
+  created_at: string;
+}
+
+export interface ModelFileReport {
+  /** Directory holding the model's files: <root>/<model> */
+  path: string;
+  missing: string[];
+  /** Present but empty, or not matching the manifest */
+  corrupt: string[];
+  /** False when there is no manifest, so only presence was checked */
+  verified: boolean;
+  ok: boolean;
+}
+
+function sha256File(path: string): string {
+  return createHash("sha256").update(readFileSync(path)).digest("hex");
+}
+
+function readManifest(path: string): ModelManifest | null {
+  try {
+    return JSON.parse(readFileSync(join(path, MANIFEST_FILE), "utf-8")) as ModelManifest;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Check that every file the model needs is under root, and that each matches
+ * the checksum in the manifest when there is one.
+ */
+export function verifyModelFiles(root: string, model: string): ModelFileReport {
+  const path = join(root, model);
+  const manifest = readManifest(path);
+  const missing: string[] = [];
+  const corrupt: string[] = [];
+
+  for (const file of REQUIRED_MODEL_FILES) {
+    const filePath = join(path, file);
+    if (!existsSync(filePath)) {
+      missing.push(file);
+    } else if (statSync(filePath).size === 0) {
+      corrupt.push(file);
+    } else if (manifest?.files[file] && sha256File(filePath) !== manifest.files[file]) {
+      corrupt.push(file);
+    }
+  }
+
+  return { path, missing, corrupt, verified: manifest !== null, ok: missing.length + corrupt.length === 0 };
+}
+
+/** Record checksums of the model's files so later loads can detect tampering or truncation. */
+export function writeModelManifest(root: string, model: string): ModelManifest {
+  const path = join(root, model);
+  const files: Record<string, string> = {};
+  for (const file of REQUIRED_MODEL_FILES) {
+    files[file] = sha256File(join(path, file));
+  }
+  const manifest: ModelManifest = { model, files, created_at: new Date().toISOString() };
+  writeFileSync(join(path, MANIFEST_FILE), JSON.stringify(manifest, null, 2) + "\n", "utf-8");
+  return manifest;
+}
+
+export function describeModelFileProblems(report: ModelFileReport): string {
+  const problems = [
+    ...report.missing.map((file) => `${file} missing`),
+    ...report.corrupt.map((file) => `${file} corrupt`),
+  ];
+  return `${report.path}: ${problems.join(", ")}`;
+}
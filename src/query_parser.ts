@@ -0,0 +1,174 @@
+import type { MemoryType, MemoryTier } from "./types.js";
+
+const MEMORY_TYPES: MemoryType[] = ["learning", "error", "decision", "plan", "raw"];
+const MEMORY_TIERS: MemoryTier[] = ["hot", "warm", "cold", "archived"];
+
+export type MetadataOp = "eq" | "ne" | "gt" | "gte" | "lt" | "lte" | "in" | "contains" | "exists";
+export type MetadataScalar = string | number | boolean | null;
+
+/** Predicate on a JSON metadata field, evaluated with json_extract. */
+export interface MetadataPredicate {
+  path: string;
+  op?: MetadataOp;
+  value?: MetadataScalar | MetadataScalar[];
+}
+
+export interface RecallFilters {
+  types?: MemoryType[];
+  exclude_types?: MemoryType[];
+  tiers?: MemoryTier[];
+  /** Memory must carry every one of these tags */
+  tags?: string[];
+  /** Memory must carry at least one of these tags */
+  tags_any?: string[];
+  exclude_tags?: string[];
+  exclude_terms?: string[];
+  /** created_at range (ISO timestamps) */
+  before?: string;
+  after?: string;
+  /** updated_at range (ISO timestamps) */
+  updated_before?: string;
+  updated_after?: string;
+  metadata?: MetadataPredicate[];
+  /** Only embeddings from this provider:model */
+  embedding_model?: string;
+  /** Leave out memories that a live memory supersedes */
+  exclude_superseded?: boolean;
+}
+
+export interface ParsedQuery {
+  terms: string[];
+  phrases: string[];
+  filters: RecallFilters;
+}
+
+// A token is searchable only if FTS5's unicode61 tokenizer would keep something from it
+const SEARCHABLE = /[\p{L}\p{N}]/u;
+
+/** Quote a term as an FTS5 string literal — neutralizes every operator character. */
+export function quoteFts(term: string): string {
+  return `"${term.replace(/"/g, '""')}"`;
+}
+
+function parseDate(value: string): string | null {
+  const time = Date.parse(value);
+  return Number.isNaN(time) ? null : new Date(time).toISOString();
+}
+
+/** Normalize a user-supplied date to ISO, throwing on anything Date.parse rejects. */
+export function normalizeDate(value: string, field: string): string {
+  const iso = parseDate(value);
+  if (!iso) throw new Error(`Invalid date for ${field}: "${value}"`);
+  return iso;
+}
+
+const PATH_SEGMENT = /^[A-Za-z0-9_-]+$/;
+
+/**
+ * Convert a dotted metadata path ("source.repo", "files.0") to a SQLite JSON
+ * path. Segments are restricted so user input can never form a malformed path.
+ */
+export function toJsonPath(path: string): string {
+  const segments = path.replace(/^\$\.?/, "").split(".");
+  if (!segments.every((seg) => PATH_SEGMENT.test(seg))) {
+    throw new Error(`Invalid metadata path: "${path}"`);
+  }
+  return "$" + segments.map((seg) => (/^\d+$/.test(seg) ? `[${seg}]` : `."${seg}"`)).join("");
+}
+
+function push<T>(list: T[] | undefined, value: T): T[] {
+  return [...(list ?? []), value];
+}
+
+/**
+ * Parse a recall query. Plain mode treats everything as free text.
+ * Advanced mode understands "phrases", tag:, type:, tier:, before:, after:
+ * and a leading - for negation (-word, -"phrase", -tag:x, -type:x).
+ */
+export function parseQuery(input: string, advanced: boolean = false): ParsedQuery {
+  const parsed: ParsedQuery = { terms: [], phrases: [], filters: {} };
+
+  if (!advanced) {
+    parsed.terms = input.split(/\s+/).filter((t) => SEARCHABLE.test(t));
+    return parsed;
+  }
+
+  const tokenPattern = /(-?)(?:([a-z]+):)?(?:"([^"]*)"?|(\S+))/gi;
+  let match: RegExpExecArray | null;
+  while ((match = tokenPattern.exec(input)) !== null) {
+    const negated = match[1] === "-";
+    const field = match[2]?.toLowerCase();
+    const quoted = match[3];
+    const value = quoted ?? match[4] ?? "";
+    const { filters } = parsed;
+
+    if (field === "tag" && value) {
+      if (negated) filters.exclude_tags = push(filters.exclude_tags, value);
+      else filters.tags = push(filters.tags, value);
+      continue;
+    }
+    if (field === "type" && MEMORY_TYPES.includes(value as MemoryType)) {
+      if (negated) filters.exclude_types = push(filters.exclude_types, value as MemoryType);
+      else filters.types = push(filters.types, value as MemoryType);
+      continue;
+    }
+    if (field === "tier" && !negated && MEMORY_TIERS.includes(value as MemoryTier)) {
+      filters.tiers = push(filters.tiers, value as MemoryTier);
+      continue;
+    }
+    if ((field === "before" || field === "after") && !negated) {
+      const iso = parseDate(value);
+      if (iso) {
+        filters[field] = iso;
+        continue;
+      }
+    }
+
+    // Unknown field or invalid value — keep the whole token as literal text
+    const text = field ? `${match[2]}:${value}` : value;
+    if (!SEARCHABLE.test(text)) continue;
+    if (negated) parsed.filters.exclude_terms = push(parsed.filters.exclude_terms, text);
+    else if (quoted !== undefined) parsed.phrases.push(text);
+    else parsed.terms.push(text);
+  }
+
+  return parsed;
+}
+
+/** FTS5 MATCH expression for the positive part of a query (implicit AND), or null if empty. */
+export function toFtsMatch(parsed: ParsedQuery): string | null {
+  const parts = [...parsed.terms, ...parsed.phrases].map(quoteFts);
+  return parts.length > 0 ? parts.join(" ") : null;
+}
+
+/** FTS5 MATCH expression for negated terms (any of them excludes a row), or null. */
+export function toFtsExclusion(filters: RecallFilters): string | null {
+  const terms = filters.exclude_terms ?? [];
+  return terms.length > 0 ? terms.map(quoteFts).join(" OR ") : null;
+}
+
+/** Text to embed for semantic search — the query without its operators. */
+export function toSemanticText(parsed: ParsedQuery): string {
+  return [...parsed.terms, ...parsed.phrases].join(" ");
+}
+
+export function mergeFilters(base: RecallFilters, extra: RecallFilters): RecallFilters {
+  const merged: RecallFilters = { ...base };
+  const lists = ["types", "exclude_types", "tiers", "tags", "tags_any", "exclude_tags", "exclude_terms"] as const;
+  for (const key of lists) {
+    const values = [...(base[key] ?? []), ...(extra[key] ?? [])];
+    if (values.length > 0) (merged as Record<string, unknown>)[key] = [...new Set(values)];
+  }
+  for (const key of ["before", "updated_before"] as const) {
+    const value = extra[key];
+    if (value) merged[key] = base[key] && base[key]! < value ? base[key] : value;
+  }
+  for (const key of ["after", "updated_after"] as const) {
+    const value = extra[key];
+    if (value) merged[key] = base[key] && base[key]! > value ? base[key] : value;
+  }
+  const metadata = [...(base.metadata ?? []), ...(extra.metadata ?? [])];
+  if (metadata.length > 0) merged.metadata = metadata;
+  if (base.exclude_superseded || extra.exclude_superseded) merged.exclude_superseded = true;
+  return merged;
+}
@@ -0,0 +1,132 @@
+import { getRankingConfig, type RankingConfig, type RankingStrategy, type RankingWeights } from "./config.js";
+import { computeDecayScore } from "./decay.js";
+import type { Memory, MemoryTier } from "./types.js";
+
+/** One recall candidate with its raw signals from each retriever. */
+export interface RankCandidate {
+  memory: Memory;
+  /** Cosine similarity, or null if the vector search didn't return it */
+  semantic: number | null;
+  semantic_rank: number | null;
+  /** FTS5 BM25 rank (lower is better), or null if keyword search didn't return it */
+  bm25: number | null;
+  keyword_rank: number | null;
+}
+
+export interface ScoreBreakdown {
+  strategy: RankingStrategy;
+  semantic: number;
+  semantic_rank: number | null;
+  keyword: number;
+  keyword_rank: number | null;
+  bm25: number | null;
+  base: number;
+  decay?: number;
+  tier?: number;
+  boost?: number;
+  final: number;
+}
+
+export interface RankedResult {
+  memory: Memory;
+  score: number;
+  breakdown: ScoreBreakdown;
+}
+
+interface RankContext {
+  weights: RankingWeights;
+  semanticAvailable: boolean;
+  now: number;
+}
+
+type Scorer = (candidate: RankCandidate & { keyword: number }, ctx: RankContext) => Omit<ScoreBreakdown, "strategy" | "semantic" | "semantic_rank" | "keyword" | "keyword_rank" | "bm25">;
+
+const TIER_BOOST: Record<MemoryTier, number> = { hot: 1, warm: 0.5, cold: 0, archived: 0 };
+
+function linearBase(c: RankCandidate & { keyword: number }, ctx: RankContext): number {
+  // Without a model there is no semantic signal — rank on keywords alone
+  if (!ctx.semanticAvailable) return c.keyword;
+  return (c.semantic ?? 0) * ctx.weights.semantic + c.keyword * ctx.weights.keyword;
+}
+
+const SCORERS: Record<RankingStrategy, Scorer> = {
+  linear: (c, ctx) => {
+    const base = linearBase(c, ctx);
+    return { base, final: base };
+  },
+
+  rrf: (c, ctx) => {
+    const k = Math.max(ctx.weights.rrf_k, 0);
+    let base = 0;
+    if (c.semantic_rank !== null) base += ctx.weights.semantic / (k + c.semantic_rank);
+    if (c.keyword_rank !== null) base += ctx.weights.keyword / (k + c.keyword_rank);
+    return { base, final: base };
+  },
+
+  decay: (c, ctx) => {
+    const base = linearBase(c, ctx);
+    const decay = computeDecayScore(c.memory, undefined, ctx.now);
+    const tier = TIER_BOOST[c.memory.tier];
+    // Multiplicative so recency reorders relevant results without lifting irrelevant ones
+    const boost = 1 + ctx.weights.recency * decay + ctx.weights.tier * tier;
+    return { base, decay, tier, boost, final: base * boost };
+  },
+};
+
+/**
+ * Normalize BM25 ranks to (0, 1] relative to the best match. Candidates from a
+ * term-less listing (no BM25) fall back to their position in the keyword list.
+ */
+function keywordScores(candidates: RankCandidate[]): Map<RankCandidate, number> {
+  const keywordCount = candidates.filter((c) => c.keyword_rank !== null).length;
+  const best = Math.min(...candidates.map((c) => c.bm25 ?? 0));
+  const scores = new Map<RankCandidate, number>();
+
+  for (const c of candidates) {
+    if (c.keyword_rank === null) scores.set(c, 0);
+    else if (c.bm25 !== null && best < 0) scores.set(c, c.bm25 / best);
+    else scores.set(c, 1 - (c.keyword_rank - 1) / Math.max(keywordCount, 1));
+  }
+  return scores;
+}
+
+function round(value: number): number {
+  return Math.round(value * 10000) / 10000;
+}
+
+/** Score and sort candidates, best first. Unset weights fall back to the configured ranking. */
+export function rankCandidates(
+  candidates: RankCandidate[],
+  options: { strategy?: RankingStrategy; weights?: Partial<RankingWeights>; semanticAvailable: boolean; now?: number; config?: RankingConfig },
+): RankedResult[] {
+  const config = options.config ?? getRankingConfig();
+  const strategy = options.strategy ?? config.strategy;
+  const ctx: RankContext = {
+    weights: { ...config.weights, ...options.weights },
+    semanticAvailable: options.semanticAvailable,
+    now: options.now ?? Date.now(),
+  };
+  const keyword = keywordScores(candidates);
+
+  const ranked = candidates.map((c) => {
+    const kw = keyword.get(c)!;
+    const scored = SCORERS[strategy]({ ...c, keyword: kw }, ctx);
+    const breakdown: ScoreBreakdown = {
+      strategy,
+      semantic: round(c.semantic ?? 0),
+      semantic_rank: c.semantic_rank,
+      keyword: round(kw),
+      keyword_rank: c.keyword_rank,
+      bm25: c.bm25 === null ? null : round(c.bm25),
+      base: round(scored.base),
+      ...(scored.decay !== undefined ? { decay: round(scored.decay) } : {}),
+      ...(scored.tier !== undefined ? { tier: scored.tier } : {}),
+      ...(scored.boost !== undefined ? { boost: round(scored.boost) } : {}),
+      final: round(scored.final),
+    };
+    return { memory: c.memory, score: scored.final, breakdown };
+  });
+
+  ranked.sort((a, b) => b.score - a.score);
+  return ranked;
+}
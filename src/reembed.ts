@@ -0,0 +1,135 @@
+import { countStaleEmbeddings, getStaleEmbeddingBatch, setMemoryEmbedding, getMeta, setMeta } from "./db.js";
+import { embeddingToBuffer, getModelName } from "./embeddings.js";
+import { embedText } from "./embedding_cache.js";
+import { getNumberOption, getChunkingConfig } from "./config.js";
+import { embedMemoryChunks } from "./chunking.js";
+
+const CHECKPOINT_KEY = "reembed_checkpoint";
+
+/** Progress through the memories table, saved in meta after every batch. */
+export interface ReembedCheckpoint {
+  model: string;
+  after_rowid: number;
+  embedded: number;
+  updated_at: string;
+}
+
+export interface ReembedBatchResult {
+  embedded: number;
+  /** False once a pass over the table has finished */
+  more: boolean;
+  /** The model returned nothing — retry on a later run */
+  blocked: boolean;
+}
+
+let running: Promise<number> | null = null;
+
+function readCheckpoint(model: string): ReembedCheckpoint {
+  const raw = getMeta(CHECKPOINT_KEY);
+  if (raw) {
+    try {
+      const checkpoint = JSON.parse(raw) as ReembedCheckpoint;
+      // A model switch invalidates the cursor — everything is stale again
+      if (checkpoint.model === model) return checkpoint;
+    } catch {
+      // Corrupt checkpoint — start over
+    }
+  }
+  return { model, after_rowid: 0, embedded: 0, updated_at: new Date().toISOString() };
+}
+
+function saveCheckpoint(checkpoint: ReembedCheckpoint): void {
+  setMeta(CHECKPOINT_KEY, JSON.stringify({ ...checkpoint, updated_at: new Date().toISOString() }));
+}
+
+/**
+ * Embed the next batch of memories that have no embedding or one from another
+ * model, or whose passages lack chunk embeddings, resuming from the saved
+ * checkpoint. Rows are visited in rowid order; reaching the end resets the
+ * cursor so the next pass picks up newer gaps.
+ */
+export async function runReembedBatch(batchSize: number = getNumberOption("reembed-batch-size", 16)): Promise<ReembedBatchResult> {
+  const model = getModelName();
+  const chunkSize = getChunkingConfig().size;
+  const checkpoint = readCheckpoint(model);
+  const rows = getStaleEmbeddingBatch(model, chunkSize, checkpoint.after_rowid, batchSize);
+  let embedded = 0;
+
+  for (const row of rows) {
+    // Edited since it was read: that edit embeds itself
+    let current = true;
+    if (!row.embedding_current) {
+      const vector = await embedText(`${row.title} ${row.content}`);
+      if (!vector) {
+        saveCheckpoint(checkpoint);
+        return { embedded, more: true, blocked: true };
+      }
+      current = setMemoryEmbedding(row.id, embeddingToBuffer(vector), model, row.updated_at);
+    }
+    if (current && row.content.length > chunkSize) {
+      const stored = await embedMemoryChunks(row, model);
+      if (stored === null) {
+        saveCheckpoint(checkpoint);
+        return { embedded, more: true, blocked: true };
+      }
+      current = stored;
+    }
+    if (current) embedded++;
+    checkpoint.after_rowid = row.rowid;
+  }
+
+  checkpoint.embedded += embedded;
+  const more = rows.length === batchSize;
+  if (!more) checkpoint.after_rowid = 0;
+  saveCheckpoint(checkpoint);
+  return { embedded, more, blocked: false };
+}
+
+/**
+ * One pass over the queue, a batch at a time, yielding to the event loop
+ * between batches so tool calls are served while it runs.
+ */
+export async function drainReembedQueue(): Promise<number> {
+  let total = 0;
+  for (;;) {
+    const result = await runReembedBatch();
+    total += result.embedded;
+    if (!result.more || result.blocked) return total;
+    await new Promise((resolve) => setImmediate(resolve));
+  }
+}
+
+/** Called from the heartbeat — starts a pass if there is work and none is running. */
+export function maybeRunReembed(): boolean {
+  if (running || countStaleEmbeddings(getModelName(), getChunkingConfig().size) === 0) return false;
+  running = drainReembedQueue()
+    .then((count) => {
+      if (count > 0) console.error(`MoltMind: re-embedded ${count} memories with ${getModelName()}`);
+      return count;
+    })
+    .catch((err: unknown) => {
+      console.error(`MoltMind: re-embedding failed — ${err instanceof Error ? err.message : String(err)}`);
+      return 0;
+    })
+    .finally(() => {
+      running = null;
+    });
+  return true;
+}
+
+export function getReembedStatus(): { model: string; queue: number; running: boolean; embedded: number; checkpoint_rowid: number } {
+  const model = getModelName();
+  const checkpoint = readCheckpoint(model);
+  return {
+    model,
+    queue: countStaleEmbeddings(model, getChunkingConfig().size),
+    running: running !== null,
+    embedded: checkpoint.embedded,
+    checkpoint_rowid: checkpoint.after_rowid,
+  };
+}
+
+/** Resolves when the current pass (if any) finishes. */
+export async function waitForReembed(): Promise<void> {
+  await running;
+}
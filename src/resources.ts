@@ -0,0 +1,79 @@
+import {
+  getRecentEvents, getActiveClaims, getLatestHandoff, getDataVersion, getChangeFingerprints,
+  type ChangeFingerprints,
+} from "./db.js";
+import { getHandoffProgress } from "./handoffs.js";
+
+export const RESOURCE_URIS = {
+  events: "moltmind://events",
+  claims: "moltmind://claims",
+  latest_handoff: "moltmind://handoffs/latest",
+} as const satisfies Record<keyof ChangeFingerprints, string>;
+
+type WatchedResource = keyof typeof RESOURCE_URIS;
+
+const subscriptions = new Set<string>();
+let lastDataVersion: number | null = null;
+let lastFingerprints: ChangeFingerprints | null = null;
+
+export function readEventsResource(limit: number = 50): Record<string, unknown> {
+  const events = getRecentEvents(new Date(0).toISOString(), limit).map((e) => ({
+    session_id: e.session_id,
+    event_type: e.event_type,
+    resource_id: e.resource_id,
+    summary: e.summary,
+    created_at: e.created_at,
+  }));
+  return { events };
+}
+
+export function readClaimsResource(): Record<string, unknown> {
+  return { claims: getActiveClaims() };
+}
+
+export function readLatestHandoffResource(): Record<string, unknown> {
+  const handoff = getLatestHandoff();
+  return { handoff, progress: handoff ? getHandoffProgress(handoff).summary : null };
+}
+
+/** The first subscription takes the baseline that later polls compare against. */
+export function subscribeResource(uri: string): void {
+  if (subscriptions.size === 0) {
+    lastDataVersion = getDataVersion();
+    lastFingerprints = getChangeFingerprints();
+  }
+  subscriptions.add(uri);
+}
+
+export function unsubscribeResource(uri: string): void {
+  subscriptions.delete(uri);
+}
+
+/**
+ * Subscribed resources that another process has changed since the last call.
+ * Fingerprints are refreshed on every poll so this process's own writes are
+ * absorbed quietly; they are only compared when data_version says another
+ * connection committed. Without subscribers nothing is read.
+ */
+export function pollResourceChanges(): string[] {
+  if (subscriptions.size === 0) return [];
+  const version = getDataVersion();
+  const fingerprints = getChangeFingerprints();
+  const previous = lastFingerprints;
+  const foreignWrite = lastDataVersion !== null && version !== lastDataVersion;
+  lastDataVersion = version;
+  lastFingerprints = fingerprints;
+  if (!previous || !foreignWrite) return [];
+
+  return (Object.keys(RESOURCE_URIS) as WatchedResource[])
+    .filter((key) => fingerprints[key] !== previous[key])
+    .map((key) => RESOURCE_URIS[key])
+    .filter((uri) => subscriptions.has(uri));
+}
+
+// Reset for testing
+export function _resetResourceWatch(): void {
+  subscriptions.clear();
+  lastDataVersion = null;
+  lastFingerprints = null;
+}
@@ -0,0 +1,82 @@
+import {
+  countExpiredRows, purgeExpiredRows, getExpiredMemories, compactDatabase, getDatabaseSizeBytes,
+  type RetentionCutoffs, type PurgeCounts,
+} from "./db.js";
+import { getRetentionConfig, type RetentionConfig } from "./config.js";
+import { getVectorStore } from "./vector_store.js";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+let lastRunAt = 0;
+
+export interface PurgeReport {
+  dry_run: boolean;
+  cutoffs: RetentionCutoffs;
+  counts: PurgeCounts;
+  /** Archived memories that are (or would be) deleted, oldest first, up to 50 */
+  expired_memories: Array<{ id: string; title: string; archived_at: string }>;
+  compacted: boolean;
+  size_before_bytes: number;
+  size_after_bytes: number;
+}
+
+/** A TTL of 0 days disables that cutoff. */
+export function getRetentionCutoffs(config: Pick<RetentionConfig, "archived_days" | "diagnostics_days" | "events_days">, now: number = Date.now()): RetentionCutoffs {
+  const before = (days: number): string | null => days > 0 ? new Date(now - days * DAY_MS).toISOString() : null;
+  return {
+    archived_before: before(config.archived_days),
+    diagnostics_before: before(config.diagnostics_days),
+    events_before: before(config.events_days),
+  };
+}
+
+/**
+ * Delete everything past its cutoff, removing purged memories from the vector
+ * store too, and optionally compact the database afterwards.
+ */
+export function runRetentionPass(options: { cutoffs?: RetentionCutoffs; dry_run?: boolean; compact?: boolean } = {}, now: number = Date.now()): PurgeReport {
+  const cutoffs = options.cutoffs ?? getRetentionCutoffs(getRetentionConfig(), now);
+  const sizeBefore = getDatabaseSizeBytes();
+  const expired = cutoffs.archived_before ? getExpiredMemories(cutoffs.archived_before) : [];
+
+  if (options.dry_run) {
+    return {
+      dry_run: true,
+      cutoffs,
+      counts: countExpiredRows(cutoffs),
+      expired_memories: expired,
+      compacted: false,
+      size_before_bytes: sizeBefore,
+      size_after_bytes: sizeBefore,
+    };
+  }
+
+  const { memory_ids, ...counts } = purgeExpiredRows(cutoffs);
+  const store = getVectorStore();
+  for (const id of memory_ids) store.delete(id);
+
+  if (options.compact) compactDatabase();
+  lastRunAt = now;
+  return {
+    dry_run: false,
+    cutoffs,
+    counts,
+    expired_memories: expired,
+    compacted: Boolean(options.compact),
+    size_before_bytes: sizeBefore,
+    size_after_bytes: getDatabaseSizeBytes(),
+  };
+}
+
+/** Called from the 30s heartbeat — only does work once per configured interval. */
+export function maybeRunRetention(now: number = Date.now()): boolean {
+  const config = getRetentionConfig();
+  if (now - lastRunAt < config.interval_ms) return false;
+  runRetentionPass({ cutoffs: getRetentionCutoffs(config, now) }, now);
+  return true;
+}
+
+// Reset for testing
+export function _resetRetention(): void {
+  lastRunAt = 0;
+}
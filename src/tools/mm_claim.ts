@@ -0,0 +1,42 @@
+import crypto from "node:crypto";
+import { claimResource } from "../db.js";
+import { getClaimConfig } from "../config.js";
+import { getCurrentSessionId } from "../metrics.js";
+
+/**
+ * Claim files or patterns ("src/db/**") for this session. Each resource is
+ * claimed on its own; resources another session holds are reported, and that
+ * session sees a claim_conflict event.
+ */
+export async function handleMmClaim(args: {
+  resources: string[];
+  description?: string;
+  ttl_seconds?: number;
+  renew?: boolean;
+}): Promise<Record<string, unknown>> {
+  const sessionId = getCurrentSessionId() ?? crypto.randomUUID();
+  const ttlSeconds = args.ttl_seconds ?? getClaimConfig().ttl_seconds;
+
+  const claimed: string[] = [];
+  const conflicts: Array<{ resource: string; held_by: string; held_resource: string; description: string | null }> = [];
+  for (const resource of args.resources) {
+    const result = claimResource(sessionId, resource, process.pid, args.description ?? null, { ttlSeconds, renew: args.renew });
+    if (result.success) {
+      claimed.push(resource);
+      continue;
+    }
+    for (const held of result.conflicts ?? []) {
+      conflicts.push({ resource, held_by: held.session_id, held_resource: held.resource, description: held.description });
+    }
+  }
+
+  return {
+    success: conflicts.length === 0,
+    claimed,
+    conflicts,
+    ttl_seconds: ttlSeconds,
+    message: conflicts.length === 0
+      ? `Claimed ${claimed.length} resource(s) for ${ttlSeconds}s${args.renew === false ? "" : ", renewed while this session is alive"}`
+      : `Claimed ${claimed.length} of ${args.resources.length}; ${conflicts.map((c) => `${c.resource} overlaps ${c.held_resource} (session ${c.held_by.slice(0, 8)})`).join("; ")}`,
+  };
+}
@@ -0,0 +1,37 @@
+import { getActiveClaims, getSessionEventsByType } from "../db.js";
+import { claimsOverlap } from "../claims.js";
+import { getCurrentSessionId } from "../metrics.js";
+
+/** Who holds what, and which other sessions have bumped into this session's claims. */
+export async function handleMmClaims(args: {
+  resource?: string;
+  mine?: boolean;
+}): Promise<Record<string, unknown>> {
+  const sessionId = getCurrentSessionId();
+
+  const claims = getActiveClaims(args.mine && sessionId ? sessionId : undefined)
+    .filter((c) => !args.resource || claimsOverlap(c.resource, args.resource))
+    .map((c) => ({
+      resource: c.resource,
+      session_id: c.session_id,
+      mine: c.session_id === sessionId,
+      description: c.description,
+      claimed_at: c.claimed_at,
+      expires_at: c.expires_at,
+    }));
+
+  const conflicts = sessionId
+    ? getSessionEventsByType(sessionId, "claim_conflict").map((e) => ({
+      resource: e.resource_id,
+      summary: e.summary,
+      created_at: e.created_at,
+    }))
+    : [];
+
+  return {
+    success: true,
+    claims,
+    conflicts,
+    message: `${claims.length} active claim(s)${conflicts.length > 0 ? `; ${conflicts.length} conflict(s) with this session's claims` : ""}`,
+  };
+}
@@ -0,0 +1,56 @@
+import { getEmbeddingModelCounts } from "../db.js";
+import { getDedupeConfig } from "../config.js";
+import { findDuplicateClusters, applyDuplicateCluster } from "../dedupe.js";
+
+export async function handleMmDedupe(args: {
+  threshold?: number;
+  apply?: boolean;
+}): Promise<Record<string, unknown>> {
+  const config = getDedupeConfig();
+  const threshold = args.threshold ?? config.threshold;
+
+  // Every memory is searched against the rest, so large vaults are refused up front
+  const memories = Object.values(getEmbeddingModelCounts()).reduce((sum, count) => sum + count, 0);
+  if (memories > config.scan_limit) {
+    return {
+      success: false,
+      message: `Vault has ${memories} embedded memories, over the mm_dedupe scan limit of ${config.scan_limit} — raise --dedupe-scan-limit to scan it anyway`,
+    };
+  }
+
+  const clusters = findDuplicateClusters(threshold);
+  const duplicates = clusters.reduce((sum, c) => sum + c.duplicates.length, 0);
+
+  if (!args.apply || clusters.length === 0) {
+    return {
+      success: true,
+      threshold,
+      clusters,
+      duplicates,
+      applied: false,
+      message: clusters.length === 0
+        ? "No near-duplicates found"
+        : `Found ${clusters.length} cluster(s) with ${duplicates} near-duplicate(s) — run with apply to merge them`,
+    };
+  }
+
+  let merged = 0;
+  const skipped: string[] = [];
+  for (const cluster of clusters) {
+    const result = await applyDuplicateCluster(cluster);
+    if (!result) continue;
+    merged += result.merged.length;
+    skipped.push(...result.skipped);
+  }
+  return {
+    success: true,
+    threshold,
+    clusters,
+    duplicates,
+    applied: true,
+    merged,
+    skipped,
+    message: `Merged ${merged} near-duplicate(s) into ${clusters.length} memories`
+      + (skipped.length > 0 ? ` — ${skipped.length} left unmerged, too large to fold into their keeper` : ""),
+  };
+}
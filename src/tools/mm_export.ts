@@ -0,0 +1,27 @@
+import { exportVault, defaultExportPath, resolveTransferPath } from "../vault_transfer.js";
+
+export async function handleMmExport(args: {
+  path?: string;
+  include_embeddings?: boolean;
+  include_archived?: boolean;
+}): Promise<Record<string, unknown>> {
+  let target: string;
+  try {
+    target = args.path ? resolveTransferPath(args.path) : defaultExportPath();
+  } catch (err) {
+    return { success: false, message: err instanceof Error ? err.message : String(err) };
+  }
+
+  const { path, counts } = exportVault({
+    path: target,
+    include_embeddings: args.include_embeddings,
+    include_archived: args.include_archived,
+  });
+
+  return {
+    success: true,
+    path,
+    counts,
+    message: `Exported ${counts.memories} memories to ${path}`,
+  };
+}
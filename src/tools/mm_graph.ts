@@ -0,0 +1,28 @@
+import { getNeighborhood } from "../links.js";
+import type { LinkType } from "../types.js";
+
+export async function handleMmGraph(args: {
+  id: string;
+  depth?: number;
+  types?: LinkType[];
+  include_archived?: boolean;
+}): Promise<Record<string, unknown>> {
+  const graph = getNeighborhood(args.id, {
+    depth: args.depth ?? 1,
+    types: args.types,
+    includeArchived: args.include_archived,
+  });
+  if (!graph) {
+    return { success: false, message: "Memory not found" };
+  }
+
+  return {
+    success: true,
+    id: args.id,
+    nodes: graph.nodes,
+    edges: graph.edges,
+    message: graph.edges.length === 0
+      ? "Memory has no links"
+      : `${graph.nodes.length - 1} linked memories, ${graph.edges.length} links`,
+  };
+}
@@ -1,5 +1,5 @@
 import crypto from "node:crypto";
-import { insertHandoff, logSessionEvent, claimResource } from "../db.js";
+import { insertHandoff, getHandoff, listHandoffs, logSessionEvent, claimResource } from "../db.js";
 import { getCurrentSessionId } from "../metrics.js";
 // NOTE: logSessionEvent is still imported for claim-specific events below.
 // The handoff_created event is now auto-logged by wrapTool() in index.ts.
@@ -13,9 +13,17 @@ export async function handleMmHandoffCreate(args: {
   artifacts?: string[];
   stop_conditions?: string[];
   claims?: string[];
+  parent_handoff_id?: string;
+  target?: string;
 }): Promise<Record<string, unknown>> {
   const sessionId = getCurrentSessionId() ?? crypto.randomUUID();
 
+  // Without an explicit parent, a handoff continues this session's previous one
+  if (args.parent_handoff_id && !getHandoff(args.parent_handoff_id)) {
+    return { success: false, message: `Parent handoff not found: ${args.parent_handoff_id}` };
+  }
+  const parentId = args.parent_handoff_id ?? listHandoffs({ session_id: sessionId }, 1)[0]?.id ?? null;
+
   const handoff = insertHandoff({
     goal: args.goal,
     current_state: args.current_state,
@@ -25,6 +33,8 @@ export async function handleMmHandoffCreate(args: {
     artifacts: args.artifacts ?? [],
     stop_conditions: args.stop_conditions ?? [],
     session_id: sessionId,
+    parent_handoff_id: parentId,
+    target: args.target ?? null,
   });
 
   // Process claims if provided
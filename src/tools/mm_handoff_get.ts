@@ -0,0 +1,28 @@
+import { getHandoff, getChildHandoffs } from "../db.js";
+
+// Guards against a parent cycle in hand-edited or imported data
+const MAX_CHAIN_LENGTH = 100;
+
+export async function handleMmHandoffGet(args: {
+  id: string;
+}): Promise<Record<string, unknown>> {
+  const handoff = getHandoff(args.id);
+  if (!handoff) {
+    return { success: false, message: "Handoff not found" };
+  }
+
+  // Walk up the chain, nearest ancestor first
+  const ancestors: Array<{ id: string; goal: string; created_at: string }> = [];
+  const seen = new Set([handoff.id]);
+  let parentId = handoff.parent_handoff_id;
+  while (parentId && !seen.has(parentId) && ancestors.length < MAX_CHAIN_LENGTH) {
+    seen.add(parentId);
+    const parent = getHandoff(parentId);
+    if (!parent) break;
+    ancestors.push({ id: parent.id, goal: parent.goal, created_at: parent.created_at });
+    parentId = parent.parent_handoff_id;
+  }
+
+  const children = getChildHandoffs(handoff.id).map((h) => ({ id: h.id, goal: h.goal, created_at: h.created_at }));
+  return { success: true, handoff, ancestors, children };
+}
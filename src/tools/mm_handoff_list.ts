@@ -0,0 +1,50 @@
+import { listHandoffs, type HandoffFilters } from "../db.js";
+import { normalizeDate } from "../query_parser.js";
+import { getHandoffProgress } from "../handoffs.js";
+import type { HandoffState } from "../types.js";
+
+export async function handleMmHandoffList(args: {
+  session_id?: string;
+  goal?: string;
+  after?: string;
+  before?: string;
+  target?: string;
+  accepted?: boolean;
+  state?: HandoffState[];
+  limit?: number;
+}): Promise<Record<string, unknown>> {
+  const filters: HandoffFilters = {
+    session_id: args.session_id,
+    goal: args.goal,
+    targets: args.target ? [args.target] : undefined,
+    accepted: args.accepted,
+    states: args.state,
+  };
+  try {
+    if (args.after) filters.after = normalizeDate(args.after, "after");
+    if (args.before) filters.before = normalizeDate(args.before, "before");
+  } catch (err) {
+    return { success: false, message: err instanceof Error ? err.message : String(err) };
+  }
+
+  const handoffs = listHandoffs(filters, args.limit ?? 20).map((h) => ({
+    id: h.id,
+    goal: h.goal,
+    next_action: h.next_action,
+    session_id: h.session_id,
+    parent_handoff_id: h.parent_handoff_id,
+    target: h.target,
+    accepted_by: h.accepted_by,
+    accepted_at: h.accepted_at,
+    state: h.state,
+    progress: getHandoffProgress(h).summary,
+    created_at: h.created_at,
+  }));
+
+  return {
+    success: true,
+    handoffs,
+    count: handoffs.length,
+    message: handoffs.length === 0 ? "No handoffs found" : `${handoffs.length} handoffs, newest first — use mm_handoff_get for the full document`,
+  };
+}
@@ -1,9 +1,54 @@
-import { getLatestHandoff } from "../db.js";
+import { listHandoffs, countHandoffs, acceptHandoff, takeOverHandoff, getHandoff } from "../db.js";
+import { getAgentIdentity } from "../config.js";
+import { getCurrentSessionId } from "../metrics.js";
 
-export async function handleMmHandoffLoad(): Promise<Record<string, unknown>> {
-  const handoff = getLatestHandoff();
-  if (!handoff) {
-    return { success: false, message: "No handoff found" };
+/**
+ * Take the newest unaccepted handoff addressed to this agent — by name, by one
+ * of its roles, or to anyone. Accepting it removes it from other agents' queues.
+ * A handoff this agent accepted and is still working on comes back first, so
+ * a restarted agent picks up where it was. Without an --agent name that
+ * identity is only the session, so an unnamed agent instead takes over work
+ * left in progress by sessions that have since ended.
+ */
+export async function handleMmHandoffLoad(args: {
+  target?: string;
+  accept?: boolean;
+} = {}): Promise<Record<string, unknown>> {
+  const identity = getAgentIdentity();
+  const targets = args.target ? [args.target] : [identity.name, ...identity.roles].filter((t): t is string => Boolean(t));
+  const acceptedBy = identity.name ?? getCurrentSessionId() ?? "unknown";
+  const accept = args.accept ?? true;
+
+  const queue = { targets, include_untargeted: true, accepted: false, states: ["open" as const] };
+
+  const [resumed] = listHandoffs({ targets, include_untargeted: true, accepted_by: acceptedBy, states: ["in_progress"] }, 1);
+  if (resumed) {
+    return { success: true, handoff: resumed, accepted: true, resumed: true, pending: countHandoffs(queue) };
+  }
+
+  if (!identity.name && accept) {
+    const orphaned = { targets, include_untargeted: true, accepted_by_ended_session: true, states: ["in_progress" as const] };
+    // Another session can take it over between our read and write — re-read until none are left
+    for (let candidates = listHandoffs(orphaned, 10); candidates.length > 0; candidates = listHandoffs(orphaned, 10)) {
+      for (const candidate of candidates) {
+        if (!takeOverHandoff(candidate.id, candidate.accepted_by!, acceptedBy)) continue;
+        return { success: true, handoff: getHandoff(candidate.id), accepted: true, resumed: true, pending: countHandoffs(queue) };
+      }
+    }
+  }
+
+  // Another agent can accept between our read and write — re-read until the queue is empty
+  for (let candidates = listHandoffs(queue, 10); candidates.length > 0; candidates = listHandoffs(queue, 10)) {
+    for (const candidate of candidates) {
+      if (accept && !acceptHandoff(candidate.id, acceptedBy)) continue;
+      return {
+        success: true,
+        handoff: accept ? getHandoff(candidate.id) : candidate,
+        accepted: accept,
+        // Still waiting after this one
+        pending: countHandoffs(queue) - (accept ? 0 : 1),
+      };
+    }
   }
-  return { success: true, handoff };
+  return { success: false, message: "No handoff found" };
 }
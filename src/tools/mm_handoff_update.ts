@@ -0,0 +1,48 @@
+import { getHandoff, updateHandoffProgress } from "../db.js";
+import { applyCheckoff, getHandoffProgress } from "../handoffs.js";
+import type { HandoffState } from "../types.js";
+
+/** Record progress on a handoff: its state, and which stop conditions and unknowns are done. */
+export async function handleMmHandoffUpdate(args: {
+  id: string;
+  state?: HandoffState;
+  current_state?: string;
+  next_action?: string;
+  meet_stop_conditions?: number[];
+  unmeet_stop_conditions?: number[];
+  resolve_unknowns?: number[];
+  unresolve_unknowns?: number[];
+}): Promise<Record<string, unknown>> {
+  const existing = getHandoff(args.id);
+  if (!existing) {
+    return { success: false, message: "Handoff not found" };
+  }
+
+  const met = applyCheckoff(existing.met_stop_conditions, existing.stop_conditions.length, args.meet_stop_conditions, args.unmeet_stop_conditions);
+  if (!Array.isArray(met)) {
+    return { success: false, message: `No stop condition at index ${met.invalid} (handoff has ${existing.stop_conditions.length})` };
+  }
+  const resolved = applyCheckoff(existing.resolved_unknowns, existing.known_unknowns.length, args.resolve_unknowns, args.unresolve_unknowns);
+  if (!Array.isArray(resolved)) {
+    return { success: false, message: `No known unknown at index ${resolved.invalid} (handoff has ${existing.known_unknowns.length})` };
+  }
+
+  const handoff = updateHandoffProgress(args.id, {
+    state: args.state,
+    current_state: args.current_state,
+    next_action: args.next_action,
+    met_stop_conditions: met,
+    resolved_unknowns: resolved,
+  })!;
+  const progress = getHandoffProgress(handoff);
+  const allMet = progress.stop_conditions_total > 0 && progress.stop_conditions_met === progress.stop_conditions_total;
+
+  return {
+    success: true,
+    handoff,
+    progress,
+    message: allMet && handoff.state !== "done"
+      ? `${progress.summary} — set state to "done" when the work is finished`
+      : `Handoff ${handoff.state}: ${progress.summary}`,
+  };
+}
@@ -0,0 +1,22 @@
+import { getMemoryHistory } from "../history.js";
+
+export async function handleMmHistory(args: {
+  id: string;
+  limit?: number;
+}): Promise<Record<string, unknown>> {
+  const history = getMemoryHistory(args.id);
+  if (!history) {
+    return { success: false, message: "Memory not found" };
+  }
+
+  const revisions = history.slice(0, args.limit ?? 20);
+  return {
+    success: true,
+    id: args.id,
+    total: history.length,
+    revisions,
+    message: history.length === 1
+      ? "Memory has not been edited"
+      : `${history.length} revisions, newest first — pass a version to mm_revert to restore it`,
+  };
+}
@@ -0,0 +1,25 @@
+import { existsSync } from "node:fs";
+import { importVault, resolveTransferPath } from "../vault_transfer.js";
+
+export async function handleMmImport(args: {
+  path: string;
+}): Promise<Record<string, unknown>> {
+  let path: string;
+  try {
+    path = resolveTransferPath(args.path);
+  } catch (err) {
+    return { success: false, message: err instanceof Error ? err.message : String(err) };
+  }
+  if (!existsSync(path)) {
+    return { success: false, message: `File not found: ${args.path}` };
+  }
+
+  const report = await importVault(path);
+  const { imported, remapped, skipped, limit_skipped } = report.memories;
+
+  return {
+    success: true,
+    report,
+    message: `Imported ${imported} memories (${remapped} remapped, ${skipped} duplicates skipped${limit_skipped > 0 ? `, ${limit_skipped} over free tier limit` : ""})`,
+  };
+}
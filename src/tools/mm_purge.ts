@@ -0,0 +1,34 @@
+import { getRetentionConfig } from "../config.js";
+import { getRetentionCutoffs, runRetentionPass } from "../retention.js";
+
+/**
+ * Hard-delete what the retention policy has expired. Per-call day counts
+ * override the configured TTLs — here 0 means "everything", not "never".
+ */
+export async function handleMmPurge(args: {
+  dry_run?: boolean;
+  archived_days?: number;
+  diagnostics_days?: number;
+  events_days?: number;
+  compact?: boolean;
+}): Promise<Record<string, unknown>> {
+  const config = getRetentionConfig();
+  const now = Date.now();
+  const cutoffs = getRetentionCutoffs(config, now);
+  const at = (days: number): string => new Date(now - days * 24 * 60 * 60 * 1000).toISOString();
+  if (args.archived_days !== undefined) cutoffs.archived_before = at(args.archived_days);
+  if (args.diagnostics_days !== undefined) cutoffs.diagnostics_before = at(args.diagnostics_days);
+  if (args.events_days !== undefined) cutoffs.events_before = at(args.events_days);
+
+  const report = runRetentionPass({ cutoffs, dry_run: args.dry_run, compact: args.compact ?? false }, now);
+  const { counts } = report;
+  const summary = `${counts.memories} archived memories, ${counts.diagnostics} diagnostics, ${counts.session_events} session events, ${counts.token_estimates} token estimates`;
+
+  return {
+    success: true,
+    ...report,
+    message: report.dry_run
+      ? `Would purge ${summary}`
+      : `Purged ${summary}${report.compacted ? ` — database ${report.size_before_bytes} → ${report.size_after_bytes} bytes` : ""}`,
+  };
+}
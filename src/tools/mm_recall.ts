@@ -1,82 +1,137 @@
-import { searchMemoriesFTS, getAllMemories } from "../db.js";
-import { embed, isModelReady } from "../embeddings.js";
+import { searchMemoriesFTSRanked, getMemoriesByIds, hasForeignEmbeddings } from "../db.js";
+import { isModelReady, getModelName } from "../embeddings.js";
+import { embedQuery } from "../embedding_cache.js";
 import { getVectorStore } from "../vector_store.js";
-import type { MemoryType, MemoryTier } from "../types.js";
+import { parseQuery, mergeFilters, toSemanticText, normalizeDate, toJsonPath } from "../query_parser.js";
+import { rankCandidates, type RankCandidate } from "../ranking.js";
+import { searchChunks, mergeSemanticResults, buildSnippet } from "../chunking.js";
+import { expandLinks, type LinkedMemory } from "../links.js";
+import type { RecallFilters, MetadataPredicate } from "../query_parser.js";
+import type { RankingStrategy, RankingWeights } from "../config.js";
+import type { Memory, MemoryType, MemoryTier } from "../types.js";
 
-export async function handleMmRecall(args: {
+export type RecallArgs = {
   query: string;
   limit?: number;
   tier?: MemoryTier;
   type?: MemoryType;
-}): Promise<{ success: boolean; results: Array<Record<string, unknown>>; count: number }> {
+  advanced?: boolean;
+  tags?: string[];
+  tags_mode?: "any" | "all";
+  after?: string;
+  before?: string;
+  updated_after?: string;
+  updated_before?: string;
+  metadata?: MetadataPredicate[];
+  ranking?: RankingStrategy;
+  weights?: Partial<RankingWeights>;
+  explain?: boolean;
+  expand_links?: boolean;
+  include_superseded?: boolean;
+};
+
+/** Translate recall parameters into SQL-level filters. Throws on invalid dates or metadata paths. */
+function filtersFromArgs(args: RecallArgs): RecallFilters {
+  const filters: RecallFilters = {};
+  // A memory some live memory supersedes is out of date — hidden unless asked for
+  if (!args.include_superseded) filters.exclude_superseded = true;
+  if (args.tier) filters.tiers = [args.tier];
+  if (args.type) filters.types = [args.type];
+  if (args.tags && args.tags.length > 0) {
+    if (args.tags_mode === "all") filters.tags = args.tags;
+    else filters.tags_any = args.tags;
+  }
+  for (const key of ["after", "before", "updated_after", "updated_before"] as const) {
+    const value = args[key];
+    if (value) filters[key] = normalizeDate(value, key);
+  }
+  if (args.metadata && args.metadata.length > 0) {
+    for (const predicate of args.metadata) toJsonPath(predicate.path);
+    filters.metadata = args.metadata;
+  }
+  return filters;
+}
+
+export async function handleMmRecall(
+  args: RecallArgs
+): Promise<{ success: boolean; results: Array<Record<string, unknown>>; count: number; linked?: LinkedMemory[]; message?: string }> {
   const limit = args.limit ?? 10;
   const fetchLimit = limit * 2;
 
-  // FTS5 keyword search
-  const ftsResults = searchMemoriesFTS(args.query, fetchLimit);
+  // Free text is always escaped; advanced syntax (phrases, tag:, type:, ...) is opt-in
+  const parsed = parseQuery(args.query, args.advanced ?? false);
+  let filters: RecallFilters;
+  try {
+    filters = mergeFilters(parsed.filters, filtersFromArgs(args));
+  } catch (err) {
+    return { success: false, results: [], count: 0, message: err instanceof Error ? err.message : String(err) };
+  }
 
-  // Build FTS score map (rank by position, normalized 0-1)
-  const ftsScoreMap = new Map<string, number>();
-  ftsResults.forEach((mem, i) => {
-    ftsScoreMap.set(mem.id, 1 - i / Math.max(ftsResults.length, 1));
-  });
+  // FTS5 keyword search — filters are applied in SQL before ranking
+  const ftsResults = searchMemoriesFTSRanked(parsed, fetchLimit, filters);
 
   // Semantic search via VectorStore abstraction
-  const semanticScoreMap = new Map<string, number>();
-  const queryEmbedding = await embed(args.query);
-
-  if (queryEmbedding) {
-    const store = getVectorStore(args.tier);
-    const vectorResults = store.search(queryEmbedding, fetchLimit);
-    for (const { id, score } of vectorResults) {
-      semanticScoreMap.set(id, score);
-    }
-  }
-
-  // Merge: collect all unique IDs
-  const allIds = new Set([...ftsScoreMap.keys(), ...semanticScoreMap.keys()]);
-  const scored: Array<{ id: string; score: number }> = [];
+  const semanticText = args.advanced ? toSemanticText(parsed) : args.query;
+  const queryEmbedding = semanticText.trim() ? await embedQuery(semanticText) : null;
+  // Filters constrain the vector candidates too, so a filtered recall still fills its limit.
+  // Vectors from another model live in a different space — only compare like with like.
+  const model = getModelName();
+  const vectorFilters = queryEmbedding && hasForeignEmbeddings(model) ? { ...filters, embedding_model: model } : filters;
+  const vectorResults = queryEmbedding
+    ? getVectorStore().search(queryEmbedding, fetchLimit, vectorFilters)
+    : [];
+  // Long memories are also scored by their best passage
+  const semanticResults = queryEmbedding
+    ? mergeSemanticResults(vectorResults, searchChunks(queryEmbedding, fetchLimit, filters, model)).slice(0, fetchLimit)
+    : [];
+  const matchedChunks = new Map(semanticResults.filter((r) => r.chunk).map((r) => [r.id, r.chunk!]));
 
-  for (const id of allIds) {
-    const ftsScore = ftsScoreMap.get(id) ?? 0;
-    const semScore = semanticScoreMap.get(id) ?? 0;
+  // Merge both candidate lists, keeping each retriever's score and 1-based rank
+  const candidates = new Map<string, RankCandidate>();
+  ftsResults.forEach(({ memory, bm25 }, i) => {
+    candidates.set(memory.id, { memory, semantic: null, semantic_rank: null, bm25, keyword_rank: i + 1 });
+  });
 
-    // Hybrid weighting: semantic 0.7, keyword 0.3
-    const combinedScore = isModelReady()
-      ? semScore * 0.7 + ftsScore * 0.3
-      : ftsScore; // FTS-only fallback
+  // Resolve semantic-only rows (re-checking filters for stores that can't apply them exactly)
+  const semanticOnly = semanticResults.map((r) => r.id).filter((id) => !candidates.has(id));
+  const resolved = new Map<string, Memory>(getMemoriesByIds(semanticOnly, filters).map((m) => [m.id, m]));
+  semanticResults.forEach(({ id, score }, i) => {
+    const existing = candidates.get(id);
+    if (existing) {
+      existing.semantic = score;
+      existing.semantic_rank = i + 1;
+      return;
+    }
+    const memory = resolved.get(id);
+    if (memory) candidates.set(id, { memory, semantic: score, semantic_rank: i + 1, bm25: null, keyword_rank: null });
+  });
 
-    scored.push({ id, score: combinedScore });
-  }
+  const ranked = rankCandidates([...candidates.values()], {
+    strategy: args.ranking,
+    weights: args.weights,
+    semanticAvailable: isModelReady(),
+  });
 
-  scored.sort((a, b) => b.score - a.score);
-  const topIds = scored.slice(0, limit);
+  const results = ranked.slice(0, limit).map(({ memory: mem, score, breakdown }) => {
+    const chunk = matchedChunks.get(mem.id);
+    return {
+      id: mem.id,
+      title: mem.title,
+      content: mem.content,
+      // The passage that matched, when a chunk of a long memory scored best
+      ...(chunk ? { snippet: buildSnippet(mem.content, chunk, semanticText) } : {}),
+      type: mem.type,
+      // Four decimals keep RRF scores (~1/60) distinguishable
+      score: Math.round(score * 10000) / 10000,
+      tags: mem.tags,
+      created_at: mem.created_at,
+      ...(args.explain ? { explain: breakdown } : {}),
+    };
+  });
 
-  // Build result objects from FTS results + all memories
-  const allMemMap = new Map<string, typeof ftsResults[number]>();
-  for (const mem of ftsResults) allMemMap.set(mem.id, mem);
-  if (queryEmbedding) {
-    const allMems = getAllMemories(args.tier, 1000);
-    for (const mem of allMems) allMemMap.set(mem.id, mem);
+  if (args.expand_links) {
+    const linked = expandLinks(results.map((r) => r.id), { hideSuperseded: !args.include_superseded });
+    return { success: true, results, count: results.length, linked };
   }
-
-  const results = topIds
-    .map(({ id, score }) => {
-      const mem = allMemMap.get(id);
-      if (!mem) return null;
-      // Filter by type if specified
-      if (args.type && mem.type !== args.type) return null;
-      return {
-        id: mem.id,
-        title: mem.title,
-        content: mem.content,
-        type: mem.type,
-        score: Math.round(score * 1000) / 1000,
-        tags: mem.tags,
-        created_at: mem.created_at,
-      };
-    })
-    .filter((r): r is NonNullable<typeof r> => r !== null);
-
   return { success: true, results, count: results.length };
 }
@@ -0,0 +1,24 @@
+import { getVectorIndexStatus, repairVectorIndex } from "../vector_integrity.js";
+
+export async function handleMmReindex(args: {
+  full?: boolean;
+  dry_run?: boolean;
+}): Promise<Record<string, unknown>> {
+  if (args.dry_run) {
+    const status = getVectorIndexStatus();
+    if (!status) {
+      return { success: true, in_sync: true, message: "Vector search reads memory.db directly — nothing to reindex" };
+    }
+    return { success: true, ...status, message: status.in_sync ? "Vector index is in sync" : "Vector index has drifted — run without dry_run to repair" };
+  }
+
+  const report = repairVectorIndex({ full: args.full });
+  if (!report) {
+    return { success: true, in_sync: true, message: "Vector search reads memory.db directly — nothing to reindex" };
+  }
+  return {
+    success: true,
+    ...report,
+    message: `Reindexed ${report.backend}: ${report.upserted} upserted, ${report.deleted} removed`,
+  };
+}
@@ -0,0 +1,27 @@
+import crypto from "node:crypto";
+import { releaseResource, releaseAllClaims } from "../db.js";
+import { getCurrentSessionId } from "../metrics.js";
+
+export async function handleMmRelease(args: {
+  resources?: string[];
+  all?: boolean;
+}): Promise<Record<string, unknown>> {
+  const sessionId = getCurrentSessionId() ?? crypto.randomUUID();
+
+  if (args.all) {
+    const count = releaseAllClaims(sessionId);
+    return { success: true, released: count, message: `Released ${count} claim(s)` };
+  }
+  if (!args.resources || args.resources.length === 0) {
+    return { success: false, message: "Pass resources to release, or all: true" };
+  }
+
+  const released = args.resources.filter((resource) => releaseResource(sessionId, resource));
+  const notHeld = args.resources.filter((resource) => !released.includes(resource));
+  return {
+    success: true,
+    released: released.length,
+    ...(notHeld.length > 0 ? { not_held: notHeld } : {}),
+    message: `Released ${released.length} claim(s)${notHeld.length > 0 ? `; not held by this session: ${notHeld.join(", ")}` : ""}`,
+  };
+}
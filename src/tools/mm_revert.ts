@@ -0,0 +1,56 @@
+import { getMemoryVersion, updateMemory } from "../db.js";
+import { embeddingToBuffer, getModelName } from "../embeddings.js";
+import { embedText } from "../embedding_cache.js";
+import { getVectorStore } from "../vector_store.js";
+import { embedMemoryChunks } from "../chunking.js";
+
+/**
+ * Restore a memory to a prior version. The revert is itself an edit, so the
+ * state it replaces becomes the newest version and can be restored in turn.
+ */
+export async function handleMmRevert(args: {
+  id: string;
+  version: number;
+}): Promise<Record<string, unknown>> {
+  const version = getMemoryVersion(args.id, args.version);
+  if (!version) {
+    return { success: false, message: `Version ${args.version} of memory ${args.id} not found — see mm_history` };
+  }
+
+  const embedding = await embedText(`${version.title} ${version.content}`);
+  const updated = updateMemory(args.id, {
+    type: version.type,
+    title: version.title,
+    content: version.content,
+    tags: version.tags,
+    metadata: version.metadata,
+    embedding: embedding ? embeddingToBuffer(embedding) : null,
+    embedding_model: embedding ? getModelName() : null,
+  });
+  if (!updated) {
+    return { success: false, message: "Memory not found" };
+  }
+
+  // Dual-write to vector store (no-op on BruteForceStore)
+  if (embedding) {
+    getVectorStore().upsert(updated.id, embedding);
+  } else {
+    getVectorStore().delete(updated.id);
+  }
+  await embedMemoryChunks(updated);
+
+  return {
+    success: true,
+    reverted_to: args.version,
+    memory: {
+      id: updated.id,
+      type: updated.type,
+      title: updated.title,
+      content: updated.content,
+      tags: updated.tags,
+      tier: updated.tier,
+      updated_at: updated.updated_at,
+    },
+    message: `Reverted "${updated.title}" to version ${args.version}`,
+  };
+}
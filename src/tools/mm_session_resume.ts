@@ -1,4 +1,5 @@
-import { listSessions, getLatestHandoff, getSessionDiagnostics, getActiveSessions, getRecentEvents, getSessionEvents } from "../db.js";
+import { listSessions, getLatestHandoff, listHandoffs, getSessionDiagnostics, getActiveSessions, getRecentEvents, getSessionEvents } from "../db.js";
+import { OUTSTANDING_HANDOFF_STATES, getHandoffProgress } from "../handoffs.js";
 
 export async function handleMmSessionResume(args: {
   limit?: number;
@@ -11,6 +12,18 @@ export async function handleMmSessionResume(args: {
   // Get the latest handoff
   const handoff = getLatestHandoff();
 
+  // Handoffs nobody has finished or abandoned yet
+  const outstanding = listHandoffs({ states: OUTSTANDING_HANDOFF_STATES }, 10).map((h) => ({
+    id: h.id,
+    goal: h.goal,
+    state: h.state,
+    next_action: h.next_action,
+    target: h.target,
+    accepted_by: h.accepted_by,
+    progress: getHandoffProgress(h).summary,
+    created_at: h.created_at,
+  }));
+
   // Build formatted summary
   const sessionSummaries = sessions.map((s) => {
     const diag = getSessionDiagnostics(s.id);
@@ -49,10 +62,11 @@ export async function handleMmSessionResume(args: {
     success: true,
     sessions: sessionSummaries,
     latest_handoff: handoff ?? null,
+    outstanding_handoffs: outstanding,
     concurrent_sessions: activeSessions.length,
     recent_activity: recentActivity,
-    message: sessions.length > 0
+    message: `${sessions.length > 0
       ? `Found ${sessions.length} recent session(s)${activeSessions.length > 1 ? ` (${activeSessions.length} currently active)` : ""}`
-      : "No previous sessions found",
+      : "No previous sessions found"}${outstanding.length > 0 ? `; ${outstanding.length} outstanding handoff(s)` : ""}`,
   };
 }
@@ -1,7 +1,9 @@
-import { getMemoryStats, getActiveSessions, getActiveClaims, getRecentEvents } from "../db.js";
+import { getMemoryStats, getActiveSessions, getActiveClaims, getRecentEvents, getEmbeddingModelCounts, getChunkStats } from "../db.js";
 import { getHealthScore } from "../diagnostics.js";
-import { isModelReady } from "../embeddings.js";
+import { isModelReady, getEmbeddingProvider, TransformersProvider } from "../embeddings.js";
 import { isProTier, checkStoreLimits } from "../license.js";
+import { getVectorManifestStatus } from "../vector_integrity.js";
+import { getReembedStatus } from "../reembed.js";
 
 const startTime = Date.now();
 
@@ -9,6 +11,8 @@ export async function handleMmStatus(): Promise<Record<string, unknown>> {
   const stats = getMemoryStats();
   const healthScore = getHealthScore();
   const uptimeSeconds = Math.floor((Date.now() - startTime) / 1000);
+  const provider = getEmbeddingProvider();
+  const embeddingModels = getEmbeddingModelCounts();
 
   // Coordination info
   const activeSessions = getActiveSessions().map((s) => ({
@@ -36,6 +40,22 @@ export async function handleMmStatus(): Promise<Record<string, unknown>> {
     db_stats: stats,
     health_score: healthScore,
     embedding_model_ready: isModelReady(),
+    embedding_provider: {
+      id: provider.id,
+      dimensions: provider.dimensions,
+      // Local models: where the files are read from and any pending load retry
+      ...(provider instanceof TransformersProvider ? provider.getLoadState() : {}),
+    },
+    // More than one model means recall only searches the active model's vectors
+    embedding_models: embeddingModels,
+    mixed_embedding_models: Object.keys(embeddingModels).length > 1,
+    // Long memories embedded passage by passage
+    chunks: getChunkStats(),
+    // Memories waiting for an embedding from the active model
+    reembed: getReembedStatus(),
+    // null when search reads vectors from memory.db, which can't drift. Manifest
+    // counts only — mm_reindex with dry_run verifies every vector's checksum
+    vector_index: getVectorManifestStatus(),
     uptime_seconds: uptimeSeconds,
     active_sessions: activeSessions,
     active_claims: activeClaims,
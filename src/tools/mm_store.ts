@@ -1,7 +1,13 @@
-import { insertMemory } from "../db.js";
-import { embed, embeddingToBuffer } from "../embeddings.js";
+import { insertMemory, addMemoryLinks } from "../db.js";
+import { embeddingToBuffer, getModelName } from "../embeddings.js";
+import { embedText } from "../embedding_cache.js";
 import { checkStoreLimits } from "../license.js";
 import { getVectorStore } from "../vector_store.js";
+import { embedMemoryChunks } from "../chunking.js";
+import { findDuplicate, mergeIntoMemory } from "../dedupe.js";
+import { findMissingLinkTargets, type LinkInput } from "../links.js";
+import { getDedupeConfig } from "../config.js";
+import type { DuplicatePolicy } from "../config.js";
 import type { MemoryType } from "../types.js";
 
 export async function handleMmStore(args: {
@@ -10,20 +16,81 @@ export async function handleMmStore(args: {
   type?: MemoryType;
   tags?: string[];
   metadata?: Record<string, unknown>;
-}): Promise<{ success: boolean; id?: string; message?: string }> {
-  // Enforce free tier limits
-  const limits = checkStoreLimits();
-  if (!limits.allowed) {
-    return { success: false, message: limits.message };
-  }
-
+  on_duplicate?: DuplicatePolicy;
+  links?: LinkInput[];
+}): Promise<{
+  success: boolean;
+  /** false when a near-duplicate's id was returned instead of storing */
+  stored?: boolean;
+  id?: string;
+  message?: string;
+  duplicate_of?: string;
+  similarity?: number;
+  merged?: boolean;
+}> {
   const type = args.type ?? "raw";
   const tags = args.tags ?? [];
   const metadata = args.metadata ?? {};
+  const links = args.links ?? [];
+
+  const missing = findMissingLinkTargets(links);
+  if (missing.length > 0) {
+    return { success: false, message: `Link target not found: ${missing.join(", ")}` };
+  }
 
-  const embedding = await embed(`${args.title} ${args.content}`);
+  const embedding = await embedText(`${args.title} ${args.content}`);
   const embeddingBuf = embedding ? embeddingToBuffer(embedding) : null;
 
+  // Near-duplicates are resolved before the limit check — they don't add a memory
+  const dedupe = getDedupeConfig();
+  const policy = args.on_duplicate ?? dedupe.policy;
+  let duplicate = embedding && policy !== "allow" ? findDuplicate(embedding, dedupe.threshold) : null;
+  // Linking to the match (e.g. superseding it) means the new memory is meant to stand beside it
+  if (duplicate && links.some((l) => l.target_id === duplicate!.memory.id)) duplicate = null;
+  let unmergedNote = "";
+  if (duplicate) {
+    const { memory: existing, similarity } = duplicate;
+    if (policy === "reject") {
+      return {
+        success: false,
+        duplicate_of: existing.id,
+        similarity,
+        message: `Near-duplicate of "${existing.title}" (${existing.id}, similarity ${similarity}) — not stored`,
+      };
+    }
+    if (policy === "return") {
+      addMemoryLinks(existing.id, links);
+      return {
+        success: true,
+        stored: false,
+        id: existing.id,
+        duplicate_of: existing.id,
+        similarity,
+        message: `Near-duplicate of existing memory: ${existing.title} — not stored, returning its id`
+          + (links.length > 0 ? `; its links were added to that memory` : ""),
+      };
+    }
+    const result = await mergeIntoMemory(existing.id, [{ content: args.content, tags }]);
+    if (result && result.unmerged.length === 0) {
+      addMemoryLinks(result.memory.id, links);
+      return {
+        success: true,
+        id: result.memory.id,
+        duplicate_of: result.memory.id,
+        similarity,
+        merged: true,
+        message: `Merged into existing memory: ${result.memory.title}`,
+      };
+    }
+    // The match is gone, or the content would push it past the size cap — store it on its own
+    if (result) unmergedNote = ` (too large to merge into near-duplicate "${existing.title}")`;
+  }
+  // Enforce free tier limits
+  const limits = checkStoreLimits();
+  if (!limits.allowed) {
+    return { success: false, message: limits.message };
+  }
+
   const memory = insertMemory({
     type,
     title: args.title,
@@ -31,13 +98,17 @@ export async function handleMmStore(args: {
     tags,
     metadata,
     embedding: embeddingBuf,
+    embedding_model: embedding ? getModelName() : null,
     tier: "hot",
   });
+  addMemoryLinks(memory.id, links);
 
   // Dual-write to vector store (no-op on BruteForceStore)
   if (embedding) {
     getVectorStore().upsert(memory.id, embedding);
+    // Long content: one embedding per passage, so all of it is searchable
+    await embedMemoryChunks(memory);
   }
 
-  return { success: true, id: memory.id, message: `Memory stored: ${memory.title}` };
+  return { success: true, id: memory.id, message: `Memory stored: ${memory.title}${unmergedNote}` };
 }
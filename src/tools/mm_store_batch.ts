@@ -0,0 +1,144 @@
+import { insertMemory, runInTransaction } from "../db.js";
+import { embeddingToBuffer, getModelName } from "../embeddings.js";
+import { embedTexts } from "../embedding_cache.js";
+import { getStoreQuota } from "../license.js";
+import { getVectorStore } from "../vector_store.js";
+import { embedMemoryChunks } from "../chunking.js";
+import { findDuplicate, mergeIntoMemory } from "../dedupe.js";
+import { getDedupeConfig } from "../config.js";
+import type { DuplicatePolicy } from "../config.js";
+import type { Memory, MemoryType } from "../types.js";
+
+export type StoreBatchItem = {
+  title: string;
+  content: string;
+  type?: MemoryType;
+  tags?: string[];
+  metadata?: Record<string, unknown>;
+};
+
+export type StoreBatchResult = {
+  index: number;
+  success: boolean;
+  /** false when a near-duplicate's id was returned instead of storing */
+  stored?: boolean;
+  id?: string;
+  message?: string;
+  duplicate_of?: string;
+  similarity?: number;
+  merged?: boolean;
+};
+
+/**
+ * Store many memories in one call: embeddings are computed in batched model
+ * calls and every insert runs in a single transaction. Each item succeeds or
+ * fails on its own — free-tier limits refuse only the items past the quota.
+ * Near-duplicates are handled per item as mm_store does, matched against the
+ * vault as it stood before the batch.
+ */
+export async function handleMmStoreBatch(args: {
+  memories: StoreBatchItem[];
+  on_duplicate?: DuplicatePolicy;
+}): Promise<Record<string, unknown>> {
+  const quota = getStoreQuota();
+  const dedupe = getDedupeConfig();
+  const policy = args.on_duplicate ?? dedupe.policy;
+  const results: StoreBatchResult[] = args.memories.map((_, index) => ({ index, success: false }));
+
+  // Every item may turn out a duplicate, so only skip embedding past the quota when none can
+  const candidates = policy === "allow" ? args.memories.slice(0, quota.remaining) : args.memories;
+  const vectors = await embedTexts(candidates.map((item) => `${item.title} ${item.content}`));
+  const model = getModelName();
+
+  // Near-duplicates are resolved before the quota — they don't add a memory
+  const pending: number[] = [];
+  let duplicates = 0;
+  for (let index = 0; index < candidates.length; index++) {
+    const vector = vectors[index];
+    const duplicate = vector && policy !== "allow" ? findDuplicate(vector, dedupe.threshold) : null;
+    if (!duplicate) {
+      pending.push(index);
+      continue;
+    }
+    const { memory: existing, similarity } = duplicate;
+    if (policy === "reject") {
+      duplicates++;
+      results[index] = {
+        index,
+        success: false,
+        duplicate_of: existing.id,
+        similarity,
+        message: `Near-duplicate of "${existing.title}" (${existing.id}, similarity ${similarity}) — not stored`,
+      };
+      continue;
+    }
+    if (policy === "return") {
+      duplicates++;
+      results[index] = { index, success: true, stored: false, id: existing.id, duplicate_of: existing.id, similarity };
+      continue;
+    }
+    const item = candidates[index];
+    const merged = await mergeIntoMemory(existing.id, [{ content: item.content, tags: item.tags ?? [] }]);
+    if (merged && merged.unmerged.length === 0) {
+      duplicates++;
+      results[index] = { index, success: true, id: merged.memory.id, duplicate_of: merged.memory.id, similarity, merged: true };
+      continue;
+    }
+    // The match is gone, or the content would push it past the size cap — store it on its own
+    pending.push(index);
+  }
+
+  const accepted = pending.slice(0, quota.remaining);
+  const stored: Array<{ memory: Memory; vector: Float32Array | null }> = [];
+  runInTransaction(() => {
+    for (const index of accepted) {
+      const item = candidates[index];
+      const vector = vectors[index];
+      try {
+        const memory = insertMemory({
+          type: item.type ?? "raw",
+          title: item.title,
+          content: item.content,
+          tags: item.tags ?? [],
+          metadata: item.metadata ?? {},
+          embedding: vector ? embeddingToBuffer(vector) : null,
+          embedding_model: vector ? model : null,
+          tier: "hot",
+        });
+        stored.push({ memory, vector });
+        results[index] = { index, success: true, id: memory.id };
+      } catch (err) {
+        // insertMemory's own transaction is a savepoint here — only this item rolls back
+        results[index] = { index, success: false, message: err instanceof Error ? err.message : String(err) };
+      }
+    }
+  });
+
+  // Past the quota — including items never embedded because of it
+  const refused = pending.slice(accepted.length);
+  for (let index = candidates.length; index < args.memories.length; index++) refused.push(index);
+  for (const index of refused) {
+    results[index] = { index, success: false, message: quota.limit_message };
+  }
+
+  // Dual-write to vector store (no-op on BruteForceStore), then passages of long memories
+  for (const { memory, vector } of stored) {
+    if (!vector) continue;
+    getVectorStore().upsert(memory.id, vector);
+    await embedMemoryChunks(memory, model);
+  }
+
+  const failed = results.filter((r) => !r.success).length;
+  const outcome = policy === "merge" ? "merged" : policy === "return" ? "not stored" : "rejected";
+  return {
+    success: failed < results.length || args.memories.length === 0,
+    stored: stored.length,
+    failed,
+    duplicates,
+    results,
+    message: (failed > 0
+      ? `Stored ${stored.length} of ${results.length} memories`
+      : `Stored ${stored.length} memories`)
+      + (duplicates > 0 ? ` — ${duplicates} near-duplicate(s) ${outcome}` : ""),
+  };
+}
@@ -1,6 +1,9 @@
-import { updateMemory } from "../db.js";
-import { embed, embeddingToBuffer } from "../embeddings.js";
+import { updateMemory, addMemoryLinks, removeMemoryLinks } from "../db.js";
+import { embeddingToBuffer, getModelName } from "../embeddings.js";
+import { embedText } from "../embedding_cache.js";
 import { getVectorStore } from "../vector_store.js";
+import { embedMemoryChunks } from "../chunking.js";
+import { findMissingLinkTargets, type LinkInput } from "../links.js";
 import type { MemoryType, MemoryTier } from "../types.js";
 
 export async function handleMmUpdate(args: {
@@ -11,7 +14,17 @@ export async function handleMmUpdate(args: {
   tags?: string[];
   metadata?: Record<string, unknown>;
   tier?: MemoryTier;
+  links?: LinkInput[];
+  remove_links?: LinkInput[];
 }): Promise<Record<string, unknown>> {
+  const missing = findMissingLinkTargets(args.links ?? []);
+  if (missing.length > 0) {
+    return { success: false, message: `Link target not found: ${missing.join(", ")}` };
+  }
+  if (args.links?.some((l) => l.target_id === args.id)) {
+    return { success: false, message: "A memory cannot link to itself" };
+  }
+
   const updates: Record<string, unknown> = {};
   if (args.title !== undefined) updates.title = args.title;
   if (args.content !== undefined) updates.content = args.content;
@@ -24,9 +37,10 @@ export async function handleMmUpdate(args: {
   let newEmbedding: Float32Array | null = null;
   if (args.content !== undefined) {
     const text = `${args.title ?? ""} ${args.content}`;
-    newEmbedding = await embed(text);
+    newEmbedding = await embedText(text);
     if (newEmbedding) {
       updates.embedding = embeddingToBuffer(newEmbedding);
+      updates.embedding_model = getModelName();
     }
   }
 
@@ -35,10 +49,17 @@ export async function handleMmUpdate(args: {
     return { success: false, message: "Memory not found" };
   }
 
+  const linksAdded = args.links ? addMemoryLinks(args.id, args.links) : 0;
+  const linksRemoved = args.remove_links ? removeMemoryLinks(args.id, args.remove_links) : 0;
+
   // Dual-write to vector store (no-op on BruteForceStore)
   if (newEmbedding) {
     getVectorStore().upsert(args.id, newEmbedding);
   }
+  // The update cleared any chunk embeddings; left unembedded, the re-embed worker retries
+  if (args.title !== undefined || args.content !== undefined) {
+    await embedMemoryChunks(updated);
+  }
 
   return {
     success: true,
@@ -51,5 +72,6 @@ export async function handleMmUpdate(args: {
       tier: updated.tier,
       updated_at: updated.updated_at,
     },
+    ...(args.links || args.remove_links ? { links_added: linksAdded, links_removed: linksRemoved } : {}),
   };
 }
@@ -10,6 +10,8 @@ export interface Memory {
   tags: string[];
   metadata: Record<string, unknown>;
   embedding: Buffer | null;
+  /** "<provider>:<model>" that produced embedding */
+  embedding_model: string | null;
   tier: MemoryTier;
   created_at: string;
   updated_at: string;
@@ -18,6 +20,33 @@ export interface Memory {
   decay_score: number;
 }
 
+/** A memory as it was before an edit replaced it */
+export interface MemoryVersion {
+  memory_id: string;
+  version: number;
+  type: MemoryType;
+  title: string;
+  content: string;
+  tags: string[];
+  metadata: Record<string, unknown>;
+  /** When this version was written */
+  created_at: string;
+  /** When the next edit replaced it */
+  replaced_at: string;
+}
+
+export type LinkType = "supersedes" | "relates_to" | "caused_by" | "fixes" | "derived_from";
+
+/** A directed, typed edge: source <type> target */
+export interface MemoryLink {
+  source_id: string;
+  target_id: string;
+  type: LinkType;
+  created_at: string;
+}
+
+export type HandoffState = "open" | "in_progress" | "done" | "abandoned";
+
 export interface Handoff {
   id: string;
   goal: string;
@@ -28,6 +57,19 @@ export interface Handoff {
   artifacts: string[];
   stop_conditions: string[];
   session_id: string;
+  /** The handoff this one continues, if any */
+  parent_handoff_id: string | null;
+  /** Agent name, role or channel this handoff is for; null for anyone */
+  target: string | null;
+  accepted_by: string | null;
+  accepted_at: string | null;
+  state: HandoffState;
+  /** Indexes into stop_conditions that have been met */
+  met_stop_conditions: number[];
+  /** Indexes into known_unknowns that have been resolved */
+  resolved_unknowns: number[];
+  /** Last state change or checkoff */
+  updated_at: string | null;
   created_at: string;
 }
 
@@ -106,6 +148,11 @@ export interface SessionClaim {
   pid: number;
   claimed_at: string;
   description: string | null;
+  /** Lifetime in seconds; null claims last until the session ends */
+  ttl_seconds: number | null;
+  expires_at: string | null;
+  /** Whether the session heartbeat pushes expires_at forward */
+  renew: boolean;
 }
 
 export interface SearchResult {
@@ -0,0 +1,386 @@
+import { writeFileSync, readFileSync, renameSync, mkdirSync } from "node:fs";
+import { dirname, join, resolve, relative, isAbsolute } from "node:path";
+import crypto from "node:crypto";
+import {
+  getDb,
+  getDbSchemaVersion,
+  recordExists,
+  runInTransaction,
+  iterateMemories,
+  getAllHandoffs,
+  getAllSessions,
+  getAllSessionEvents,
+  getAllFeedback,
+  getAllMemoryVersions,
+  getAllMemoryLinks,
+  getMemoryRaw,
+  getHandoff,
+  insertMemory,
+  insertHandoff,
+  insertSessionRecord,
+  insertSessionEventRecord,
+  insertFeedbackRecord,
+  insertMemoryVersionRecord,
+  insertMemoryLinkRecord,
+  getSession,
+} from "./db.js";
+import { embeddingToBuffer, bufferToEmbedding, getModelName, normalizeModelId } from "./embeddings.js";
+import { embedText } from "./embedding_cache.js";
+import { checkStoreLimits } from "./license.js";
+import { isAnyTransferPathAllowed } from "./config.js";
+import { getVectorStore } from "./vector_store.js";
+import type { Memory, MemoryVersion, MemoryLink, Handoff, Session, SessionEvent } from "./types.js";
+
+export const VAULT_FORMAT = "moltmind-vault";
+export const VAULT_FORMAT_VERSION = 1;
+
+type FeedbackRecord = { id: string; type: string; message: string; tool_name: string | null; created_at: string };
+type ExportedMemory = Omit<Memory, "embedding" | "embedding_model"> & { embedding: string | null; embedding_model?: string | null };
+
+export interface VaultHeader {
+  kind: "header";
+  format: typeof VAULT_FORMAT;
+  version: number;
+  exported_at: string;
+  schema_version: number;
+  embedding_model: string | null;
+  counts: Record<string, number>;
+}
+
+type VaultRecord =
+  | { kind: "memory"; data: ExportedMemory }
+  | { kind: "memory_version"; data: MemoryVersion }
+  | { kind: "memory_link"; data: MemoryLink }
+  | { kind: "handoff"; data: Handoff }
+  | { kind: "session"; data: Session }
+  | { kind: "session_event"; data: SessionEvent }
+  | { kind: "feedback"; data: FeedbackRecord };
+
+export interface ExportOptions {
+  path: string;
+  include_embeddings?: boolean;
+  include_archived?: boolean;
+}
+
+export interface ImportCounts {
+  imported: number;
+  skipped: number;
+  remapped: number;
+}
+
+export interface ImportReport {
+  memories: ImportCounts & { reembedded: number; limit_skipped: number };
+  memory_versions: ImportCounts;
+  memory_links: ImportCounts;
+  handoffs: ImportCounts;
+  sessions: ImportCounts;
+  session_events: ImportCounts;
+  feedback: ImportCounts;
+}
+
+/** Default export location: an exports/ folder beside the active memory.db */
+export function defaultExportPath(): string {
+  const stamp = new Date().toISOString().replace(/[:.]/g, "-");
+  return join(dirname(getDb().name), "exports", `moltmind-${stamp}.jsonl`);
+}
+
+/**
+ * Resolve a path given to mm_export or mm_import. Relative paths are taken
+ * from the exports/ folder; anything outside the vault directory is refused
+ * unless the server was started with --allow-any-transfer-path.
+ */
+export function resolveTransferPath(path: string): string {
+  const vaultDir = dirname(getDb().name);
+  const resolved = resolve(vaultDir, "exports", path);
+  const inside = relative(vaultDir, resolved);
+  if ((inside.startsWith("..") || isAbsolute(inside)) && !isAnyTransferPathAllowed()) {
+    throw new Error(`Path is outside the vault directory ${vaultDir} — start MoltMind with --allow-any-transfer-path to use it`);
+  }
+  return resolved;
+}
+
+/**
+ * Serialize the vault to JSONL: one header line, then one record per line
+ * in dependency order (sessions before the handoffs/events that reference them,
+ * memories before their versions and links). Versions and links of memories
+ * left out of the export are left out too.
+ */
+export function exportVault(options: ExportOptions): { path: string; counts: Record<string, number> } {
+  const includeEmbeddings = options.include_embeddings ?? true;
+  const includeArchived = options.include_archived ?? true;
+
+  const sessions = getAllSessions();
+  const handoffs = getAllHandoffs();
+  const events = getAllSessionEvents();
+  const feedback = getAllFeedback();
+
+  const counts: Record<string, number> = {
+    memories: 0,
+    memory_versions: 0,
+    memory_links: 0,
+    handoffs: handoffs.length,
+    sessions: sessions.length,
+    session_events: events.length,
+    feedback: feedback.length,
+  };
+
+  const lines: string[] = [];
+  const write = (record: VaultRecord) => lines.push(JSON.stringify(record));
+
+  for (const session of sessions) write({ kind: "session", data: session });
+  const memoryIds = new Set<string>();
+  for (const mem of iterateMemories(includeArchived)) {
+    counts.memories++;
+    memoryIds.add(mem.id);
+    write({
+      kind: "memory",
+      data: {
+        ...mem,
+        embedding: includeEmbeddings && mem.embedding ? mem.embedding.toString("base64") : null,
+      },
+    });
+  }
+  for (const version of getAllMemoryVersions()) {
+    if (!memoryIds.has(version.memory_id)) continue;
+    counts.memory_versions++;
+    write({ kind: "memory_version", data: version });
+  }
+  for (const link of getAllMemoryLinks()) {
+    if (!memoryIds.has(link.source_id) || !memoryIds.has(link.target_id)) continue;
+    counts.memory_links++;
+    write({ kind: "memory_link", data: link });
+  }
+  for (const handoff of handoffs) write({ kind: "handoff", data: handoff });
+  for (const event of events) write({ kind: "session_event", data: event });
+  for (const fb of feedback) write({ kind: "feedback", data: fb });
+
+  const header: VaultHeader = {
+    kind: "header",
+    format: VAULT_FORMAT,
+    version: VAULT_FORMAT_VERSION,
+    exported_at: new Date().toISOString(),
+    schema_version: getDbSchemaVersion(),
+    embedding_model: includeEmbeddings ? getModelName() : null,
+    counts,
+  };
+
+  // Atomic write: tmp file + rename, so a crash never leaves a truncated export
+  mkdirSync(dirname(options.path), { recursive: true });
+  const tmpPath = `${options.path}.tmp`;
+  writeFileSync(tmpPath, [JSON.stringify(header), ...lines].join("\n") + "\n", "utf-8");
+  renameSync(tmpPath, options.path);
+
+  return { path: options.path, counts };
+}
+
+function parseVaultFile(path: string): { header: VaultHeader; records: VaultRecord[] } {
+  const lines = readFileSync(path, "utf-8").split("\n").filter((l) => l.trim().length > 0);
+  if (lines.length === 0) {
+    throw new Error("Vault file is empty");
+  }
+
+  const header = JSON.parse(lines[0]) as VaultHeader;
+  if (header.kind !== "header" || header.format !== VAULT_FORMAT) {
+    throw new Error("Not a MoltMind vault export (missing header)");
+  }
+  if (header.version > VAULT_FORMAT_VERSION) {
+    throw new Error(`Vault format v${header.version} is newer than supported v${VAULT_FORMAT_VERSION}. Upgrade MoltMind.`);
+  }
+
+  const records = lines.slice(1).map((line, i) => {
+    try {
+      return JSON.parse(line) as VaultRecord;
+    } catch {
+      throw new Error(`Malformed record on line ${i + 2}`);
+    }
+  });
+  return { header, records };
+}
+
+function sameMemory(existing: Memory, incoming: ExportedMemory): boolean {
+  return existing.type === incoming.type && existing.title === incoming.title && existing.content === incoming.content;
+}
+
+function emptyCounts(): ImportCounts {
+  return { imported: 0, skipped: 0, remapped: 0 };
+}
+
+/**
+ * Import a JSONL vault export. Records whose id already exists with identical
+ * content are skipped; conflicting ids get a fresh id and references to them
+ * (handoff/event session_id, handoff parent, event resource_id, version
+ * memory_id, link source and target) are rewritten.
+ */
+export async function importVault(path: string): Promise<ImportReport> {
+  const { header, records } = parseVaultFile(path);
+  const report: ImportReport = {
+    memories: { ...emptyCounts(), reembedded: 0, limit_skipped: 0 },
+    memory_versions: emptyCounts(),
+    memory_links: emptyCounts(),
+    handoffs: emptyCounts(),
+    sessions: emptyCounts(),
+    session_events: emptyCounts(),
+    feedback: emptyCounts(),
+  };
+
+  // Per-memory model ids (schema v9+) win over the header, which older exports only have
+  const activeModel = getModelName();
+  const modelOf = (mem: ExportedMemory): string | null => {
+    const model = mem.embedding_model ?? header.embedding_model;
+    return model ? normalizeModelId(model) : null;
+  };
+  const sessionIdMap = new Map<string, string>();
+  const memoryIdMap = new Map<string, string>();
+  const handoffIdMap = new Map<string, string>();
+
+  // Resolve embeddings up front — embedding is async, inserts are one sync transaction
+  const memoryEmbeddings = new Map<string, Buffer | null>();
+  for (const record of records) {
+    if (record.kind !== "memory") continue;
+    const mem = record.data;
+    if (mem.embedding && modelOf(mem) === activeModel) {
+      memoryEmbeddings.set(mem.id, Buffer.from(mem.embedding, "base64"));
+      continue;
+    }
+    const existing = getMemoryRaw(mem.id);
+    if (existing && sameMemory(existing, mem)) continue;
+    const vector = await embedText(`${mem.title} ${mem.content}`);
+    if (vector) report.memories.reembedded++;
+    memoryEmbeddings.set(mem.id, vector ? embeddingToBuffer(vector) : null);
+  }
+
+  const vectorWrites: Array<{ id: string; embedding: Buffer }> = [];
+  // Memories left out by the free tier limit have no versions or links to attach
+  const notImported = new Set<string>();
+
+  runInTransaction(() => {
+    for (const record of records) {
+      switch (record.kind) {
+        case "session": {
+          const session = record.data;
+          const existing = getSession(session.id);
+          if (existing) {
+            if (existing.started_at === session.started_at) {
+              report.sessions.skipped++;
+              break;
+            }
+            sessionIdMap.set(session.id, crypto.randomUUID());
+            report.sessions.remapped++;
+          }
+          insertSessionRecord({ ...session, id: sessionIdMap.get(session.id) ?? session.id });
+          report.sessions.imported++;
+          break;
+        }
+        case "memory": {
+          const mem = record.data;
+          let id = mem.id;
+          const existing = getMemoryRaw(mem.id);
+          if (existing) {
+            if (sameMemory(existing, mem)) {
+              report.memories.skipped++;
+              break;
+            }
+            id = crypto.randomUUID();
+            memoryIdMap.set(mem.id, id);
+            report.memories.remapped++;
+          }
+          if (mem.tier !== "archived" && !checkStoreLimits().allowed) {
+            notImported.add(mem.id);
+            report.memories.limit_skipped++;
+            break;
+          }
+          const embedding = memoryEmbeddings.get(mem.id) ?? null;
+          insertMemory({ ...mem, id, embedding, embedding_model: embedding ? activeModel : null });
+          if (embedding && mem.tier !== "archived") vectorWrites.push({ id, embedding });
+          report.memories.imported++;
+          break;
+        }
+        case "memory_version": {
+          const version = record.data;
+          if (notImported.has(version.memory_id)) {
+            report.memory_versions.skipped++;
+            break;
+          }
+          const memoryId = memoryIdMap.get(version.memory_id);
+          if (!insertMemoryVersionRecord({ ...version, memory_id: memoryId ?? version.memory_id })) {
+            report.memory_versions.skipped++;
+            break;
+          }
+          if (memoryId) report.memory_versions.remapped++;
+          report.memory_versions.imported++;
+          break;
+        }
+        case "memory_link": {
+          const link = record.data;
+          if (notImported.has(link.source_id) || notImported.has(link.target_id)) {
+            report.memory_links.skipped++;
+            break;
+          }
+          const sourceId = memoryIdMap.get(link.source_id);
+          const targetId = memoryIdMap.get(link.target_id);
+          if (!insertMemoryLinkRecord({ ...link, source_id: sourceId ?? link.source_id, target_id: targetId ?? link.target_id })) {
+            report.memory_links.skipped++;
+            break;
+          }
+          if (sourceId || targetId) report.memory_links.remapped++;
+          report.memory_links.imported++;
+          break;
+        }
+        case "handoff": {
+          const handoff = record.data;
+          let id = handoff.id;
+          const existing = getHandoff(handoff.id);
+          if (existing) {
+            if (existing.created_at === handoff.created_at && existing.goal === handoff.goal) {
+              report.handoffs.skipped++;
+              break;
+            }
+            id = crypto.randomUUID();
+            handoffIdMap.set(handoff.id, id);
+            report.handoffs.remapped++;
+          }
+          // Exports list handoffs oldest first, so a parent is always remapped before its children
+          const parent = handoff.parent_handoff_id ?? null;
+          insertHandoff({
+            ...handoff,
+            id,
+            session_id: sessionIdMap.get(handoff.session_id) ?? handoff.session_id,
+            parent_handoff_id: parent ? handoffIdMap.get(parent) ?? parent : null,
+          });
+          report.handoffs.imported++;
+          break;
+        }
+        case "session_event": {
+          const event = record.data;
+          if (recordExists("session_events", event.id)) {
+            report.session_events.skipped++;
+            break;
+          }
+          insertSessionEventRecord({
+            ...event,
+            session_id: sessionIdMap.get(event.session_id) ?? event.session_id,
+            resource_id: event.resource_id ? memoryIdMap.get(event.resource_id) ?? event.resource_id : null,
+          });
+          report.session_events.imported++;
+          break;
+        }
+        case "feedback": {
+          if (recordExists("feedback", record.data.id)) {
+            report.feedback.skipped++;
+            break;
+          }
+          insertFeedbackRecord(record.data);
+          report.feedback.imported++;
+          break;
+        }
+      }
+    }
+  });
+
+  const store = getVectorStore();
+  for (const { id, embedding } of vectorWrites) {
+    store.upsert(id, bufferToEmbedding(embedding));
+  }
+
+  return report;
+}
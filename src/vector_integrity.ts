@@ -0,0 +1,215 @@
+import { createHash } from "node:crypto";
+import {
+  addMemoryListener, iterateEmbeddingRefs, getEmbeddingsByIds,
+  getVectorManifest, getVectorManifestChecksum, getVectorManifestCounts, setVectorManifestEntries, deleteVectorManifestEntries, clearVectorManifest,
+} from "./db.js";
+import { bufferToEmbedding, embeddingToBuffer } from "./embeddings.js";
+import { getVectorStore, type VectorStore, type VectorSearchResult } from "./vector_store.js";
+import type { RecallFilters } from "./query_parser.js";
+
+export interface VectorDrift {
+  backend: string;
+  /** Live (non-archived) memories with an embedding of the index's size */
+  expected: number;
+  /** Ids the index holds */
+  indexed: number;
+  /** Live embeddings the index doesn't hold */
+  missing: string[];
+  /** Held with a different or unverified embedding */
+  changed: string[];
+  /** Held but archived, deleted or without an embedding */
+  stale: string[];
+}
+
+export interface VectorIndexStatus {
+  backend: string;
+  expected: number;
+  indexed: number;
+  missing: number;
+  changed: number;
+  stale: number;
+  in_sync: boolean;
+  /** A few drifted ids, for spot checks */
+  sample: string[];
+}
+
+/** What the manifest alone says about the index — cheap enough for mm_status. */
+export interface VectorManifestStatus {
+  backend: string;
+  expected: number;
+  indexed: number;
+  missing: number;
+  stale: number;
+  /** Held without a recorded checksum */
+  unverified: number;
+}
+
+export interface VectorRepairReport extends VectorIndexStatus {
+  upserted: number;
+  deleted: number;
+}
+
+export function embeddingChecksum(blob: Buffer): string {
+  return createHash("sha256").update(blob).digest("hex").slice(0, 16);
+}
+
+/**
+ * Wraps an index kept outside memory.db (Zvec, HNSW). Writes are recorded in
+ * vector_manifest with the embedding's checksum, and archives, restores and
+ * re-embeds reach the index through the memory listener, whichever code path
+ * made them. check() compares the manifest with the memories table; repair()
+ * rewrites only the ids that drifted.
+ */
+export class TrackedVectorStore implements VectorStore {
+  readonly inner: VectorStore;
+  readonly backend: string;
+  private dimensions: number;
+  private unsubscribe: () => void;
+
+  constructor(inner: VectorStore, backend: string, dimensions: number = 384) {
+    this.inner = inner;
+    this.backend = backend;
+    this.dimensions = dimensions;
+    // First run with an existing index: take what it holds as the baseline
+    if (inner.ids && getVectorManifest(backend).size === 0) this.adopt();
+
+    this.unsubscribe = addMemoryListener(({ memory }) => {
+      if (memory.tier === "archived" || !memory.embedding || !this.fits(memory.embedding)) {
+        if (getVectorManifestChecksum(this.backend, memory.id) !== undefined) this.delete(memory.id);
+      } else {
+        this.upsert(memory.id, bufferToEmbedding(memory.embedding));
+      }
+    });
+  }
+
+  upsert(id: string, vector: Float32Array): void {
+    const checksum = embeddingChecksum(embeddingToBuffer(vector));
+    // The listener and the tool's own dual-write both land here — index once
+    if (getVectorManifestChecksum(this.backend, id) === checksum) return;
+    this.write(id, vector, checksum);
+  }
+
+  search(query: Float32Array, k: number, filters?: RecallFilters): VectorSearchResult[] {
+    return this.inner.search(query, k, filters);
+  }
+
+  delete(id: string): void {
+    this.inner.delete(id);
+    deleteVectorManifestEntries(this.backend, [id]);
+  }
+
+  /** Forget the manifest, e.g. when the index file was just created. */
+  reset(): void {
+    clearVectorManifest(this.backend);
+  }
+
+  /**
+   * Compare the index with the memories table. A full check ignores the
+   * recorded checksums, so every held vector counts as changed.
+   */
+  check(full: boolean = false): VectorDrift {
+    const held = full ? new Map<string, string | null>() : getVectorManifest(this.backend);
+    if (this.inner.ids) {
+      const ids = new Set(this.inner.ids());
+      for (const id of held.keys()) {
+        if (!ids.has(id)) held.delete(id);
+      }
+      for (const id of ids) {
+        if (!held.has(id)) held.set(id, null);
+      }
+    } else if (full) {
+      // Can't enumerate the index — assume any archived embedding may linger
+      for (const refs of iterateEmbeddingRefs({ tiers: ["archived"] })) {
+        for (const ref of refs) held.set(ref.id, null);
+      }
+    }
+
+    const indexed = full && !this.inner.ids ? getVectorManifest(this.backend).size : held.size;
+    const drift: VectorDrift = { backend: this.backend, expected: 0, indexed, missing: [], changed: [], stale: [] };
+    for (const refs of iterateEmbeddingRefs()) {
+      for (const [id, blob] of getEmbeddingsByIds(refs.map((ref) => ref.id))) {
+        if (!this.fits(blob)) continue;
+        drift.expected++;
+        if (!held.has(id)) drift.missing.push(id);
+        else if (held.get(id) !== embeddingChecksum(blob)) drift.changed.push(id);
+        held.delete(id);
+      }
+    }
+    drift.stale = [...held.keys()];
+    return drift;
+  }
+
+  /** Counts from the manifest and memory ids; use check() to catch changed vectors. */
+  manifestStatus(): VectorManifestStatus {
+    return { backend: this.backend, ...getVectorManifestCounts(this.backend, this.dimensions * 4) };
+  }
+
+  repair(full: boolean = false): VectorRepairReport {
+    const drift = this.check(full);
+    const rewrite = [...drift.missing, ...drift.changed];
+    let upserted = 0;
+    for (let i = 0; i < rewrite.length; i += 500) {
+      for (const [id, blob] of getEmbeddingsByIds(rewrite.slice(i, i + 500))) {
+        this.write(id, bufferToEmbedding(blob), embeddingChecksum(blob));
+        upserted++;
+      }
+    }
+    for (const id of drift.stale) this.delete(id);
+    return { ...summarizeDrift(drift), upserted, deleted: drift.stale.length };
+  }
+
+  detach(): void {
+    this.unsubscribe();
+  }
+
+  /** Embeddings from a model of another size can't go in this index. */
+  private fits(blob: Buffer): boolean {
+    return blob.length === this.dimensions * 4;
+  }
+
+  private write(id: string, vector: Float32Array, checksum: string): void {
+    this.inner.upsert(id, vector);
+    setVectorManifestEntries(this.backend, [[id, checksum]]);
+  }
+
+  private adopt(): void {
+    const ids = [...this.inner.ids!()];
+    const entries: Array<[string, string | null]> = [];
+    for (let i = 0; i < ids.length; i += 500) {
+      const chunk = ids.slice(i, i + 500);
+      const blobs = getEmbeddingsByIds(chunk);
+      for (const id of chunk) {
+        const blob = blobs.get(id);
+        entries.push([id, blob ? embeddingChecksum(blob) : null]);
+      }
+    }
+    setVectorManifestEntries(this.backend, entries);
+  }
+}
+
+export function summarizeDrift(drift: VectorDrift): VectorIndexStatus {
+  return {
+    backend: drift.backend,
+    expected: drift.expected,
+    indexed: drift.indexed,
+    missing: drift.missing.length,
+    changed: drift.changed.length,
+    stale: drift.stale.length,
+    in_sync: drift.missing.length + drift.changed.length + drift.stale.length === 0,
+    sample: [...drift.missing, ...drift.changed, ...drift.stale].slice(0, 5),
+  };
+}
+
+/** Drift of the active index, or null when search reads vectors from memory.db itself. */
+export function getVectorIndexStatus(store: VectorStore = getVectorStore()): VectorIndexStatus | null {
+  return store instanceof TrackedVectorStore ? summarizeDrift(store.check()) : null;
+}
+
+/** Manifest counts of the active index, or null when search reads vectors from memory.db itself. */
+export function getVectorManifestStatus(store: VectorStore = getVectorStore()): VectorManifestStatus | null {
+  return store instanceof TrackedVectorStore ? store.manifestStatus() : null;
+}
+
+export function repairVectorIndex(options: { full?: boolean } = {}, store: VectorStore = getVectorStore()): VectorRepairReport | null {
+  return store instanceof TrackedVectorStore ? store.repair(options.full ?? false) : null;
+}
@@ -1,5 +1,6 @@
-import { getAllMemories } from "./db.js";
+import { iterateEmbeddingRefs, getEmbeddingsByIds, addMemoryListener } from "./db.js";
 import { cosineSimilarity, bufferToEmbedding } from "./embeddings.js";
+import type { RecallFilters } from "./query_parser.js";
 import type { MemoryTier } from "./types.js";
 
 export interface VectorSearchResult {
@@ -9,8 +10,70 @@ export interface VectorSearchResult {
 
 export interface VectorStore {
   upsert(id: string, vector: Float32Array): void;
-  search(query: Float32Array, k: number): VectorSearchResult[];
+  /** Top-k by cosine similarity, restricted to memories matching filters when given. */
+  search(query: Float32Array, k: number, filters?: RecallFilters): VectorSearchResult[];
   delete(id: string): void;
+  /** Every id the index holds, for backends that can enumerate them. */
+  ids?(): Iterable<string>;
+}
+
+/** Fixed-size min-heap that keeps the k highest-scoring results seen so far. */
+export class TopKHeap<T extends VectorSearchResult = VectorSearchResult> {
+  private heap: T[] = [];
+
+  constructor(private k: number) {}
+
+  push(item: T): void {
+    if (this.k <= 0) return;
+    if (this.heap.length < this.k) {
+      this.heap.push(item);
+      this.siftUp(this.heap.length - 1);
+    } else if (item.score > this.heap[0].score) {
+      this.heap[0] = item;
+      this.siftDown(0);
+    }
+  }
+
+  /** Results sorted best first. */
+  toSorted(): T[] {
+    return [...this.heap].sort((a, b) => b.score - a.score);
+  }
+
+  private siftUp(i: number): void {
+    const heap = this.heap;
+    while (i > 0) {
+      const parent = (i - 1) >> 1;
+      if (heap[parent].score <= heap[i].score) break;
+      [heap[parent], heap[i]] = [heap[i], heap[parent]];
+      i = parent;
+    }
+  }
+
+  private siftDown(i: number): void {
+    const heap = this.heap;
+    for (;;) {
+      const left = 2 * i + 1;
+      const right = left + 1;
+      let smallest = i;
+      if (left < heap.length && heap[left].score < heap[smallest].score) smallest = left;
+      if (right < heap.length && heap[right].score < heap[smallest].score) smallest = right;
+      if (smallest === i) return;
+      [heap[smallest], heap[i]] = [heap[i], heap[smallest]];
+      i = smallest;
+    }
+  }
+}
+
+// Decoded embeddings keyed by memory id. Entries carry the row's updated_at so
+// writes that bypass the listener (or a vault switch) are still detected.
+const decodedCache = new Map<string, { updated_at: string; vector: Float32Array }>();
+let cacheListener: (() => void) | null = null;
+
+function ensureCacheListener(): void {
+  if (cacheListener) return;
+  cacheListener = addMemoryListener(({ memory }) => {
+    decodedCache.delete(memory.id);
+  });
 }
 
 export class BruteForceStore implements VectorStore {
@@ -20,28 +83,41 @@ export class BruteForceStore implements VectorStore {
     this.tier = tier;
   }
 
-  upsert(_id: string, _vector: Float32Array): void {
-    // No-op — SQLite BLOB is the store for brute-force
+  upsert(id: string, _vector: Float32Array): void {
+    // SQLite BLOB is the store for brute-force — just drop any stale decoded copy
+    decodedCache.delete(id);
   }
 
-  search(query: Float32Array, k: number): VectorSearchResult[] {
-    const memories = getAllMemories(this.tier, 1000);
-    const results: VectorSearchResult[] = [];
+  /**
+   * Exact search over every matching embedding: a chunked scan of ids, with
+   * BLOBs loaded and decoded only on cache misses, feeding a top-k heap.
+   */
+  search(query: Float32Array, k: number, filters: RecallFilters = {}): VectorSearchResult[] {
+    ensureCacheListener();
+    const scoped = this.tier && !filters.tiers ? { ...filters, tiers: [this.tier] } : filters;
+    const top = new TopKHeap(k);
 
-    for (const mem of memories) {
-      if (mem.embedding) {
-        const memEmbedding = bufferToEmbedding(mem.embedding);
-        const score = cosineSimilarity(query, memEmbedding);
-        results.push({ id: mem.id, score });
+    for (const refs of iterateEmbeddingRefs(scoped)) {
+      const misses = refs.filter((ref) => decodedCache.get(ref.id)?.updated_at !== ref.updated_at);
+      if (misses.length > 0) {
+        const blobs = getEmbeddingsByIds(misses.map((ref) => ref.id));
+        for (const ref of misses) {
+          const blob = blobs.get(ref.id);
+          if (blob) decodedCache.set(ref.id, { updated_at: ref.updated_at, vector: bufferToEmbedding(blob) });
+        }
+      }
+      for (const ref of refs) {
+        const cached = decodedCache.get(ref.id);
+        if (cached) top.push({ id: ref.id, score: cosineSimilarity(query, cached.vector) });
       }
     }
 
-    results.sort((a, b) => b.score - a.score);
-    return results.slice(0, k);
+    return top.toSorted();
   }
 
-  delete(_id: string): void {
-    // No-op — SQLite handles deletion for brute-force
+  delete(id: string): void {
+    // SQLite handles deletion for brute-force
+    decodedCache.delete(id);
   }
 }
 
@@ -56,7 +132,12 @@ export function getVectorStore(tier?: MemoryTier): VectorStore {
   return new BruteForceStore(tier);
 }
 
+export function getEmbeddingCacheSize(): number {
+  return decodedCache.size;
+}
+
 // Reset for testing
 export function _resetVectorStore(): void {
   activeStore = null;
+  decodedCache.clear();
 }
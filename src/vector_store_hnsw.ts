@@ -0,0 +1,571 @@
+import { existsSync, readFileSync, writeFileSync, renameSync, appendFileSync, rmSync, statSync } from "node:fs";
+import crypto from "node:crypto";
+import { iterateEmbeddingRefs, getEmbeddingsByIds } from "./db.js";
+import { bufferToEmbedding } from "./embeddings.js";
+import { TopKHeap, type VectorStore, type VectorSearchResult } from "./vector_store.js";
+import type { RecallFilters } from "./query_parser.js";
+
+export interface HnswOptions {
+  /** Max links per node on upper layers (layer 0 allows 2·M) */
+  M?: number;
+  efConstruction?: number;
+  efSearch?: number;
+  seed?: number;
+}
+
+interface Scored {
+  node: number;
+  sim: number;
+}
+
+/** Binary heap over Scored; `max` puts the highest similarity on top. */
+class ScoredHeap {
+  private items: Scored[] = [];
+
+  constructor(private max: boolean) {}
+
+  get size(): number {
+    return this.items.length;
+  }
+
+  peek(): Scored {
+    return this.items[0];
+  }
+
+  push(item: Scored): void {
+    const items = this.items;
+    items.push(item);
+    let i = items.length - 1;
+    while (i > 0) {
+      const parent = (i - 1) >> 1;
+      if (!this.before(items[i], items[parent])) break;
+      [items[parent], items[i]] = [items[i], items[parent]];
+      i = parent;
+    }
+  }
+
+  pop(): Scored {
+    const items = this.items;
+    const top = items[0];
+    const last = items.pop()!;
+    if (items.length > 0) {
+      items[0] = last;
+      let i = 0;
+      for (;;) {
+        const left = 2 * i + 1;
+        const right = left + 1;
+        let next = i;
+        if (left < items.length && this.before(items[left], items[next])) next = left;
+        if (right < items.length && this.before(items[right], items[next])) next = right;
+        if (next === i) break;
+        [items[next], items[i]] = [items[i], items[next]];
+        i = next;
+      }
+    }
+    return top;
+  }
+
+  toArray(): Scored[] {
+    return [...this.items];
+  }
+
+  private before(a: Scored, b: Scored): boolean {
+    return this.max ? a.sim > b.sim : a.sim < b.sim;
+  }
+}
+
+// mulberry32 — small deterministic PRNG so identical inserts build identical graphs
+function nextRandom(state: { value: number }): number {
+  state.value = (state.value + 0x6d2b79f5) >>> 0;
+  let t = state.value;
+  t = Math.imul(t ^ (t >>> 15), t | 1);
+  t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+  return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+}
+
+function normalize(vector: Float32Array): Float32Array {
+  let norm = 0;
+  for (let i = 0; i < vector.length; i++) norm += vector[i] * vector[i];
+  norm = Math.sqrt(norm);
+  const out = new Float32Array(vector.length);
+  if (norm === 0) return out;
+  for (let i = 0; i < vector.length; i++) out[i] = vector[i] / norm;
+  return out;
+}
+
+function dot(a: Float32Array, b: Float32Array): number {
+  let sum = 0;
+  for (let i = 0; i < a.length; i++) sum += a[i] * b[i];
+  return sum;
+}
+
+const MAGIC = Buffer.from("MMHNSW01", "ascii");
+const FORMAT_VERSION = 1;
+
+/**
+ * Hierarchical Navigable Small World graph over unit-normalized vectors
+ * (cosine similarity = dot product). Deletes are tombstones: deleted nodes
+ * still route searches but never appear in results until compact().
+ */
+export class HnswIndex {
+  readonly dimensions: number;
+  readonly M: number;
+  readonly efConstruction: number;
+  efSearch: number;
+
+  private ids: string[] = [];
+  private vectors: Float32Array[] = [];
+  private links: number[][][] = [];
+  private deleted: boolean[] = [];
+  private idToNode = new Map<string, number>();
+  private entry = -1;
+  private maxLevel = -1;
+  private deletedCount = 0;
+  private rng: { value: number };
+  private visited = new Uint32Array(0);
+  private visitEpoch = 0;
+
+  constructor(dimensions: number, options: HnswOptions = {}) {
+    this.dimensions = dimensions;
+    this.M = options.M ?? 16;
+    this.efConstruction = options.efConstruction ?? 100;
+    this.efSearch = options.efSearch ?? 128;
+    this.rng = { value: (options.seed ?? 42) >>> 0 };
+  }
+
+  /** Live (non-deleted) vectors */
+  get size(): number {
+    return this.idToNode.size;
+  }
+
+  /** Live plus tombstoned nodes */
+  get nodeCount(): number {
+    return this.ids.length;
+  }
+
+  get tombstones(): number {
+    return this.deletedCount;
+  }
+
+  has(id: string): boolean {
+    return this.idToNode.has(id);
+  }
+
+  liveIds(): IterableIterator<string> {
+    return this.idToNode.keys();
+  }
+
+  insert(id: string, vector: Float32Array): void {
+    if (vector.length !== this.dimensions) {
+      throw new Error(`Vector has ${vector.length} dimensions, index expects ${this.dimensions}`);
+    }
+    this.delete(id);
+
+    const q = normalize(vector);
+    const node = this.ids.length;
+    const level = this.randomLevel();
+    this.ids.push(id);
+    this.vectors.push(q);
+    this.deleted.push(false);
+    this.links.push(Array.from({ length: level + 1 }, () => []));
+    this.idToNode.set(id, node);
+
+    if (this.entry === -1) {
+      this.entry = node;
+      this.maxLevel = level;
+      return;
+    }
+
+    let entryPoints = [this.entry];
+    for (let l = this.maxLevel; l > level; l--) {
+      entryPoints = [this.searchLayer(q, entryPoints, 1, l)[0].node];
+    }
+    for (let l = Math.min(level, this.maxLevel); l >= 0; l--) {
+      const candidates = this.searchLayer(q, entryPoints, this.efConstruction, l);
+      const maxLinks = l === 0 ? this.M * 2 : this.M;
+      const neighbors = this.selectNeighbors(candidates, this.M);
+      this.links[node][l] = neighbors.map((n) => n.node);
+
+      for (const neighbor of neighbors) {
+        const list = this.links[neighbor.node][l];
+        list.push(node);
+        if (list.length > maxLinks) {
+          // Plain closest-first pruning here: the heuristic costs O(M²) dot products per
+          // overflow for no measurable recall gain, and dominated build time
+          const base = this.vectors[neighbor.node];
+          const scored = list.map((n) => ({ node: n, sim: dot(base, this.vectors[n]) })).sort((a, b) => b.sim - a.sim);
+          this.links[neighbor.node][l] = scored.slice(0, maxLinks).map((n) => n.node);
+        }
+      }
+      entryPoints = candidates.map((c) => c.node);
+    }
+
+    if (level > this.maxLevel) {
+      this.maxLevel = level;
+      this.entry = node;
+    }
+  }
+
+  delete(id: string): boolean {
+    const node = this.idToNode.get(id);
+    if (node === undefined) return false;
+    this.idToNode.delete(id);
+    this.deleted[node] = true;
+    this.deletedCount++;
+    return true;
+  }
+
+  /**
+   * Approximate top-k. The beam widens until k accepted results are found or
+   * the whole graph has been visited, so selective `accept` predicates still fill k.
+   */
+  search(query: Float32Array, k: number, accept?: (id: string) => boolean, ef: number = this.efSearch): VectorSearchResult[] {
+    if (this.entry === -1 || k <= 0) return [];
+    const q = normalize(query);
+
+    let entryPoints = [this.entry];
+    for (let l = this.maxLevel; l > 0; l--) {
+      entryPoints = [this.searchLayer(q, entryPoints, 1, l)[0].node];
+    }
+
+    for (let width = Math.max(ef, k); ; width *= 2) {
+      const found = this.searchLayer(q, entryPoints, width, 0)
+        .filter((c) => !this.deleted[c.node] && (!accept || accept(this.ids[c.node])));
+      if (found.length >= k || width >= this.ids.length) {
+        return found.slice(0, k).map((c) => ({ id: this.ids[c.node], score: c.sim }));
+      }
+    }
+  }
+
+  /** Exact top-k over the given ids (those not in the index are skipped). */
+  exactSearch(query: Float32Array, k: number, ids: Iterable<string>): VectorSearchResult[] {
+    const q = normalize(query);
+    const top = new TopKHeap(k);
+    for (const id of ids) {
+      const node = this.idToNode.get(id);
+      if (node !== undefined) top.push({ id, score: dot(q, this.vectors[node]) });
+    }
+    return top.toSorted();
+  }
+
+  /** Fresh index holding only live vectors, in insertion order. */
+  compact(): HnswIndex {
+    const next = new HnswIndex(this.dimensions, { M: this.M, efConstruction: this.efConstruction, efSearch: this.efSearch, seed: this.rng.value });
+    for (let node = 0; node < this.ids.length; node++) {
+      if (!this.deleted[node]) next.insert(this.ids[node], this.vectors[node]);
+    }
+    return next;
+  }
+
+  serialize(): Buffer {
+    const header = Buffer.alloc(MAGIC.length + 4 * 9);
+    MAGIC.copy(header, 0);
+    let offset = MAGIC.length;
+    for (const value of [FORMAT_VERSION, this.dimensions, this.M, this.efConstruction, this.efSearch, this.ids.length, this.entry, this.maxLevel, this.rng.value]) {
+      header.writeInt32LE(value | 0, offset);
+      offset += 4;
+    }
+
+    const chunks: Buffer[] = [header];
+    for (let node = 0; node < this.ids.length; node++) {
+      const id = Buffer.from(this.ids[node], "utf-8");
+      const levels = this.links[node];
+      const linkCount = levels.reduce((sum, list) => sum + list.length, 0);
+      const buf = Buffer.alloc(2 + id.length + 2 + this.dimensions * 4 + levels.length * 2 + linkCount * 4);
+      let o = buf.writeUInt16LE(id.length, 0);
+      o += id.copy(buf, o);
+      o = buf.writeUInt8(this.deleted[node] ? 1 : 0, o);
+      o = buf.writeUInt8(levels.length - 1, o);
+      Buffer.from(this.vectors[node].buffer, this.vectors[node].byteOffset, this.dimensions * 4).copy(buf, o);
+      o += this.dimensions * 4;
+      for (const list of levels) {
+        o = buf.writeUInt16LE(list.length, o);
+        for (const n of list) o = buf.writeUInt32LE(n, o);
+      }
+      chunks.push(buf);
+    }
+
+    const body = Buffer.concat(chunks);
+    const checksum = crypto.createHash("sha256").update(body).digest();
+    return Buffer.concat([body, checksum]);
+  }
+
+  /** Parse a serialized index. Throws on a bad magic, version, checksum or truncated body. */
+  static deserialize(data: Buffer): HnswIndex {
+    if (data.length < MAGIC.length + 36 + 32 || !data.subarray(0, MAGIC.length).equals(MAGIC)) {
+      throw new Error("Not an HNSW index file");
+    }
+    const body = data.subarray(0, data.length - 32);
+    const checksum = crypto.createHash("sha256").update(body).digest();
+    if (!checksum.equals(data.subarray(data.length - 32))) {
+      throw new Error("HNSW index checksum mismatch");
+    }
+
+    let o = MAGIC.length;
+    const read = (): number => {
+      const value = body.readInt32LE(o);
+      o += 4;
+      return value;
+    };
+    const version = read();
+    if (version !== FORMAT_VERSION) throw new Error(`Unsupported HNSW index version ${version}`);
+    const dimensions = read();
+    const M = read();
+    const efConstruction = read();
+    const efSearch = read();
+    const count = read();
+    const index = new HnswIndex(dimensions, { M, efConstruction, efSearch });
+    index.entry = read();
+    index.maxLevel = read();
+    index.rng.value = read() >>> 0;
+
+    for (let node = 0; node < count; node++) {
+      const idLength = body.readUInt16LE(o);
+      o += 2;
+      const id = body.toString("utf-8", o, o + idLength);
+      o += idLength;
+      const deleted = body.readUInt8(o++) === 1;
+      const level = body.readUInt8(o++);
+      const vector = new Float32Array(dimensions);
+      for (let d = 0; d < dimensions; d++, o += 4) vector[d] = body.readFloatLE(o);
+      const levels: number[][] = [];
+      for (let l = 0; l <= level; l++) {
+        const n = body.readUInt16LE(o);
+        o += 2;
+        const list: number[] = [];
+        for (let i = 0; i < n; i++, o += 4) {
+          const neighbor = body.readUInt32LE(o);
+          if (neighbor >= count) throw new Error("HNSW index has a dangling link");
+          list.push(neighbor);
+        }
+        levels.push(list);
+      }
+
+      index.ids.push(id);
+      index.vectors.push(vector);
+      index.links.push(levels);
+      index.deleted.push(deleted);
+      if (deleted) index.deletedCount++;
+      else index.idToNode.set(id, node);
+    }
+    if (o !== body.length || index.entry >= count) throw new Error("HNSW index is truncated or malformed");
+    return index;
+  }
+
+  private randomLevel(): number {
+    const mL = 1 / Math.log(this.M);
+    return Math.min(Math.floor(-Math.log(1 - nextRandom(this.rng)) * mL), 15);
+  }
+
+  private markVisited(node: number): boolean {
+    if (this.visited.length < this.ids.length) {
+      const grown = new Uint32Array(Math.max(this.ids.length, this.visited.length * 2, 1024));
+      grown.set(this.visited);
+      this.visited = grown;
+    }
+    if (this.visited[node] === this.visitEpoch) return false;
+    this.visited[node] = this.visitEpoch;
+    return true;
+  }
+
+  /** Beam search on one layer; returns up to ef nodes sorted by similarity (best first). */
+  private searchLayer(q: Float32Array, entryPoints: number[], ef: number, level: number): Scored[] {
+    this.visitEpoch = (this.visitEpoch + 1) >>> 0 || 1;
+    const candidates = new ScoredHeap(true);
+    const results = new ScoredHeap(false);
+
+    for (const node of entryPoints) {
+      if (!this.markVisited(node)) continue;
+      const scored = { node, sim: dot(q, this.vectors[node]) };
+      candidates.push(scored);
+      results.push(scored);
+      if (results.size > ef) results.pop();
+    }
+
+    while (candidates.size > 0) {
+      const current = candidates.pop();
+      if (results.size >= ef && current.sim < results.peek().sim) break;
+
+      for (const neighbor of this.links[current.node][level] ?? []) {
+        if (!this.markVisited(neighbor)) continue;
+        const sim = dot(q, this.vectors[neighbor]);
+        if (results.size < ef || sim > results.peek().sim) {
+          candidates.push({ node: neighbor, sim });
+          results.push({ node: neighbor, sim });
+          if (results.size > ef) results.pop();
+        }
+      }
+    }
+
+    return results.toArray().sort((a, b) => b.sim - a.sim);
+  }
+
+  /**
+   * Neighbor-selection heuristic from the HNSW paper: prefer candidates closer
+   * to the base than to any already-selected neighbor, then top up with the rest.
+   */
+  private selectNeighbors(candidates: Scored[], max: number): Scored[] {
+    const selected: Scored[] = [];
+    const pruned: Scored[] = [];
+    for (const candidate of candidates) {
+      if (selected.length >= max) break;
+      const vector = this.vectors[candidate.node];
+      const diverse = selected.every((s) => dot(vector, this.vectors[s.node]) < candidate.sim);
+      if (diverse) selected.push(candidate);
+      else pruned.push(candidate);
+    }
+    for (const candidate of pruned) {
+      if (selected.length >= max) break;
+      selected.push(candidate);
+    }
+    return selected;
+  }
+}
+
+// Journal records: op byte, u16 id length, id, then the raw vector for upserts
+const OP_UPSERT = 1;
+const OP_DELETE = 2;
+
+/**
+ * Portable ANN backend: an HNSW graph persisted beside memory.db. Every write
+ * is appended to a journal (<path>.log); the full snapshot is rewritten when
+ * the journal grows or tombstones pile up. A missing or corrupt index is
+ * rebuilt from the embeddings in SQLite.
+ */
+export class HnswStore implements VectorStore {
+  private path: string;
+  private logPath: string;
+  private options: HnswOptions;
+  private index: HnswIndex;
+  private journalOps = 0;
+
+  constructor(path: string, dimensions: number = 384, options: HnswOptions = {}) {
+    this.path = path;
+    this.logPath = `${path}.log`;
+    this.options = options;
+    this.index = new HnswIndex(dimensions, options);
+
+    if (!existsSync(path)) {
+      this.rebuild();
+      return;
+    }
+    try {
+      this.index = HnswIndex.deserialize(readFileSync(path));
+      if (this.index.dimensions !== dimensions) {
+        throw new Error(`built for ${this.index.dimensions} dimensions, embeddings now have ${dimensions}`);
+      }
+      this.replayJournal();
+    } catch (err) {
+      console.error(`MoltMind: HNSW index unreadable (${err instanceof Error ? err.message : String(err)}), rebuilding from SQLite`);
+      this.index = new HnswIndex(dimensions, options);
+      this.rebuild();
+    }
+  }
+
+  upsert(id: string, vector: Float32Array): void {
+    this.index.insert(id, vector);
+    const idBuf = Buffer.from(id, "utf-8");
+    const record = Buffer.alloc(3 + idBuf.length + vector.length * 4);
+    record.writeUInt8(OP_UPSERT, 0);
+    record.writeUInt16LE(idBuf.length, 1);
+    idBuf.copy(record, 3);
+    Buffer.from(vector.buffer, vector.byteOffset, vector.byteLength).copy(record, 3 + idBuf.length);
+    this.appendJournal(record);
+  }
+
+  delete(id: string): void {
+    if (!this.index.delete(id)) return;
+    const idBuf = Buffer.from(id, "utf-8");
+    const record = Buffer.alloc(3 + idBuf.length);
+    record.writeUInt8(OP_DELETE, 0);
+    record.writeUInt16LE(idBuf.length, 1);
+    idBuf.copy(record, 3);
+    this.appendJournal(record);
+  }
+
+  search(query: Float32Array, k: number, filters?: RecallFilters): VectorSearchResult[] {
+    if (!filters || Object.keys(filters).length === 0) return this.index.search(query, k);
+
+    const allowed = new Set<string>();
+    for (const refs of iterateEmbeddingRefs(filters)) {
+      for (const ref of refs) allowed.add(ref.id);
+    }
+    // Selective filters: scoring the allowed set exactly beats widening the beam
+    if (allowed.size <= Math.max(k * 20, this.index.size * 0.1)) {
+      return this.index.exactSearch(query, k, allowed);
+    }
+    return this.index.search(query, k, (id) => allowed.has(id));
+  }
+
+  /** Write a full snapshot atomically and truncate the journal. */
+  save(): void {
+    const tmpPath = `${this.path}.tmp`;
+    writeFileSync(tmpPath, this.index.serialize());
+    renameSync(tmpPath, this.path);
+    rmSync(this.logPath, { force: true });
+    this.journalOps = 0;
+  }
+
+  /** Rebuild the graph from every non-archived embedding in SQLite. Returns the vector count. */
+  rebuild(): number {
+    const index = new HnswIndex(this.index.dimensions, this.options);
+    for (const refs of iterateEmbeddingRefs()) {
+      for (const [id, blob] of getEmbeddingsByIds(refs.map((ref) => ref.id))) {
+        const vector = bufferToEmbedding(blob);
+        if (vector.length === index.dimensions) index.insert(id, vector);
+      }
+    }
+    this.index = index;
+    this.save();
+    return index.size;
+  }
+
+  ids(): IterableIterator<string> {
+    return this.index.liveIds();
+  }
+
+  stats(): { count: number; tombstones: number; dimensions: number; fileSizeBytes: number } {
+    const fileSize = (p: string) => (existsSync(p) ? statSync(p).size : 0);
+    return {
+      count: this.index.size,
+      tombstones: this.index.tombstones,
+      dimensions: this.index.dimensions,
+      fileSizeBytes: fileSize(this.path) + fileSize(this.logPath),
+    };
+  }
+
+  private appendJournal(record: Buffer): void {
+    appendFileSync(this.logPath, record);
+    this.journalOps++;
+
+    if (this.index.tombstones > 100 && this.index.tombstones > this.index.nodeCount * 0.25) {
+      this.index = this.index.compact();
+      this.save();
+    } else if (this.journalOps >= Math.max(1000, this.index.size / 2)) {
+      this.save();
+    }
+  }
+
+  private replayJournal(): void {
+    if (!existsSync(this.logPath)) return;
+    const data = readFileSync(this.logPath);
+    let o = 0;
+    while (o + 3 <= data.length) {
+      const op = data.readUInt8(o);
+      const idLength = data.readUInt16LE(o + 1);
+      const vectorBytes = op === OP_UPSERT ? this.index.dimensions * 4 : 0;
+      if (op !== OP_UPSERT && op !== OP_DELETE) throw new Error("HNSW journal is corrupt");
+      if (o + 3 + idLength + vectorBytes > data.length) break; // torn final write
+      const id = data.toString("utf-8", o + 3, o + 3 + idLength);
+      o += 3 + idLength;
+      if (op === OP_UPSERT) {
+        this.index.insert(id, bufferToEmbedding(data.subarray(o, o + vectorBytes)));
+        o += vectorBytes;
+      } else {
+        this.index.delete(id);
+      }
+      this.journalOps++;
+    }
+    if (o !== data.length) this.save();
+  }
+}
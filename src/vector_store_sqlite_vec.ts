@@ -0,0 +1,38 @@
+import { createRequire } from "node:module";
+import type Database from "better-sqlite3";
+import { enableVectorTable, searchVectorTable } from "./db.js";
+import type { VectorStore, VectorSearchResult } from "./vector_store.js";
+import type { RecallFilters } from "./query_parser.js";
+
+interface SqliteVecModule {
+  load(db: Database.Database): void;
+}
+
+/**
+ * Vectors in a sqlite-vec virtual table inside memory.db. db.ts writes the
+ * memory_vectors row in the same transaction as the memories row, so the
+ * index can't drift from the BLOB column and upsert/delete have nothing to do.
+ */
+export class SqliteVecStore implements VectorStore {
+  /** Rows added/removed while syncing the table at startup */
+  readonly synced: { added: number; removed: number };
+
+  constructor(dimensions: number = 384) {
+    // Load via createRequire for ESM/CJS interop, like the Zvec native module
+    const require = createRequire(import.meta.url);
+    const sqliteVec = require("sqlite-vec") as SqliteVecModule;
+    this.synced = enableVectorTable((database) => sqliteVec.load(database), dimensions);
+  }
+
+  upsert(_id: string, _vector: Float32Array): void {
+    // No-op — written by insertMemory/updateMemory
+  }
+
+  search(query: Float32Array, k: number, filters?: RecallFilters): VectorSearchResult[] {
+    return searchVectorTable(query, k, filters);
+  }
+
+  delete(_id: string): void {
+    // No-op — deleteMemory removes the row
+  }
+}
@@ -1,7 +1,8 @@
 import { createRequire } from "node:module";
-import { getAllMemories } from "./db.js";
+import { iterateEmbeddingRefs, getEmbeddingsByIds, filterMemoryIds } from "./db.js";
 import { bufferToEmbedding } from "./embeddings.js";
 import type { VectorStore, VectorSearchResult } from "./vector_store.js";
+import type { RecallFilters } from "./query_parser.js";
 
 interface ZvecNative {
   createCollection(config: { path: string; dimensions: number; indexType: "hnsw"; metric: "cosine" }): void;
@@ -17,7 +18,7 @@ export class ZvecStore implements VectorStore {
   private native: ZvecNative;
   private dirty = false;
 
-  constructor(path: string) {
+  constructor(path: string, dimensions: number = 384) {
     this.path = path;
 
     // Load native module via createRequire for ESM/CJS interop
@@ -27,7 +28,7 @@ export class ZvecStore implements VectorStore {
     // Create collection if it doesn't exist
     this.native.createCollection({
       path: this.path,
-      dimensions: 384,
+      dimensions,
       indexType: "hnsw",
       metric: "cosine",
     });
@@ -38,12 +39,22 @@ export class ZvecStore implements VectorStore {
     this.dirty = true;
   }
 
-  search(query: Float32Array, k: number): VectorSearchResult[] {
+  search(query: Float32Array, k: number, filters?: RecallFilters): VectorSearchResult[] {
     if (this.dirty) {
       this.native.buildIndex(this.path);
       this.dirty = false;
     }
-    return this.native.search(this.path, query, k);
+    if (!filters) return this.native.search(this.path, query, k);
+
+    // The native index can't filter, so over-fetch until k matches survive or the index is exhausted
+    let fetch = k * 4;
+    for (;;) {
+      const results = this.native.search(this.path, query, fetch);
+      const allowed = filterMemoryIds(results.map((r) => r.id), filters);
+      const kept = results.filter((r) => allowed.has(r.id));
+      if (kept.length >= k || results.length < fetch) return kept.slice(0, k);
+      fetch *= 4;
+    }
   }
 
   delete(id: string): void {
@@ -56,15 +67,13 @@ export class ZvecStore implements VectorStore {
   }
 }
 
-export function migrateExistingEmbeddings(store: ZvecStore): void {
+export function migrateExistingEmbeddings(store: VectorStore): void {
   console.error("MoltMind: migrating existing embeddings to Zvec index...");
-  const memories = getAllMemories(undefined, 10000);
   let count = 0;
 
-  for (const mem of memories) {
-    if (mem.embedding) {
-      const embedding = bufferToEmbedding(mem.embedding);
-      store.upsert(mem.id, embedding);
+  for (const refs of iterateEmbeddingRefs()) {
+    for (const [id, blob] of getEmbeddingsByIds(refs.map((ref) => ref.id))) {
+      store.upsert(id, bufferToEmbedding(blob));
       count++;
     }
   }
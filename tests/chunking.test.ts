@@ -0,0 +1,145 @@
+import { describe, it, beforeEach, afterEach } from "node:test";
+import assert from "node:assert/strict";
+import { mkdirSync, rmSync, existsSync } from "node:fs";
+import { join } from "node:path";
+import { tmpdir } from "node:os";
+import crypto from "node:crypto";
+import { splitIntoChunks, buildSnippet, mergeSemanticResults, searchChunks, getChunkCacheSize, _resetChunkCache } from "../src/chunking.js";
+
+const originalCwd = process.cwd();
+let testDir: string;
+let db: typeof import("../src/db.js");
+let embeddings: typeof import("../src/embeddings.js");
+
+// ~3,700 characters about gardening with one sentence about certificates near the end
+function longContent(): string {
+  const filler = Array.from({ length: 60 }, (_, i) => `Note ${i} covers watering tomatoes and pruning basil.`);
+  filler.splice(55, 0, "The kubernetes ingress certificate rotation runs every ninety days.");
+  return filler.join(" ");
+}
+
+describe("Chunked Embeddings", () => {
+  describe("splitIntoChunks", () => {
+    const config = { size: 200, overlap: 50 };
+
+    it("should leave content that fits one passage unchunked", () => {
+      assert.deepEqual(splitIntoChunks("short memory", config), []);
+    });
+
+    it("should cover long content with overlapping passages cut at word boundaries", () => {
+      const content = longContent();
+      const chunks = splitIntoChunks(content, config);
+
+      assert.ok(chunks.length > 10);
+      assert.equal(chunks[0].start, 0);
+      assert.equal(chunks[chunks.length - 1].end, content.length);
+      for (let i = 0; i < chunks.length; i++) {
+        assert.equal(chunks[i].index, i);
+        assert.ok(chunks[i].end - chunks[i].start <= config.size);
+        assert.ok(/\s/.test(content[chunks[i].start - 1] ?? " "), `chunk ${i} starts mid-word`);
+        if (i > 0) assert.ok(chunks[i].start < chunks[i - 1].end, `chunk ${i} doesn't overlap`);
+      }
+    });
+  });
+
+  describe("snippets", () => {
+    it("should highlight query words and mark cut edges", () => {
+      const content = "Intro text. Our server listens on port 8080 behind nginx. Outro text.";
+      const start = content.indexOf("Our");
+      const end = content.indexOf(" Outro");
+      assert.equal(
+        buildSnippet(content, { start, end }, "which PORT does the server use"),
+        "…Our **server** listens on **port** 8080 behind nginx.…"
+      );
+    });
+
+    it("should keep whichever of memory and chunk scored higher", () => {
+      const merged = mergeSemanticResults(
+        [{ id: "a", score: 0.5 }, { id: "b", score: 0.4 }],
+        [{ id: "b", score: 0.9, start: 10, end: 20 }, { id: "a", score: 0.3, start: 0, end: 10 }]
+      );
+      assert.deepEqual(merged, [
+        { id: "b", score: 0.9, chunk: { start: 10, end: 20 } },
+        { id: "a", score: 0.5, chunk: null },
+      ]);
+    });
+  });
+
+  describe("recall", () => {
+    beforeEach(async () => {
+      testDir = join(tmpdir(), `moltmind-chunking-${crypto.randomUUID()}`);
+      mkdirSync(testDir, { recursive: true });
+      process.chdir(testDir);
+
+      db = await import("../src/db.js");
+      db.closeDb();
+      db.initProjectVault();
+
+      embeddings = await import("../src/embeddings.js");
+      embeddings.setEmbeddingProvider(new embeddings.HashEmbeddingProvider());
+      _resetChunkCache();
+    });
+
+    afterEach(() => {
+      embeddings._resetForTesting();
+      db.closeDb();
+      process.chdir(originalCwd);
+      if (existsSync(testDir)) {
+        rmSync(testDir, { recursive: true, force: true });
+      }
+    });
+
+    it("should score a long memory by its best passage and return it as a snippet", async () => {
+      const { handleMmStore } = await import("../src/tools/mm_store.js");
+      const { handleMmRecall } = await import("../src/tools/mm_recall.js");
+      const stored = await handleMmStore({ title: "Garden log", content: longContent() });
+      await handleMmStore({ title: "Short note", content: "Certificates are managed by the platform team." });
+
+      assert.ok(db.getMemoryChunks(stored.id!).length >= 4);
+
+      const result = await handleMmRecall({ query: "ingress certificate rotation", explain: true });
+      const hit = result.results.find((r) => r.id === stored.id)!;
+      assert.match(hit.snippet as string, /\*\*ingress\*\* \*\*certificate\*\* \*\*rotation\*\*/);
+
+      // The whole-memory embedding is swamped by the gardening notes
+      const query = (await embeddings.embed("ingress certificate rotation"))!;
+      const whole = embeddings.cosineSimilarity(query, embeddings.bufferToEmbedding(db.getMemoryRaw(stored.id!)!.embedding!));
+      assert.ok((hit.explain as { semantic: number }).semantic > whole * 2);
+    });
+
+    it("should keep top-k by best passage and decode chunks once across searches", async () => {
+      const { handleMmStore } = await import("../src/tools/mm_store.js");
+      const first = await handleMmStore({ title: "Garden log", content: longContent() });
+      const recipes = Array.from({ length: 60 }, (_, i) => `Recipe ${i} simmers onions with garlic and thyme.`).join(" ");
+      const second = await handleMmStore({ title: "Recipe book", content: recipes });
+      const query = (await embeddings.embed("ingress certificate rotation"))!;
+
+      const hits = searchChunks(query, 1);
+      assert.deepEqual(hits.map((h) => h.id), [first.id]);
+      assert.equal(getChunkCacheSize(), 2);
+      assert.deepEqual(searchChunks(query, 2).map((h) => h.id), [first.id, second.id]);
+      assert.equal(getChunkCacheSize(), 2);
+
+      // An edit drops the memory's cached passages along with its chunks
+      db.updateMemory(first.id!, { content: "Short now." });
+      assert.equal(getChunkCacheSize(), 1);
+      assert.deepEqual(searchChunks(query, 2).map((h) => h.id), [second.id]);
+    });
+
+    it("should drop chunks on edit and rebuild them in the re-embed worker", async () => {
+      const { handleMmStore } = await import("../src/tools/mm_store.js");
+      const reembed = await import("../src/reembed.js");
+      const stored = await handleMmStore({ title: "Garden log", content: longContent() });
+
+      db.updateMemory(stored.id!, { content: `${longContent()} Appended.` });
+      assert.equal(db.getMemoryChunks(stored.id!).length, 0);
+      assert.equal(reembed.getReembedStatus().queue, 1);
+
+      await reembed.drainReembedQueue();
+      const chunks = db.getMemoryChunks(stored.id!);
+      assert.ok(chunks.length >= 4);
+      assert.equal(chunks[0].embedding_model, "hash:384");
+      assert.equal(reembed.getReembedStatus().queue, 0);
+    });
+  });
+});
@@ -0,0 +1,142 @@
+import { describe, it, beforeEach, afterEach } from "node:test";
+import assert from "node:assert/strict";
+import { mkdirSync, rmSync, existsSync } from "node:fs";
+import { join } from "node:path";
+import { tmpdir } from "node:os";
+import crypto from "node:crypto";
+import { claimsOverlap, globToRegExp } from "../src/claims.js";
+
+const originalCwd = process.cwd();
+let testDir: string;
+let db: typeof import("../src/db.js");
+let metrics: typeof import("../src/metrics.js");
+let handleMmClaim: typeof import("../src/tools/mm_claim.js").handleMmClaim;
+let handleMmRelease: typeof import("../src/tools/mm_release.js").handleMmRelease;
+let handleMmClaims: typeof import("../src/tools/mm_claims.js").handleMmClaims;
+
+/** A second live session, as another agent process would have. */
+function otherSession(): string {
+  const id = crypto.randomUUID();
+  db.insertSession(id);
+  db.updateSessionHeartbeat(id, 22222);
+  return id;
+}
+
+describe("Resource patterns", () => {
+  it("should match globs and prefixes", () => {
+    assert.equal(globToRegExp("src/db/**").test("src/db/schema/v1.ts"), true);
+    assert.equal(globToRegExp("src/db/**").test("src/db"), true);
+    assert.equal(globToRegExp("src/db/").test("src/db/index.ts"), true);
+    assert.equal(globToRegExp("src/*.ts").test("src/db.ts"), true);
+    assert.equal(globToRegExp("src/*.ts").test("src/db/index.ts"), false);
+    assert.equal(globToRegExp("**/*.test.ts").test("tests/db.test.ts"), true);
+    assert.equal(globToRegExp("src/db.?s").test("src/db.ts"), true);
+    assert.equal(globToRegExp("src/db.ts").test("src/dbXts"), false);
+  });
+
+  it("should decide whether two claims overlap", () => {
+    assert.equal(claimsOverlap("src/db.ts", "src/db.ts"), true);
+    assert.equal(claimsOverlap("src/db.ts", "src/types.ts"), false);
+    assert.equal(claimsOverlap("src/db/**", "src/db/index.ts"), true);
+    assert.equal(claimsOverlap("src/db/index.ts", "src/db/"), true);
+    assert.equal(claimsOverlap("src/db/**", "src/tools/mm_store.ts"), false);
+    assert.equal(claimsOverlap("src/**", "src/db/*.ts"), true);
+    assert.equal(claimsOverlap("src/db/*", "tests/*"), false);
+  });
+});
+
+describe("Claim tools", () => {
+  beforeEach(async () => {
+    testDir = join(tmpdir(), `moltmind-claims-${crypto.randomUUID()}`);
+    mkdirSync(testDir, { recursive: true });
+    process.chdir(testDir);
+
+    db = await import("../src/db.js");
+    db.closeDb();
+    db.initProjectVault();
+
+    metrics = await import("../src/metrics.js");
+    metrics.initMetrics();
+    ({ handleMmClaim } = await import("../src/tools/mm_claim.js"));
+    ({ handleMmRelease } = await import("../src/tools/mm_release.js"));
+    ({ handleMmClaims } = await import("../src/tools/mm_claims.js"));
+  });
+
+  afterEach(() => {
+    db.closeDb();
+    process.chdir(originalCwd);
+    if (existsSync(testDir)) {
+      rmSync(testDir, { recursive: true, force: true });
+    }
+  });
+
+  it("should refuse overlapping claims and tell the holder", async () => {
+    const holder = otherSession();
+    db.claimResource(holder, "src/db/**", 22222, "splitting db.ts", { ttlSeconds: 300 });
+
+    const result = await handleMmClaim({ resources: ["src/db/index.ts", "src/types.ts"] });
+    assert.equal(result.success, false);
+    assert.deepEqual(result.claimed, ["src/types.ts"]);
+    assert.deepEqual(
+      (result.conflicts as Array<{ resource: string; held_by: string; held_resource: string }>).map((c) => [c.resource, c.held_by, c.held_resource]),
+      [["src/db/index.ts", holder, "src/db/**"]]
+    );
+
+    const events = db.getSessionEventsByType(holder, "claim_conflict");
+    assert.equal(events.length, 1);
+    assert.equal(events[0].resource_id, "src/db/**");
+    assert.match(events[0].summary!, /tried to claim src\/db\/index\.ts/);
+  });
+
+  it("should list claims with conflicts against this session", async () => {
+    await handleMmClaim({ resources: ["src/index.ts"], description: "adding tools" });
+    const other = otherSession();
+    db.claimResource(other, "README.md", 22222);
+    assert.equal(db.claimResource(other, "src/*.ts", 22222).success, false);
+
+    const all = await handleMmClaims({});
+    assert.deepEqual((all.claims as Array<{ resource: string; mine: boolean }>).map((c) => [c.resource, c.mine]), [
+      ["src/index.ts", true],
+      ["README.md", false],
+    ]);
+    assert.equal((all.conflicts as unknown[]).length, 1);
+
+    const mine = await handleMmClaims({ mine: true });
+    assert.equal((mine.claims as unknown[]).length, 1);
+    const overlapping = await handleMmClaims({ resource: "src/**" });
+    assert.equal((overlapping.claims as unknown[]).length, 1);
+  });
+
+  it("should release claims by name or all at once", async () => {
+    await handleMmClaim({ resources: ["a.ts", "b.ts", "c.ts"] });
+
+    const one = await handleMmRelease({ resources: ["a.ts", "missing.ts"] });
+    assert.equal(one.released, 1);
+    assert.deepEqual(one.not_held, ["missing.ts"]);
+
+    const rest = await handleMmRelease({ all: true });
+    assert.equal(rest.released, 2);
+    assert.equal(db.getActiveClaims().length, 0);
+    assert.equal((await handleMmRelease({})).success, false);
+  });
+
+  it("should let claims lapse after their TTL unless the heartbeat renews them", async () => {
+    await handleMmClaim({ resources: ["renewed.ts"], ttl_seconds: 60 });
+    await handleMmClaim({ resources: ["fixed.ts"], ttl_seconds: 60, renew: false });
+    const soon = new Date(Date.now() + 1000).toISOString();
+    const past = new Date(Date.now() - 1000).toISOString();
+    db.getDb().prepare("UPDATE session_claims SET expires_at = ? WHERE resource = 'renewed.ts'").run(soon);
+    db.getDb().prepare("UPDATE session_claims SET expires_at = ? WHERE resource = 'fixed.ts'").run(past);
+
+    // Expired claims no longer block anyone, even before they are swept
+    assert.deepEqual(db.getActiveClaims().map((c) => c.resource), ["renewed.ts"]);
+    const other = otherSession();
+    assert.equal(db.claimResource(other, "fixed.ts", 22222).success, true);
+
+    metrics.heartbeat();
+    const renewed = db.getActiveClaims(metrics.getCurrentSessionId()!);
+    assert.deepEqual(renewed.map((c) => c.resource), ["renewed.ts"]);
+    assert.ok(renewed[0].expires_at! > new Date(Date.now() + 30000).toISOString());
+    assert.equal(db.getActiveClaims(other)[0].resource, "fixed.ts");
+  });
+});
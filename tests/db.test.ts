@@ -95,6 +95,20 @@ describe("Database Layer", () => {
   });
 
   describe("updateMemory", () => {
+    it("should keep embedding_model in step with the embedding", () => {
+      const inserted = db.insertMemory({
+        type: "raw", title: "t", content: "c", tags: [], metadata: {},
+        embedding: Buffer.alloc(16), embedding_model: "hash:4", tier: "hot",
+      });
+      assert.equal(inserted.embedding_model, "hash:4");
+
+      const reembedded = db.updateMemory(inserted.id, { embedding: Buffer.alloc(16), embedding_model: "openai:x" });
+      assert.equal(reembedded!.embedding_model, "openai:x");
+
+      const cleared = db.updateMemory(inserted.id, { embedding: null });
+      assert.equal(cleared!.embedding_model, null);
+    });
+
     it("should update specified fields", () => {
       const inserted = db.insertMemory({
         type: "decision",
@@ -182,6 +196,41 @@ describe("Database Layer", () => {
       const results = db.searchMemoriesFTS("nonexistentterm");
       assert.equal(results.length, 0);
     });
+
+    it("should treat FTS5 operator characters as plain text", () => {
+      db.insertMemory({ type: "raw", title: "Port config", content: "Use port 8080 for the dev-server.", tags: [], metadata: {}, embedding: null, tier: "hot" });
+      for (const query of ["dev-server", "port: 8080", "\"unterminated", "(port", "port AND", "NOT", "*", "-"]) {
+        assert.doesNotThrow(() => db.searchMemoriesFTS(query), query);
+      }
+      assert.equal(db.searchMemoriesFTS("dev-server").length, 1);
+    });
+
+    it("should apply filters inside the FTS query", () => {
+      db.insertMemory({ type: "decision", title: "Cache layer", content: "Redis cache", tags: ["infra"], metadata: {}, embedding: null, tier: "hot" });
+      db.insertMemory({ type: "learning", title: "Cache bug", content: "Stale cache entries", tags: ["bug"], metadata: {}, embedding: null, tier: "hot" });
+
+      assert.equal(db.searchMemoriesFTS("cache", 10, { types: ["decision"] })[0].title, "Cache layer");
+      assert.equal(db.searchMemoriesFTS("cache", 10, { tags: ["bug"] })[0].title, "Cache bug");
+      assert.equal(db.searchMemoriesFTS("cache", 10, { exclude_terms: ["redis"] }).length, 1);
+      assert.equal(db.searchMemoriesFTS("cache", 10, { after: "2999-01-01T00:00:00.000Z" }).length, 0);
+    });
+
+    it("should filter on tags_any and metadata predicates", () => {
+      db.insertMemory({ type: "raw", title: "Build alpha", content: "build", tags: ["ci"], metadata: { repo: "alpha", priority: 3, flaky: true, files: ["a.ts"] }, embedding: null, tier: "hot" });
+      db.insertMemory({ type: "raw", title: "Build beta", content: "build", tags: ["cd"], metadata: { repo: "beta", priority: 1 }, embedding: null, tier: "hot" });
+
+      const titles = (filters: Parameters<typeof db.searchMemoriesFTS>[2]) =>
+        db.searchMemoriesFTS("build", 10, filters).map((m) => m.title).sort();
+
+      assert.deepEqual(titles({ tags_any: ["ci", "cd"] }), ["Build alpha", "Build beta"]);
+      assert.deepEqual(titles({ metadata: [{ path: "repo", value: "beta" }] }), ["Build beta"]);
+      assert.deepEqual(titles({ metadata: [{ path: "priority", op: "gte", value: 2 }] }), ["Build alpha"]);
+      assert.deepEqual(titles({ metadata: [{ path: "flaky", value: true }] }), ["Build alpha"]);
+      assert.deepEqual(titles({ metadata: [{ path: "flaky", op: "ne", value: true }] }), ["Build beta"]);
+      assert.deepEqual(titles({ metadata: [{ path: "repo", op: "in", value: ["alpha", "gamma"] }] }), ["Build alpha"]);
+      assert.deepEqual(titles({ metadata: [{ path: "files", op: "contains", value: "a.ts" }] }), ["Build alpha"]);
+      assert.deepEqual(titles({ metadata: [{ path: "flaky", op: "exists" }] }), ["Build alpha"]);
+    });
   });
 
   describe("getAllMemories", () => {
@@ -287,9 +336,30 @@ describe("Database Layer", () => {
   });
 
   describe("migrations", () => {
-    it("should set schema version to 7 after all migrations", () => {
+    it("should set schema version to 17 after all migrations", () => {
       const version = db.getDbSchemaVersion();
-      assert.equal(version, 7);
+      assert.equal(version, 17);
+    });
+
+    it("should leave only the latest legacy handoff per target outstanding on upgrade to v16", () => {
+      const handoff = (id: string, created_at: string, extra: Record<string, string> = {}) => db.insertHandoff({
+        id, goal: id, current_state: "s", next_action: "n", constraints: [], known_unknowns: [], artifacts: [],
+        stop_conditions: [], session_id: "s1", created_at, ...extra,
+      });
+      handoff("old", "2025-01-01T00:00:00.000Z");
+      handoff("continued", "2025-01-02T00:00:00.000Z", { target: "qa" });
+      handoff("child", "2025-01-03T00:00:00.000Z", { target: "qa", parent_handoff_id: "continued", accepted_by: "s2", accepted_at: "2025-01-04T00:00:00.000Z" });
+      handoff("latest", "2025-01-05T00:00:00.000Z");
+
+      // Roll the vault back to v15: no handoff state yet
+      const raw = db.getDb();
+      raw.exec("DROP INDEX idx_handoffs_state");
+      for (const column of ["state", "met_stop_conditions", "resolved_unknowns", "updated_at"]) raw.exec(`ALTER TABLE handoffs DROP COLUMN ${column}`);
+      raw.prepare("UPDATE meta SET value = '15' WHERE key = 'schema_version'").run();
+      db.closeDb();
+
+      const states = Object.fromEntries(db.getAllHandoffs().map((h) => [h.id, h.state]));
+      assert.deepEqual(states, { old: "done", continued: "done", child: "in_progress", latest: "open" });
     });
 
     it("should be idempotent — reopening DB does not re-run migrations", () => {
@@ -299,7 +369,7 @@ describe("Database Layer", () => {
       db.getDb(); // reopen triggers migrate() which should be a no-op
 
       const version = db.getDbSchemaVersion();
-      assert.equal(version, 7);
+      assert.equal(version, 17);
 
       const all = db.getAllMemories();
       assert.equal(all.length, 1);
@@ -0,0 +1,182 @@
+import { describe, it, beforeEach, afterEach } from "node:test";
+import assert from "node:assert/strict";
+import { mkdirSync, rmSync, existsSync } from "node:fs";
+import { join } from "node:path";
+import { tmpdir } from "node:os";
+import crypto from "node:crypto";
+
+const originalCwd = process.cwd();
+let testDir: string;
+let db: typeof import("../src/db.js");
+let decay: typeof import("../src/decay.js");
+let metrics: typeof import("../src/metrics.js");
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const config = { half_life_days: 30, warm_threshold: 0.5, cold_threshold: 0.15, interval_ms: 600000 };
+
+function daysAgo(days: number, now: number): string {
+  return new Date(now - days * DAY_MS).toISOString();
+}
+
+describe("Decay Engine", () => {
+  beforeEach(async () => {
+    testDir = join(tmpdir(), `moltmind-decay-${crypto.randomUUID()}`);
+    mkdirSync(testDir, { recursive: true });
+    process.chdir(testDir);
+
+    db = await import("../src/db.js");
+    db.closeDb();
+    db.initProjectVault();
+
+    metrics = await import("../src/metrics.js");
+    metrics.initMetrics();
+
+    decay = await import("../src/decay.js");
+    decay._resetDecay();
+  });
+
+  afterEach(() => {
+    db.closeDb();
+    process.chdir(originalCwd);
+    if (existsSync(testDir)) {
+      rmSync(testDir, { recursive: true, force: true });
+    }
+  });
+
+  describe("computeDecayScore", () => {
+    it("should return 1.0 for a memory accessed just now", () => {
+      const now = Date.now();
+      const score = decay.computeDecayScore({ created_at: daysAgo(0, now), accessed_at: daysAgo(0, now), access_count: 0 }, config, now);
+      assert.equal(score, 1);
+    });
+
+    it("should halve after one half-life without access", () => {
+      const now = Date.now();
+      const score = decay.computeDecayScore({ created_at: daysAgo(30, now), accessed_at: daysAgo(30, now), access_count: 0 }, config, now);
+      assert.ok(Math.abs(score - 0.5) < 0.001, `Expected ~0.5, got ${score}`);
+    });
+
+    it("should decay slower for frequently accessed memories", () => {
+      const now = Date.now();
+      const unused = decay.computeDecayScore({ created_at: daysAgo(60, now), accessed_at: daysAgo(45, now), access_count: 0 }, config, now);
+      const used = decay.computeDecayScore({ created_at: daysAgo(60, now), accessed_at: daysAgo(45, now), access_count: 40 }, config, now);
+      assert.ok(used > unused, `Expected ${used} > ${unused}`);
+    });
+  });
+
+  describe("tierForScore", () => {
+    it("should map scores to tiers using thresholds", () => {
+      assert.equal(decay.tierForScore(0.9, config), "hot");
+      assert.equal(decay.tierForScore(0.3, config), "warm");
+      assert.equal(decay.tierForScore(0.05, config), "cold");
+    });
+  });
+
+  describe("runDecayPass", () => {
+    it("should demote stale memories and leave fresh ones hot", () => {
+      const now = Date.now();
+      db.insertMemory({ id: "fresh", type: "raw", title: "Fresh", content: "c", tags: [], metadata: {}, embedding: null, tier: "hot" });
+      db.insertMemory({
+        id: "stale", type: "raw", title: "Stale", content: "c", tags: [], metadata: {}, embedding: null, tier: "hot",
+        created_at: daysAgo(50, now), accessed_at: daysAgo(50, now),
+      });
+      db.insertMemory({
+        id: "ancient", type: "raw", title: "Ancient", content: "c", tags: [], metadata: {}, embedding: null, tier: "hot",
+        created_at: daysAgo(200, now), accessed_at: daysAgo(200, now),
+      });
+
+      const result = decay.runDecayPass(config, now);
+      assert.equal(result.scanned, 3);
+      assert.equal(result.transitions.length, 2);
+
+      const all = new Map(db.getAllMemories(undefined, 10).map((m) => [m.id, m]));
+      assert.equal(all.get("fresh")!.tier, "hot");
+      assert.equal(all.get("stale")!.tier, "warm");
+      assert.equal(all.get("ancient")!.tier, "cold");
+      assert.ok(all.get("stale")!.decay_score < 0.5);
+    });
+
+    it("should not touch archived memories or updated_at", () => {
+      const now = Date.now();
+      const old = daysAgo(200, now);
+      db.insertMemory({
+        id: "archived", type: "raw", title: "Archived", content: "c", tags: [], metadata: {}, embedding: null, tier: "archived",
+        created_at: old, updated_at: old, accessed_at: old,
+      });
+      db.insertMemory({
+        id: "old", type: "raw", title: "Old", content: "c", tags: [], metadata: {}, embedding: null, tier: "hot",
+        created_at: old, updated_at: old, accessed_at: old,
+      });
+
+      decay.runDecayPass(config, now);
+
+      const all = new Map(db.getAllMemories(undefined, 10, true).map((m) => [m.id, m]));
+      assert.equal(all.get("archived")!.tier, "archived");
+      assert.equal(all.get("old")!.tier, "cold");
+      assert.equal(all.get("old")!.updated_at, old);
+    });
+
+    it("should record each transition as a session event", () => {
+      const now = Date.now();
+      db.insertMemory({
+        id: "stale-event", type: "raw", title: "Stale", content: "c", tags: [], metadata: {}, embedding: null, tier: "hot",
+        created_at: daysAgo(50, now), accessed_at: daysAgo(50, now),
+      });
+
+      decay.runDecayPass(config, now);
+
+      const events = db.getSessionEvents(metrics.getCurrentSessionId()!);
+      const tierEvent = events.find((e) => e.event_type === "tier_changed");
+      assert.ok(tierEvent);
+      assert.equal(tierEvent.resource_id, "stale-event");
+      assert.ok(tierEvent.summary?.includes("hot → warm"));
+    });
+  });
+
+  describe("change notifications", () => {
+    it("should tell memory listeners about decay demotions and read promotions", () => {
+      const now = Date.now();
+      db.insertMemory({
+        id: "fading", type: "raw", title: "Fading", content: "c", tags: [], metadata: {}, embedding: null, tier: "hot",
+        created_at: daysAgo(200, now), accessed_at: daysAgo(200, now),
+      });
+      const moves: string[] = [];
+      const unsubscribe = db.addMemoryListener(({ memory, tier_from }) => {
+        if (tier_from) moves.push(`${memory.id}: ${tier_from} → ${memory.tier}`);
+      });
+
+      decay.runDecayPass(config, now);
+      db.getMemory("fading");
+      unsubscribe();
+
+      assert.deepEqual(moves, ["fading: hot → cold", "fading: cold → hot"]);
+    });
+  });
+
+  describe("promotion on access", () => {
+    it("should promote a cold memory back to hot when read", () => {
+      db.insertMemory({ id: "cold-one", type: "raw", title: "Cold", content: "c", tags: [], metadata: {}, embedding: null, tier: "cold", decay_score: 0.1 });
+
+      const memory = db.getMemory("cold-one");
+      assert.equal(memory!.tier, "hot");
+      assert.equal(memory!.decay_score, 1);
+
+      const events = db.getSessionEvents(metrics.getCurrentSessionId()!);
+      assert.ok(events.some((e) => e.event_type === "tier_changed" && e.summary?.includes("cold → hot")));
+    });
+
+    it("should not promote archived memories", () => {
+      db.insertMemory({ id: "gone", type: "raw", title: "Gone", content: "c", tags: [], metadata: {}, embedding: null, tier: "archived" });
+      const memory = db.getMemory("gone");
+      assert.equal(memory!.tier, "archived");
+    });
+  });
+
+  describe("maybeRunDecay", () => {
+    it("should only run once per interval", () => {
+      const now = Date.now();
+      assert.equal(decay.maybeRunDecay(now), true);
+      assert.equal(decay.maybeRunDecay(now + 1000), false);
+    });
+  });
+});
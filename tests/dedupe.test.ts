@@ -0,0 +1,260 @@
+import { describe, it, beforeEach, afterEach } from "node:test";
+import assert from "node:assert/strict";
+import { mkdirSync, rmSync, existsSync, renameSync } from "node:fs";
+import { join } from "node:path";
+import { tmpdir, homedir } from "node:os";
+import crypto from "node:crypto";
+
+const originalCwd = process.cwd();
+let testDir: string;
+let db: typeof import("../src/db.js");
+let embeddings: typeof import("../src/embeddings.js");
+let handleMmStore: typeof import("../src/tools/mm_store.js").handleMmStore;
+let handleMmStoreBatch: typeof import("../src/tools/mm_store_batch.js").handleMmStoreBatch;
+let handleMmDedupe: typeof import("../src/tools/mm_dedupe.js").handleMmDedupe;
+
+// Hash embeddings put these two at ~0.87 cosine, an unrelated memory near 0.1
+const ORIGINAL = { title: "Deploy", content: "Run npm run deploy from the repo root.", tags: ["ops"] };
+const REWORDED = { title: "Deploy", content: "Run npm run deploy from the repo root, it needs AWS credentials.", tags: ["aws"] };
+const UNRELATED = { title: "Port", content: "The API listens on port 8080." };
+
+// Fill a memory's content to just under the size cap, leaving its embedding alone
+function fill(id: string): void {
+  db.getDb().prepare("UPDATE memories SET content = content || ? WHERE id = ?").run(" ".repeat(51150), id);
+}
+
+// Stores in the same millisecond would tie on created_at
+function backdate(id: string): void {
+  db.getDb().prepare("UPDATE memories SET created_at = '2025-01-01T00:00:00.000Z' WHERE id = ?").run(id);
+}
+
+describe("Near-Duplicate Detection", () => {
+  beforeEach(async () => {
+    testDir = join(tmpdir(), `moltmind-dedupe-${crypto.randomUUID()}`);
+    mkdirSync(testDir, { recursive: true });
+    process.chdir(testDir);
+    process.env.MOLTMIND_DEDUPE_THRESHOLD = "0.85";
+
+    db = await import("../src/db.js");
+    db.closeDb();
+    db.initProjectVault();
+
+    embeddings = await import("../src/embeddings.js");
+    embeddings.setEmbeddingProvider(new embeddings.HashEmbeddingProvider());
+    ({ handleMmStore } = await import("../src/tools/mm_store.js"));
+    ({ handleMmStoreBatch } = await import("../src/tools/mm_store_batch.js"));
+    ({ handleMmDedupe } = await import("../src/tools/mm_dedupe.js"));
+  });
+
+  afterEach(() => {
+    delete process.env.MOLTMIND_DEDUPE_THRESHOLD;
+    delete process.env.MOLTMIND_DEDUPE_POLICY;
+    delete process.env.MOLTMIND_DEDUPE_SCAN_LIMIT;
+    embeddings._resetForTesting();
+    db.closeDb();
+    process.chdir(originalCwd);
+    if (existsSync(testDir)) {
+      rmSync(testDir, { recursive: true, force: true });
+    }
+  });
+
+  describe("mm_store", () => {
+    it("should store near-duplicates by default", async () => {
+      await handleMmStore(ORIGINAL);
+      const second = await handleMmStore(REWORDED);
+
+      assert.equal(second.success, true);
+      assert.equal(second.duplicate_of, undefined);
+      assert.equal(db.getMemoryStats().total, 2);
+    });
+
+    it("should return the existing id without storing under the return policy", async () => {
+      process.env.MOLTMIND_DEDUPE_POLICY = "return";
+      const first = await handleMmStore(ORIGINAL);
+      const second = await handleMmStore(REWORDED);
+
+      assert.equal(second.success, true);
+      assert.equal(second.stored, false);
+      assert.equal(second.id, first.id);
+      assert.equal(second.duplicate_of, first.id);
+      assert.ok(second.similarity! >= 0.85);
+      assert.equal(db.getMemoryStats().total, 1);
+    });
+
+    it("should reject a near-duplicate under the reject policy", async () => {
+      process.env.MOLTMIND_DEDUPE_POLICY = "reject";
+      const first = await handleMmStore(ORIGINAL);
+      const second = await handleMmStore(REWORDED);
+
+      assert.equal(second.success, false);
+      assert.equal(second.id, undefined);
+      assert.equal(second.duplicate_of, first.id);
+      assert.match(second.message!, /Near-duplicate of "Deploy"/);
+    });
+
+    it("should append content and union tags under the merge policy", async () => {
+      const first = await handleMmStore(ORIGINAL);
+      const second = await handleMmStore({ ...REWORDED, on_duplicate: "merge" });
+
+      assert.equal(second.merged, true);
+      assert.equal(second.id, first.id);
+      const merged = db.getMemoryRaw(first.id!)!;
+      assert.equal(merged.content, `${ORIGINAL.content}\n\n${REWORDED.content}`);
+      assert.deepEqual(merged.tags, ["ops", "aws"]);
+      assert.equal(merged.embedding_model, "hash:384");
+    });
+
+    it("should store the memory on its own when it is too large to merge", async () => {
+      const first = await handleMmStore(ORIGINAL);
+      fill(first.id!);
+      const second = await handleMmStore({ ...REWORDED, on_duplicate: "merge" });
+
+      assert.equal(second.success, true);
+      assert.equal(second.merged, undefined);
+      assert.notEqual(second.id, first.id);
+      assert.match(second.message!, /too large to merge/);
+      assert.ok(!db.getMemoryRaw(first.id!)!.content.includes("AWS credentials"));
+      assert.deepEqual(db.getMemoryRaw(first.id!)!.tags, ["ops"]);
+    });
+
+    it("should say when links were added to the returned memory", async () => {
+      process.env.MOLTMIND_DEDUPE_POLICY = "return";
+      const first = await handleMmStore(ORIGINAL);
+      const other = await handleMmStore(UNRELATED);
+      const second = await handleMmStore({ ...REWORDED, links: [{ target_id: other.id!, type: "relates_to" }] });
+
+      assert.equal(second.stored, false);
+      assert.match(second.message!, /its links were added to that memory/);
+      assert.deepEqual(db.getMemoryLinks([first.id!]).map((l) => [l.source_id, l.target_id]), [[first.id, other.id]]);
+    });
+
+    it("should store unrelated memories and honor on_duplicate allow", async () => {
+      process.env.MOLTMIND_DEDUPE_POLICY = "return";
+      await handleMmStore(ORIGINAL);
+      assert.equal((await handleMmStore(UNRELATED)).duplicate_of, undefined);
+      assert.equal((await handleMmStore({ ...REWORDED, on_duplicate: "allow" })).duplicate_of, undefined);
+      assert.equal(db.getMemoryStats().total, 3);
+    });
+
+    it("should return duplicates even when the free tier limit is reached", async () => {
+      const licensePath = join(homedir(), ".moltmind", "license.key");
+      const licenseBackup = licensePath + ".test-backup";
+      const hadLicense = existsSync(licensePath);
+      if (hadLicense) renameSync(licensePath, licenseBackup);
+      const { _resetLicenseCache } = await import("../src/license.js");
+      _resetLicenseCache();
+
+      try {
+        process.env.MOLTMIND_DEDUPE_POLICY = "return";
+        const first = await handleMmStore(ORIGINAL);
+        for (let i = 0; i < 19; i++) {
+          db.insertMemory({ type: "raw", title: `Filler ${i}`, content: `${i}`, tags: [], metadata: {}, embedding: null, tier: "hot" });
+        }
+        assert.equal((await handleMmStore(UNRELATED)).success, false);
+
+        const duplicate = await handleMmStore(REWORDED);
+        assert.equal(duplicate.success, true);
+        assert.equal(duplicate.id, first.id);
+      } finally {
+        if (hadLicense) renameSync(licenseBackup, licensePath);
+        _resetLicenseCache();
+      }
+    });
+  });
+
+  describe("mm_store_batch", () => {
+    it("should report near-duplicates per item under the return policy", async () => {
+      const first = await handleMmStore(ORIGINAL);
+      const result = await handleMmStoreBatch({ memories: [REWORDED, UNRELATED], on_duplicate: "return" });
+
+      assert.equal(result.success, true);
+      assert.equal(result.stored, 1);
+      assert.equal(result.duplicates, 1);
+      const [duplicate, stored] = result.results as import("../src/tools/mm_store_batch.js").StoreBatchResult[];
+      assert.equal(duplicate.stored, false);
+      assert.equal(duplicate.id, first.id);
+      assert.equal(duplicate.duplicate_of, first.id);
+      assert.equal(stored.success, true);
+      assert.equal(db.getMemoryStats().total, 2);
+    });
+
+    it("should refuse near-duplicate items under the reject policy", async () => {
+      process.env.MOLTMIND_DEDUPE_POLICY = "reject";
+      const first = await handleMmStore(ORIGINAL);
+      const result = await handleMmStoreBatch({ memories: [REWORDED] });
+
+      assert.equal(result.success, false);
+      assert.equal(result.failed, 1);
+      const [item] = result.results as import("../src/tools/mm_store_batch.js").StoreBatchResult[];
+      assert.equal(item.duplicate_of, first.id);
+      assert.match(item.message!, /Near-duplicate of "Deploy"/);
+      assert.equal(db.getMemoryStats().total, 1);
+    });
+
+    it("should merge near-duplicate items under the merge policy", async () => {
+      const first = await handleMmStore(ORIGINAL);
+      const result = await handleMmStoreBatch({ memories: [REWORDED], on_duplicate: "merge" });
+
+      const [item] = result.results as import("../src/tools/mm_store_batch.js").StoreBatchResult[];
+      assert.equal(item.merged, true);
+      assert.equal(item.id, first.id);
+      assert.ok(db.getMemoryRaw(first.id!)!.content.includes("AWS credentials"));
+      assert.equal(db.getMemoryStats().total, 1);
+    });
+  });
+
+  describe("mm_dedupe", () => {
+    it("should propose clusters keyed on the oldest memory", async () => {
+      const original = await handleMmStore(ORIGINAL);
+      backdate(original.id!);
+      const reworded = await handleMmStore({ ...REWORDED, on_duplicate: "allow" });
+      await handleMmStore(UNRELATED);
+
+      const result = await handleMmDedupe({});
+      assert.equal(result.applied, false);
+      assert.equal(result.duplicates, 1);
+      const [cluster] = result.clusters as import("../src/dedupe.js").DuplicateCluster[];
+      assert.equal(cluster.keep.id, original.id);
+      assert.deepEqual(cluster.duplicates.map((d) => d.id), [reworded.id]);
+      assert.equal(db.getMemoryStats().total, 3);
+    });
+
+    it("should merge clusters and archive the duplicates on apply", async () => {
+      const original = await handleMmStore(ORIGINAL);
+      backdate(original.id!);
+      const reworded = await handleMmStore({ ...REWORDED, on_duplicate: "allow" });
+
+      const result = await handleMmDedupe({ apply: true });
+      assert.equal(result.merged, 1);
+
+      const kept = db.getMemoryRaw(original.id!)!;
+      assert.ok(kept.content.includes("AWS credentials"));
+      assert.deepEqual(kept.metadata.merged_from, [reworded.id]);
+      assert.equal(db.getMemoryRaw(reworded.id!)!.tier, "archived");
+      assert.equal((await handleMmDedupe({})).duplicates, 0);
+    });
+
+    it("should leave duplicates that do not fit in place", async () => {
+      const original = await handleMmStore(ORIGINAL);
+      backdate(original.id!);
+      fill(original.id!);
+      const reworded = await handleMmStore({ ...REWORDED, on_duplicate: "allow" });
+
+      const result = await handleMmDedupe({ apply: true });
+      assert.equal(result.merged, 0);
+      assert.deepEqual(result.skipped, [reworded.id]);
+      assert.equal(db.getMemoryRaw(reworded.id!)!.tier, "hot");
+      assert.equal(db.getMemoryRaw(original.id!)!.metadata.merged_from, undefined);
+    });
+
+    it("should refuse vaults over the scan limit", async () => {
+      process.env.MOLTMIND_DEDUPE_SCAN_LIMIT = "1";
+      await handleMmStore(ORIGINAL);
+      await handleMmStore(UNRELATED);
+
+      const result = await handleMmDedupe({});
+      assert.equal(result.success, false);
+      assert.match(result.message as string, /2 embedded memories, over the mm_dedupe scan limit of 1/);
+    });
+  });
+});
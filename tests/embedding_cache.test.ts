@@ -0,0 +1,149 @@
+import { describe, it, beforeEach, afterEach } from "node:test";
+import assert from "node:assert/strict";
+import { mkdirSync, rmSync, existsSync } from "node:fs";
+import { join } from "node:path";
+import { tmpdir } from "node:os";
+import crypto from "node:crypto";
+import type { EmbeddingProvider } from "../src/embeddings.js";
+
+const originalCwd = process.cwd();
+let testDir: string;
+let db: typeof import("../src/db.js");
+let embeddings: typeof import("../src/embeddings.js");
+let cache: typeof import("../src/embedding_cache.js");
+let embedded: string[];
+
+// Hash embeddings, recording every text that reached the model
+function countingProvider(dimensions: number = 384): EmbeddingProvider {
+  const inner = new embeddings.HashEmbeddingProvider(dimensions);
+  return {
+    id: inner.id,
+    dimensions,
+    embed: async (text) => {
+      embedded.push(text);
+      return inner.embed(text);
+    },
+    isReady: () => true,
+  };
+}
+
+describe("Embedding Cache", () => {
+  beforeEach(async () => {
+    testDir = join(tmpdir(), `moltmind-embcache-${crypto.randomUUID()}`);
+    mkdirSync(testDir, { recursive: true });
+    process.chdir(testDir);
+
+    db = await import("../src/db.js");
+    db.closeDb();
+    db.initProjectVault();
+
+    embeddings = await import("../src/embeddings.js");
+    cache = await import("../src/embedding_cache.js");
+    cache._resetEmbeddingCache();
+    embedded = [];
+    embeddings.setEmbeddingProvider(countingProvider());
+  });
+
+  afterEach(() => {
+    delete process.env.MOLTMIND_QUERY_CACHE_SIZE;
+    embeddings._resetForTesting();
+    db.closeDb();
+    process.chdir(originalCwd);
+    if (existsSync(testDir)) {
+      rmSync(testDir, { recursive: true, force: true });
+    }
+  });
+
+  it("should reuse the vector of a repeated query", async () => {
+    const first = await cache.embedQuery("where is the deploy script");
+    const second = await cache.embedQuery("where is the deploy script");
+
+    assert.deepEqual(first, second);
+    assert.deepEqual(embedded, ["where is the deploy script"]);
+    const stats = cache.getEmbeddingCacheStats().query;
+    assert.deepEqual([stats.hits, stats.misses, stats.hit_rate, stats.entries], [1, 1, 0.5, 1]);
+  });
+
+  it("should evict the least recently used query", async () => {
+    process.env.MOLTMIND_QUERY_CACHE_SIZE = "2";
+    cache._resetEmbeddingCache();
+
+    await cache.embedQuery("a");
+    await cache.embedQuery("b");
+    await cache.embedQuery("a");
+    await cache.embedQuery("c"); // evicts b
+    await cache.embedQuery("a");
+    await cache.embedQuery("b");
+
+    assert.deepEqual(embedded, ["a", "b", "c", "b"]);
+    assert.equal(cache.getEmbeddingCacheStats().query.capacity, 2);
+  });
+
+  it("should persist memory text embeddings per model across restarts", async () => {
+    const vectors = await cache.embedTexts(["alpha", "beta", "alpha"]);
+    assert.deepEqual(embedded, ["alpha", "beta"]);
+    assert.deepEqual(vectors[0], vectors[2]);
+
+    db.closeDb();
+    db.initProjectVault();
+    cache._resetEmbeddingCache();
+    assert.deepEqual(await cache.embedText("beta"), vectors[1]);
+    assert.deepEqual(embedded, ["alpha", "beta"]);
+    assert.equal(cache.getEmbeddingCacheStats().text.hit_rate, 1);
+
+    // Another model has its own vector space
+    embeddings.setEmbeddingProvider(countingProvider(64));
+    assert.equal((await cache.embedText("beta"))!.length, 64);
+    assert.deepEqual(embedded, ["alpha", "beta", "beta"]);
+  });
+
+  it("should not cache failed embeddings", async () => {
+    embeddings._setModelFailed();
+    assert.equal(await cache.embedText("offline"), null);
+    assert.equal(await cache.embedQuery("offline"), null);
+    assert.equal(db.countCachedEmbeddings(), 0);
+    assert.equal(cache.getEmbeddingCacheStats().query.entries, 0);
+  });
+
+  it("should prune the least recently used entries", () => {
+    db.putCachedEmbeddings("m", [["old", Buffer.alloc(4)]]);
+    db.getDb().prepare("UPDATE embedding_cache SET last_used_at = '2020-01-01T00:00:00.000Z'").run();
+    db.putCachedEmbeddings("m", [["new", Buffer.alloc(4)]]);
+
+    assert.equal(db.pruneEmbeddingCache(1), 1);
+    assert.deepEqual([...db.getCachedEmbeddings("m", ["old", "new"]).keys()], ["new"]);
+  });
+
+  it("should record cache hits without writing until the next insert", async () => {
+    await cache.embedText("hit");
+    const backdate = () => db.getDb().prepare("UPDATE embedding_cache SET last_used_at = '2020-01-01T00:00:00.000Z'").run();
+    const lastUsed = () => (db.getDb().prepare("SELECT last_used_at FROM embedding_cache WHERE hash = ?")
+      .get(cache.contentHash("hit")) as { last_used_at: string }).last_used_at;
+    backdate();
+
+    await cache.embedText("hit");
+    assert.equal(lastUsed(), "2020-01-01T00:00:00.000Z");
+
+    await cache.embedText("miss");
+    assert.ok(lastUsed() > "2020-01-01T00:00:00.000Z");
+  });
+
+  it("should serve mm_store, mm_update and mm_recall, and report hit rates in mm_metrics", async () => {
+    const { handleMmStore } = await import("../src/tools/mm_store.js");
+    const { handleMmUpdate } = await import("../src/tools/mm_update.js");
+    const { handleMmRecall } = await import("../src/tools/mm_recall.js");
+    const { handleMmMetrics } = await import("../src/tools/mm_metrics.js");
+
+    const stored = await handleMmStore({ title: "Port", content: "The API listens on 8080." });
+    await handleMmStore({ title: "Port", content: "The API listens on 8080." });
+    await handleMmUpdate({ id: stored.id!, title: "Port", content: "The API listens on 8080." });
+    await handleMmRecall({ query: "api port" });
+    await handleMmRecall({ query: "api port" });
+
+    assert.deepEqual(embedded, ["Port The API listens on 8080.", "api port"]);
+    const metrics = await handleMmMetrics();
+    const stats = metrics.embedding_cache as import("../src/embedding_cache.js").EmbeddingCacheStats;
+    assert.deepEqual([stats.text.hits, stats.text.misses, stats.text.entries], [2, 1, 1]);
+    assert.deepEqual([stats.query.hits, stats.query.misses], [1, 1]);
+  });
+});
@@ -1,15 +1,30 @@
 import { describe, it, beforeEach } from "node:test";
 import assert from "node:assert/strict";
+import { createServer } from "node:http";
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from "node:fs";
+import { join } from "node:path";
+import { tmpdir } from "node:os";
+import type { AddressInfo } from "node:net";
 import {
   cosineSimilarity,
   embeddingToBuffer,
   bufferToEmbedding,
   semanticSearch,
   embed,
+  embedBatch,
   isModelReady,
+  getModelName,
+  normalizeModelId,
+  createEmbeddingProvider,
+  setEmbeddingProvider,
+  HashEmbeddingProvider,
+  HttpEmbeddingProvider,
+  TransformersProvider,
+  modelRetryDelay,
   _resetForTesting,
   _setModelFailed,
 } from "../src/embeddings.js";
+import { REQUIRED_MODEL_FILES, verifyModelFiles, writeModelManifest } from "../src/model_files.js";
 
 describe("Embedding Engine", () => {
   beforeEach(() => {
@@ -107,4 +122,163 @@ describe("Embedding Engine", () => {
       assert.ok(midScore > farScore, "Mid should score higher than far");
     });
   });
+
+  describe("providers", () => {
+    it("should default to the bundled MiniLM model", () => {
+      assert.equal(getModelName(), "transformers:Xenova/all-MiniLM-L6-v2");
+      assert.equal(normalizeModelId("Xenova/all-MiniLM-L6-v2"), getModelName());
+    });
+
+    it("should embed deterministically with the hash provider", async () => {
+      const provider = new HashEmbeddingProvider(64);
+      const a = (await provider.embed("sqlite write ahead log"))!;
+      const b = (await provider.embed("sqlite write ahead log"))!;
+      const near = (await provider.embed("the sqlite log"))!;
+      const far = (await provider.embed("banana smoothie recipe"))!;
+
+      assert.equal(a.length, 64);
+      assert.deepEqual(a, b);
+      assert.ok(cosineSimilarity(a, near) > cosineSimilarity(a, far));
+    });
+
+    it("should build providers from config", () => {
+      const base = { model: null, url: null, api_key: null, dimensions: null, model_dir: null };
+      assert.equal(createEmbeddingProvider({ ...base, provider: "hash", dimensions: 32 }).id, "hash:32");
+      assert.equal(createEmbeddingProvider({ ...base, provider: "transformers", model: "Xenova/bge-base-en-v1.5" }).dimensions, 768);
+      assert.throws(() => createEmbeddingProvider({ ...base, provider: "openai" }), /embedding-model/);
+      assert.equal(createEmbeddingProvider({ ...base, provider: "openai", model: "nomic-embed-text" }).id, "openai:nomic-embed-text");
+    });
+
+    it("should call an OpenAI-compatible endpoint", async () => {
+      let request: { model?: string; input?: string } = {};
+      let auth: string | undefined;
+      const server = createServer((req, res) => {
+        let body = "";
+        req.on("data", (chunk) => { body += chunk; });
+        req.on("end", () => {
+          request = JSON.parse(body);
+          auth = req.headers.authorization;
+          res.setHeader("Content-Type", "application/json");
+          res.end(JSON.stringify({ data: [{ embedding: [0.5, 0.5, 0.5] }] }));
+        });
+      });
+      await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+      try {
+        const { port } = server.address() as AddressInfo;
+        const provider = new HttpEmbeddingProvider({ url: `http://127.0.0.1:${port}/v1/`, model: "tiny", api_key: "secret", dimensions: 3 });
+        const vector = await provider.embed("hello");
+
+        assert.deepEqual([...vector!], [0.5, 0.5, 0.5]);
+        assert.deepEqual(request, { model: "tiny", input: "hello" });
+        assert.equal(auth, "Bearer secret");
+        assert.equal(provider.isReady(), true);
+      } finally {
+        server.close();
+      }
+    });
+
+    it("should reject vectors of the wrong size", async () => {
+      setEmbeddingProvider({ id: "test:bad", dimensions: 8, embed: async () => new Float32Array(4), isReady: () => true });
+      assert.equal(await embed("text"), null);
+    });
+
+    it("should embed batches in grouped provider calls", async () => {
+      const calls: number[] = [];
+      setEmbeddingProvider({
+        id: "test:batch",
+        dimensions: 2,
+        embed: async () => new Float32Array(2),
+        embedBatch: async (texts) => {
+          calls.push(texts.length);
+          return texts.map((text) => (text === "bad" ? new Float32Array(3) : new Float32Array([text.length, 1])));
+        },
+        isReady: () => true,
+      });
+
+      const vectors = await embedBatch(["a", "bb", "bad", "dddd", "eeeee"], 2);
+      assert.deepEqual(calls, [2, 2, 1]);
+      assert.deepEqual(vectors.map((v) => v?.[0] ?? null), [1, 2, null, 4, 5]);
+
+      _setModelFailed();
+      assert.deepEqual(await embedBatch(["a"]), [null]);
+    });
+
+    it("should use the provider set for the process", async () => {
+      setEmbeddingProvider(new HashEmbeddingProvider(16));
+      assert.equal(isModelReady(), true);
+      assert.equal(getModelName(), "hash:16");
+      assert.equal((await embed("text"))!.length, 16);
+    });
+
+    it("should not load a transformers model until first use", () => {
+      assert.equal(new TransformersProvider().isReady(), false);
+    });
+  });
+
+  describe("offline models", () => {
+    const model = "Xenova/tiny";
+    let dir: string;
+
+    beforeEach(() => {
+      dir = mkdtempSync(join(tmpdir(), "moltmind-models-"));
+    });
+
+    function writeModelFiles(): void {
+      for (const file of REQUIRED_MODEL_FILES) {
+        const path = join(dir, model, file);
+        mkdirSync(join(path, ".."), { recursive: true });
+        writeFileSync(path, `contents of ${file}`);
+      }
+    }
+
+    it("should verify model files against the manifest", () => {
+      try {
+        assert.deepEqual(verifyModelFiles(dir, model).missing, REQUIRED_MODEL_FILES);
+
+        writeModelFiles();
+        assert.equal(verifyModelFiles(dir, model).verified, false);
+        writeModelManifest(dir, model);
+        const report = verifyModelFiles(dir, model);
+        assert.equal(report.ok, true);
+        assert.equal(report.verified, true);
+
+        writeFileSync(join(dir, model, "tokenizer.json"), "tampered");
+        rmSync(join(dir, model, "config.json"));
+        const broken = verifyModelFiles(dir, model);
+        assert.deepEqual(broken.corrupt, ["tokenizer.json"]);
+        assert.deepEqual(broken.missing, ["config.json"]);
+        assert.equal(broken.ok, false);
+      } finally {
+        rmSync(dir, { recursive: true, force: true });
+      }
+    });
+
+    it("should back off instead of failing for good when the model dir is incomplete", async () => {
+      try {
+        const provider = createEmbeddingProvider({
+          provider: "transformers", model, url: null, api_key: null, dimensions: 8, model_dir: dir,
+        }) as TransformersProvider;
+
+        assert.equal(await provider.embed("text"), null);
+        const state = provider.getLoadState();
+        assert.equal(state.offline, true);
+        assert.equal(state.model_dir, dir);
+        assert.equal(state.failed_attempts, 1);
+        assert.match(state.last_error!, /config\.json missing.*download-model/);
+        assert.ok(Date.parse(state.retry_at!) > Date.now());
+
+        // Within the backoff window nothing is retried
+        assert.equal(await provider.embed("text"), null);
+        assert.equal(provider.getLoadState().failed_attempts, 1);
+      } finally {
+        rmSync(dir, { recursive: true, force: true });
+      }
+    });
+
+    it("should double the retry delay up to a cap", () => {
+      assert.equal(modelRetryDelay(1), 5_000);
+      assert.equal(modelRetryDelay(3), 20_000);
+      assert.equal(modelRetryDelay(50), 10 * 60_000);
+    });
+  });
 });
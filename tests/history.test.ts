@@ -0,0 +1,117 @@
+import { describe, it, beforeEach, afterEach } from "node:test";
+import assert from "node:assert/strict";
+import { mkdirSync, rmSync, existsSync } from "node:fs";
+import { join } from "node:path";
+import { tmpdir } from "node:os";
+import crypto from "node:crypto";
+import { diffLines } from "../src/history.js";
+import type { Revision } from "../src/history.js";
+
+const originalCwd = process.cwd();
+let testDir: string;
+let db: typeof import("../src/db.js");
+let embeddings: typeof import("../src/embeddings.js");
+
+describe("Memory Version History", () => {
+  describe("diffLines", () => {
+    it("should mark removed and added lines between unchanged ones", () => {
+      assert.deepEqual(
+        diffLines("intro\nport 8080\nkeep\nold tail\noutro", "intro\nport 9090\nkeep\noutro"),
+        ["- port 8080", "+ port 9090", "  keep", "- old tail"]
+      );
+    });
+
+    it("should return nothing for identical text", () => {
+      assert.deepEqual(diffLines("same\ntext", "same\ntext"), []);
+    });
+  });
+
+  describe("tools", () => {
+    beforeEach(async () => {
+      testDir = join(tmpdir(), `moltmind-history-${crypto.randomUUID()}`);
+      mkdirSync(testDir, { recursive: true });
+      process.chdir(testDir);
+
+      db = await import("../src/db.js");
+      db.closeDb();
+      db.initProjectVault();
+
+      embeddings = await import("../src/embeddings.js");
+      embeddings.setEmbeddingProvider(new embeddings.HashEmbeddingProvider());
+    });
+
+    afterEach(() => {
+      embeddings._resetForTesting();
+      db.closeDb();
+      process.chdir(originalCwd);
+      if (existsSync(testDir)) {
+        rmSync(testDir, { recursive: true, force: true });
+      }
+    });
+
+    it("should keep a version for each edit but not for tier moves or re-embeds", async () => {
+      const memory = db.insertMemory({ type: "decision", title: "DB", content: "Use MySQL", tags: ["db"], metadata: {}, embedding: null, tier: "hot" });
+
+      db.updateMemory(memory.id, { content: "Use Postgres" });
+      db.updateMemory(memory.id, { tier: "warm", embedding: Buffer.alloc(4), embedding_model: "m" });
+      db.updateMemory(memory.id, { content: "Use Postgres", tags: ["db"] });
+      db.updateMemory(memory.id, { tags: ["db", "infra"] });
+
+      const versions = db.getMemoryVersions(memory.id);
+      assert.deepEqual(versions.map((v) => [v.version, v.content, v.tags]), [
+        [1, "Use MySQL", ["db"]],
+        [2, "Use Postgres", ["db"]],
+      ]);
+      assert.equal(versions[0].created_at, memory.updated_at);
+      assert.equal(db.getMemoryVersion(memory.id, 3), null);
+    });
+
+    it("should list revisions newest first with their changes", async () => {
+      const { handleMmStore } = await import("../src/tools/mm_store.js");
+      const { handleMmUpdate } = await import("../src/tools/mm_update.js");
+      const { handleMmHistory } = await import("../src/tools/mm_history.js");
+
+      const stored = await handleMmStore({ title: "Deploy", content: "Run make deploy\nfrom the repo root", tags: ["ops"] });
+      await handleMmUpdate({ id: stored.id!, title: "Deploy steps", content: "Run npm run deploy\nfrom the repo root", tags: ["ops", "npm"] });
+
+      const result = await handleMmHistory({ id: stored.id! });
+      assert.equal(result.success, true);
+      assert.equal(result.total, 2);
+      const [current, first] = result.revisions as Revision[];
+      assert.deepEqual([current.version, current.current, first.version, first.current], [2, true, 1, false]);
+      assert.equal(first.changes, undefined);
+      assert.deepEqual(current.changes, {
+        title: { from: "Deploy", to: "Deploy steps" },
+        tags: { added: ["npm"], removed: [] },
+        content: ["- Run make deploy", "+ Run npm run deploy"],
+      });
+
+      assert.equal((await handleMmHistory({ id: "missing" })).success, false);
+    });
+
+    it("should restore and re-embed a prior version, keeping the replaced state", async () => {
+      const { handleMmStore } = await import("../src/tools/mm_store.js");
+      const { handleMmUpdate } = await import("../src/tools/mm_update.js");
+      const { handleMmRevert } = await import("../src/tools/mm_revert.js");
+      const { handleMmRecall } = await import("../src/tools/mm_recall.js");
+
+      const stored = await handleMmStore({ title: "Cache", content: "Redis caches sessions for an hour.", type: "learning" });
+      const original = db.getMemoryRaw(stored.id!)!.embedding;
+      await handleMmUpdate({ id: stored.id!, content: "Bad edit: nothing is cached." });
+
+      const result = await handleMmRevert({ id: stored.id!, version: 1 });
+      assert.equal(result.success, true);
+      const reverted = db.getMemoryRaw(stored.id!)!;
+      assert.equal(reverted.content, "Redis caches sessions for an hour.");
+      assert.deepEqual(reverted.embedding, original);
+
+      const versions = db.getMemoryVersions(stored.id!);
+      assert.deepEqual(versions.map((v) => v.content), ["Redis caches sessions for an hour.", "Bad edit: nothing is cached."]);
+
+      const recall = await handleMmRecall({ query: "redis sessions" });
+      assert.equal(recall.results[0].id, stored.id);
+
+      assert.equal((await handleMmRevert({ id: stored.id!, version: 9 })).success, false);
+    });
+  });
+});
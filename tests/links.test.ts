@@ -0,0 +1,152 @@
+import { describe, it, beforeEach, afterEach } from "node:test";
+import assert from "node:assert/strict";
+import { mkdirSync, rmSync, existsSync } from "node:fs";
+import { join } from "node:path";
+import { tmpdir } from "node:os";
+import crypto from "node:crypto";
+import type { GraphNode, LinkedMemory } from "../src/links.js";
+import type { MemoryLink } from "../src/types.js";
+
+const originalCwd = process.cwd();
+let testDir: string;
+let db: typeof import("../src/db.js");
+let embeddings: typeof import("../src/embeddings.js");
+let handleMmStore: typeof import("../src/tools/mm_store.js").handleMmStore;
+let handleMmUpdate: typeof import("../src/tools/mm_update.js").handleMmUpdate;
+let handleMmRecall: typeof import("../src/tools/mm_recall.js").handleMmRecall;
+let handleMmGraph: typeof import("../src/tools/mm_graph.js").handleMmGraph;
+
+describe("Memory Links", () => {
+  beforeEach(async () => {
+    testDir = join(tmpdir(), `moltmind-links-${crypto.randomUUID()}`);
+    mkdirSync(testDir, { recursive: true });
+    process.chdir(testDir);
+
+    db = await import("../src/db.js");
+    db.closeDb();
+    db.initProjectVault();
+
+    embeddings = await import("../src/embeddings.js");
+    embeddings._setModelFailed();
+    ({ handleMmStore } = await import("../src/tools/mm_store.js"));
+    ({ handleMmUpdate } = await import("../src/tools/mm_update.js"));
+    ({ handleMmRecall } = await import("../src/tools/mm_recall.js"));
+    ({ handleMmGraph } = await import("../src/tools/mm_graph.js"));
+  });
+
+  afterEach(() => {
+    embeddings._resetForTesting();
+    db.closeDb();
+    process.chdir(originalCwd);
+    if (existsSync(testDir)) {
+      rmSync(testDir, { recursive: true, force: true });
+    }
+  });
+
+  it("should store links on mm_store and reject unknown targets", async () => {
+    const old = await handleMmStore({ title: "Database choice", content: "Use MySQL for orders", type: "decision" });
+    const stored = await handleMmStore({
+      title: "Database choice v2", content: "Use Postgres for orders", type: "decision",
+      links: [{ target_id: old.id!, type: "supersedes" }],
+    });
+
+    assert.deepEqual(db.getMemoryLinks([stored.id!]).map((l) => [l.source_id, l.target_id, l.type]), [[stored.id, old.id, "supersedes"]]);
+
+    const bad = await handleMmStore({ title: "Orphan", content: "x", links: [{ target_id: "missing", type: "relates_to" }] });
+    assert.equal(bad.success, false);
+    assert.match(bad.message!, /Link target not found: missing/);
+    assert.equal(db.getMemoryStats().total, 2);
+  });
+
+  it("should add and remove links on mm_update", async () => {
+    const learning = await handleMmStore({ title: "Pool size", content: "Pool exhaustion under load", type: "learning" });
+    const fix = await handleMmStore({ title: "Raise pool size", content: "Set pool to 50", type: "error" });
+
+    const added = await handleMmUpdate({ id: fix.id!, links: [{ target_id: learning.id!, type: "fixes" }, { target_id: learning.id!, type: "relates_to" }] });
+    assert.equal(added.links_added, 2);
+    const removed = await handleMmUpdate({ id: fix.id!, remove_links: [{ target_id: learning.id!, type: "relates_to" }] });
+    assert.equal(removed.links_removed, 1);
+    assert.deepEqual(db.getMemoryLinks([learning.id!]).map((l) => l.type), ["fixes"]);
+
+    assert.equal((await handleMmUpdate({ id: fix.id!, links: [{ target_id: fix.id!, type: "fixes" }] })).success, false);
+  });
+
+  it("should return the neighborhood in mm_graph", async () => {
+    const a = await handleMmStore({ title: "A", content: "root cause" });
+    const b = await handleMmStore({ title: "B", content: "symptom", links: [{ target_id: a.id!, type: "caused_by" }] });
+    const c = await handleMmStore({ title: "C", content: "fix", links: [{ target_id: b.id!, type: "fixes" }] });
+
+    const oneHop = await handleMmGraph({ id: b.id! });
+    assert.equal(oneHop.success, true);
+    assert.deepEqual((oneHop.nodes as GraphNode[]).map((n) => [n.title, n.depth]).sort(), [["A", 1], ["B", 0], ["C", 1]]);
+    assert.equal((oneHop.edges as MemoryLink[]).length, 2);
+
+    const fromA = await handleMmGraph({ id: a.id!, depth: 2 });
+    assert.deepEqual((fromA.nodes as GraphNode[]).map((n) => n.title), ["A", "B", "C"]);
+
+    const onlyFixes = await handleMmGraph({ id: b.id!, types: ["fixes"] });
+    assert.deepEqual((onlyFixes.nodes as GraphNode[]).map((n) => n.id).sort(), [b.id, c.id].sort());
+
+    assert.equal((await handleMmGraph({ id: "missing" })).success, false);
+  });
+
+  it("should hide superseded memories from recall unless asked", async () => {
+    const old = await handleMmStore({ title: "Deploy target", content: "Deploy orders to Heroku", type: "decision" });
+    const current = await handleMmStore({
+      title: "Deploy target", content: "Deploy orders to Fly", type: "decision",
+      links: [{ target_id: old.id!, type: "supersedes" }],
+    });
+
+    const recall = await handleMmRecall({ query: "deploy orders" });
+    assert.deepEqual(recall.results.map((r) => r.id), [current.id]);
+
+    const all = await handleMmRecall({ query: "deploy orders", include_superseded: true });
+    assert.equal(all.count, 2);
+
+    // Once the superseding memory is archived, the old one is current again
+    db.deleteMemory(current.id!);
+    assert.deepEqual((await handleMmRecall({ query: "deploy orders" })).results.map((r) => r.id), [old.id]);
+  });
+
+  it("should fill the limit when the top hits are superseded", async () => {
+    const older = [];
+    for (const host of ["Heroku", "Render", "Railway"]) {
+      older.push((await handleMmStore({ title: `Deploy orders ${host}`, content: `Deploy orders to ${host}, deploy orders nightly` })).id!);
+    }
+    const current = await handleMmStore({
+      title: "Deploy target", content: "Deploy orders to Fly",
+      links: older.map((id) => ({ target_id: id, type: "supersedes" as const })),
+    });
+
+    const recall = await handleMmRecall({ query: "deploy orders", limit: 1 });
+    assert.deepEqual(recall.results.map((r) => r.id), [current.id]);
+  });
+
+  it("should expand recall hits by one hop", async () => {
+    const cause = await handleMmStore({ title: "Clock skew", content: "NTP was disabled on the worker" });
+    const error = await handleMmStore({
+      title: "Token rejected", content: "JWT validation failed with iat in the future",
+      links: [{ target_id: cause.id!, type: "caused_by" }],
+    });
+
+    const recall = await handleMmRecall({ query: "JWT validation", expand_links: true });
+    assert.deepEqual(recall.results.map((r) => r.id), [error.id]);
+    assert.deepEqual((recall.linked as LinkedMemory[]).map((l) => [l.id, l.via]), [
+      [cause.id, { id: error.id, link: "caused_by", direction: "outgoing" }],
+    ]);
+    assert.equal((await handleMmRecall({ query: "JWT validation" })).linked, undefined);
+  });
+
+  it("should move links to the keeper when mm_dedupe merges", async () => {
+    embeddings.setEmbeddingProvider(new embeddings.HashEmbeddingProvider());
+    const { handleMmDedupe } = await import("../src/tools/mm_dedupe.js");
+    const other = await handleMmStore({ title: "Unrelated", content: "Something else entirely" });
+    const keep = await handleMmStore({ title: "Deploy", content: "Run npm run deploy" });
+    db.getDb().prepare("UPDATE memories SET created_at = '2025-01-01T00:00:00.000Z' WHERE id = ?").run(keep.id);
+    const dup = await handleMmStore({ title: "Deploy", content: "Run npm run deploy", on_duplicate: "allow", links: [{ target_id: other.id!, type: "relates_to" }] });
+
+    await handleMmDedupe({ apply: true });
+    assert.deepEqual(db.getMemoryLinks([other.id!]).map((l) => l.source_id), [keep.id]);
+    assert.deepEqual(db.getMemoryLinks([dup.id!]), []);
+  });
+});
@@ -0,0 +1,189 @@
+import { describe, it, beforeEach, afterEach } from "node:test";
+import assert from "node:assert/strict";
+import { mkdirSync, rmSync, existsSync, readdirSync, readFileSync, writeFileSync, utimesSync } from "node:fs";
+import { join } from "node:path";
+import { tmpdir } from "node:os";
+import crypto from "node:crypto";
+
+const originalCwd = process.cwd();
+let testDir: string;
+let mirrorDir: string;
+let db: typeof import("../src/db.js");
+let mirror: typeof import("../src/markdown_mirror.js");
+
+function mirrorFiles(): string[] {
+  return readdirSync(mirrorDir).filter((f) => f.endsWith(".md"));
+}
+
+function touchFuture(path: string): void {
+  const future = new Date(Date.now() + 60_000);
+  utimesSync(path, future, future);
+}
+
+describe("Markdown Mirror", () => {
+  beforeEach(async () => {
+    testDir = join(tmpdir(), `moltmind-mirror-${crypto.randomUUID()}`);
+    mkdirSync(testDir, { recursive: true });
+    process.chdir(testDir);
+    mirrorDir = join(testDir, "notes");
+
+    db = await import("../src/db.js");
+    db.closeDb();
+    db.initProjectVault();
+
+    const embeddings = await import("../src/embeddings.js");
+    embeddings._setModelFailed();
+
+    mirror = await import("../src/markdown_mirror.js");
+    await mirror.initMarkdownMirror(mirrorDir);
+  });
+
+  afterEach(() => {
+    mirror.stopMarkdownMirror();
+    db.closeDb();
+    process.chdir(originalCwd);
+    if (existsSync(testDir)) {
+      rmSync(testDir, { recursive: true, force: true });
+    }
+  });
+
+  describe("serializeMemory / parseMirrorFile", () => {
+    it("should round-trip all front-matter fields", () => {
+      const memory = db.insertMemory({
+        type: "decision", title: "Use \"quotes\": carefully", content: "Line one\n\n---\nLine two",
+        tags: ["a", "b c"], metadata: { nested: { n: 1 } }, embedding: null, tier: "warm",
+      });
+      const parsed = mirror.parseMirrorFile(mirror.serializeMemory(memory));
+      assert.ok(parsed);
+      assert.equal(parsed.id, memory.id);
+      assert.equal(parsed.type, "decision");
+      assert.equal(parsed.title, memory.title);
+      assert.equal(parsed.content, memory.content);
+      assert.deepEqual(parsed.tags, ["a", "b c"]);
+      assert.equal(parsed.tier, "warm");
+      assert.deepEqual(parsed.metadata, { nested: { n: 1 } });
+    });
+
+    it("should accept hand-written YAML scalars and flow lists", () => {
+      const parsed = mirror.parseMirrorFile("---\ntitle: My note\ntype: learning\ntags: [infra, 'ops']\n---\nBody\n");
+      assert.ok(parsed);
+      assert.equal(parsed.id, null);
+      assert.equal(parsed.title, "My note");
+      assert.deepEqual(parsed.tags, ["infra", "ops"]);
+      assert.equal(parsed.content, "Body");
+    });
+
+    it("should return null for Markdown without front-matter", () => {
+      assert.equal(mirror.parseMirrorFile("# Just a heading\n"), null);
+    });
+  });
+
+  describe("write-through", () => {
+    it("should write one file per inserted memory", () => {
+      const memory = db.insertMemory({ type: "raw", title: "API port", content: "8080", tags: [], metadata: {}, embedding: null, tier: "hot" });
+      const files = mirrorFiles();
+      assert.deepEqual(files, [`api-port--${memory.id.slice(0, 8)}.md`]);
+    });
+
+    it("should rename the file when the title changes", () => {
+      const memory = db.insertMemory({ type: "raw", title: "Old title", content: "c", tags: [], metadata: {}, embedding: null, tier: "hot" });
+      db.updateMemory(memory.id, { title: "New title" });
+      assert.deepEqual(mirrorFiles(), [`new-title--${memory.id.slice(0, 8)}.md`]);
+    });
+
+    it("should remove the file when a memory is archived", () => {
+      const memory = db.insertMemory({ type: "raw", title: "Temp", content: "c", tags: [], metadata: {}, embedding: null, tier: "hot" });
+      db.deleteMemory(memory.id);
+      assert.equal(mirrorFiles().length, 0);
+    });
+  });
+
+  describe("reconcileMirror", () => {
+    it("should apply human edits newer than the database", async () => {
+      const memory = db.insertMemory({ type: "raw", title: "Editable", content: "Before", tags: [], metadata: {}, embedding: null, tier: "hot" });
+      const path = join(mirrorDir, mirrorFiles()[0]);
+      writeFileSync(path, readFileSync(path, "utf-8").replace("Before", "After").replace("tags: []", "tags: [edited]"));
+      touchFuture(path);
+
+      const result = await mirror.reconcileMirror();
+      assert.equal(result.updated, 1);
+      const updated = db.getMemoryRaw(memory.id)!;
+      assert.equal(updated.content, "After");
+      assert.deepEqual(updated.tags, ["edited"]);
+    });
+
+    it("should rewrite stale files from the database", async () => {
+      const memory = db.insertMemory({ type: "raw", title: "Stale", content: "Fresh", tags: [], metadata: {}, embedding: null, tier: "hot" });
+      const path = join(mirrorDir, mirrorFiles()[0]);
+      writeFileSync(path, readFileSync(path, "utf-8").replace("Fresh", "Outdated"));
+      utimesSync(path, new Date(0), new Date(0));
+
+      const result = await mirror.reconcileMirror();
+      assert.equal(result.written, 1);
+      assert.equal(db.getMemoryRaw(memory.id)!.content, "Fresh");
+      assert.ok(readFileSync(path, "utf-8").includes("Fresh"));
+    });
+
+    it("should create memories from new files without an id", async () => {
+      writeFileSync(join(mirrorDir, "hand-written.md"), "---\ntitle: Hand written\ntype: learning\n---\nWritten in an editor.\n");
+
+      const result = await mirror.reconcileMirror();
+      assert.equal(result.created, 1);
+      const created = db.getAllMemories(undefined, 10).find((m) => m.title === "Hand written");
+      assert.ok(created);
+      assert.equal(created.type, "learning");
+      assert.deepEqual(mirrorFiles(), [`hand-written--${created.id.slice(0, 8)}.md`]);
+    });
+
+    it("should archive memories whose file sets tier: archived", async () => {
+      const memory = db.insertMemory({ type: "raw", title: "Retire me", content: "c", tags: [], metadata: {}, embedding: null, tier: "hot" });
+      const path = join(mirrorDir, mirrorFiles()[0]);
+      writeFileSync(path, readFileSync(path, "utf-8").replace("tier: hot", "tier: archived"));
+      touchFuture(path);
+
+      const result = await mirror.reconcileMirror();
+      assert.equal(result.archived, 1);
+      assert.equal(db.getMemoryRaw(memory.id)!.tier, "archived");
+      assert.equal(mirrorFiles().length, 0);
+    });
+
+    it("should keep decayed tiers when the file is newer", async () => {
+      const memory = db.insertMemory({ type: "raw", title: "Decayed", content: "c", tags: [], metadata: {}, embedding: null, tier: "hot" });
+      const path = join(mirrorDir, mirrorFiles()[0]);
+      // Decay demotes the row; pretend the listener missed it so the file still says hot
+      mirror.stopMarkdownMirror();
+      db.applyDecayUpdates([{ id: memory.id, decay_score: 0.1, tier: "cold" }]);
+      touchFuture(path);
+
+      const result = await mirror.initMarkdownMirror(mirrorDir);
+      assert.equal(result.updated, 0);
+      assert.equal(result.written, 1);
+      assert.equal(db.getMemoryRaw(memory.id)!.tier, "cold");
+      assert.ok(readFileSync(path, "utf-8").includes("tier: cold"));
+    });
+
+    it("should not leave files for memories whose transaction rolled back", async () => {
+      assert.throws(() => db.getDb().transaction(() => {
+        db.insertMemory({ type: "raw", title: "Rolled back", content: "c", tags: [], metadata: {}, embedding: null, tier: "hot" });
+        throw new Error("abort import");
+      })(), /abort import/);
+      await new Promise((resolve) => setImmediate(resolve));
+
+      assert.deepEqual(mirrorFiles(), []);
+      const committed = db.getDb().transaction(() =>
+        db.insertMemory({ type: "raw", title: "Committed", content: "c", tags: [], metadata: {}, embedding: null, tier: "hot" })
+      )();
+      await new Promise((resolve) => setImmediate(resolve));
+      assert.deepEqual(mirrorFiles(), [`committed--${committed.id.slice(0, 8)}.md`]);
+    });
+
+    it("should write files for memories missing from the directory", async () => {
+      mirror.stopMarkdownMirror();
+      db.insertMemory({ type: "raw", title: "Unmirrored", content: "c", tags: [], metadata: {}, embedding: null, tier: "hot" });
+
+      const result = await mirror.initMarkdownMirror(mirrorDir);
+      assert.equal(result.written, 1);
+      assert.equal(mirrorFiles().length, 1);
+    });
+  });
+});
@@ -0,0 +1,81 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { parseQuery, toFtsMatch, toFtsExclusion, toSemanticText, mergeFilters, quoteFts, toJsonPath, normalizeDate } from "../src/query_parser.js";
+
+describe("Query Parser", () => {
+  describe("plain mode", () => {
+    it("should quote every term so operators are literal", () => {
+      const parsed = parseQuery('error: "ENOENT" (config) AND -x');
+      assert.equal(toFtsMatch(parsed), '"error:" """ENOENT""" "(config)" "AND" "-x"');
+      assert.deepEqual(parsed.filters, {});
+    });
+
+    it("should drop tokens with nothing searchable", () => {
+      assert.equal(toFtsMatch(parseQuery("- * ( ) \"")), null);
+    });
+  });
+
+  describe("advanced mode", () => {
+    it("should extract phrases, terms and field filters", () => {
+      const parsed = parseQuery('"blue green" deploy tag:ops type:plan tier:hot after:2024-01-01', true);
+      assert.deepEqual(parsed.terms, ["deploy"]);
+      assert.deepEqual(parsed.phrases, ["blue green"]);
+      assert.deepEqual(parsed.filters.tags, ["ops"]);
+      assert.deepEqual(parsed.filters.types, ["plan"]);
+      assert.deepEqual(parsed.filters.tiers, ["hot"]);
+      assert.equal(parsed.filters.after, "2024-01-01T00:00:00.000Z");
+    });
+
+    it("should turn leading - into exclusions", () => {
+      const parsed = parseQuery('deploy -failed -"green hosts" -tag:wip -type:error', true);
+      assert.deepEqual(parsed.terms, ["deploy"]);
+      assert.deepEqual(parsed.filters.exclude_terms, ["failed", "green hosts"]);
+      assert.deepEqual(parsed.filters.exclude_tags, ["wip"]);
+      assert.deepEqual(parsed.filters.exclude_types, ["error"]);
+      assert.equal(toFtsExclusion(parsed.filters), '"failed" OR "green hosts"');
+    });
+
+    it("should keep unknown fields and invalid values as text", () => {
+      const parsed = parseQuery("http://localhost type:bogus before:someday", true);
+      assert.deepEqual(parsed.terms, ["http://localhost", "type:bogus", "before:someday"]);
+      assert.deepEqual(parsed.filters, {});
+    });
+
+    it("should tolerate an unterminated quote", () => {
+      const parsed = parseQuery('"half open', true);
+      assert.deepEqual(parsed.phrases, ["half open"]);
+    });
+
+    it("should strip operators from the semantic text", () => {
+      assert.equal(toSemanticText(parseQuery('deploy "blue green" tag:ops -failed', true)), "deploy blue green");
+    });
+  });
+
+  describe("helpers", () => {
+    it("should escape embedded quotes", () => {
+      assert.equal(quoteFts('say "hi"'), '"say ""hi"""');
+    });
+
+    it("should merge filter lists and keep the narrowest date range", () => {
+      const merged = mergeFilters(
+        { types: ["plan"], after: "2024-01-01T00:00:00.000Z" },
+        { types: ["plan", "error"], tiers: ["hot"], after: "2024-06-01T00:00:00.000Z" },
+      );
+      assert.deepEqual(merged.types, ["plan", "error"]);
+      assert.deepEqual(merged.tiers, ["hot"]);
+      assert.equal(merged.after, "2024-06-01T00:00:00.000Z");
+    });
+
+    it("should build quoted JSON paths from dotted metadata paths", () => {
+      assert.equal(toJsonPath("source.repo"), '$."source"."repo"');
+      assert.equal(toJsonPath("$.files.0"), '$."files"[0]');
+      assert.throws(() => toJsonPath('a"b'), /Invalid metadata path/);
+      assert.throws(() => toJsonPath("a..b"), /Invalid metadata path/);
+    });
+
+    it("should normalize dates and reject garbage", () => {
+      assert.equal(normalizeDate("2024-03-01", "after"), "2024-03-01T00:00:00.000Z");
+      assert.throws(() => normalizeDate("soon", "after"), /Invalid date for after/);
+    });
+  });
+});
@@ -0,0 +1,96 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { rankCandidates, type RankCandidate } from "../src/ranking.js";
+import type { RankingConfig } from "../src/config.js";
+import type { Memory, MemoryTier } from "../src/types.js";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const now = Date.parse("2025-06-01T00:00:00.000Z");
+
+const config: RankingConfig = {
+  strategy: "linear",
+  weights: { semantic: 0.7, keyword: 0.3, recency: 0.3, tier: 0.1, rrf_k: 60 },
+};
+
+function memory(id: string, opts: { ageDays?: number; tier?: MemoryTier; access_count?: number } = {}): Memory {
+  const at = new Date(now - (opts.ageDays ?? 0) * DAY_MS).toISOString();
+  return {
+    id, type: "raw", title: id, content: id, tags: [], metadata: {}, embedding: null, embedding_model: null,
+    tier: opts.tier ?? "hot", created_at: at, updated_at: at, accessed_at: at,
+    access_count: opts.access_count ?? 0, decay_score: 1,
+  };
+}
+
+function candidate(mem: Memory, signals: Partial<Omit<RankCandidate, "memory">>): RankCandidate {
+  return { memory: mem, semantic: null, semantic_rank: null, bm25: null, keyword_rank: null, ...signals };
+}
+
+describe("Ranking", () => {
+  describe("linear", () => {
+    it("should blend cosine similarity with normalized BM25", () => {
+      const ranked = rankCandidates([
+        candidate(memory("a"), { semantic: 0.9, semantic_rank: 1, bm25: -1, keyword_rank: 2 }),
+        candidate(memory("b"), { semantic: 0.5, semantic_rank: 2, bm25: -4, keyword_rank: 1 }),
+      ], { semanticAvailable: true, config, now });
+
+      assert.deepEqual(ranked.map((r) => r.memory.id), ["a", "b"]);
+      assert.equal(ranked[0].breakdown.keyword, 0.25);
+      assert.equal(ranked[0].breakdown.final, 0.705);
+      assert.equal(ranked[1].breakdown.final, 0.65);
+    });
+
+    it("should rank on keywords alone without a model", () => {
+      const ranked = rankCandidates([
+        candidate(memory("a"), { bm25: -1, keyword_rank: 2 }),
+        candidate(memory("b"), { bm25: -4, keyword_rank: 1 }),
+      ], { semanticAvailable: false, config, now });
+      assert.deepEqual(ranked.map((r) => r.memory.id), ["b", "a"]);
+      assert.equal(ranked[0].score, 1);
+    });
+
+    it("should honor per-call weight overrides", () => {
+      const ranked = rankCandidates([
+        candidate(memory("a"), { semantic: 0.9, semantic_rank: 1, bm25: -1, keyword_rank: 2 }),
+        candidate(memory("b"), { semantic: 0.5, semantic_rank: 2, bm25: -4, keyword_rank: 1 }),
+      ], { weights: { semantic: 0, keyword: 1 }, semanticAvailable: true, config, now });
+      assert.deepEqual(ranked.map((r) => r.memory.id), ["b", "a"]);
+    });
+  });
+
+  describe("rrf", () => {
+    it("should sum reciprocal ranks across retrievers", () => {
+      const ranked = rankCandidates([
+        candidate(memory("both"), { semantic: 0.4, semantic_rank: 2, bm25: -2, keyword_rank: 2 }),
+        candidate(memory("semantic"), { semantic: 0.9, semantic_rank: 1 }),
+        candidate(memory("keyword"), { bm25: -5, keyword_rank: 1 }),
+      ], { strategy: "rrf", weights: { semantic: 1, keyword: 1 }, semanticAvailable: true, config, now });
+
+      assert.equal(ranked[0].memory.id, "both");
+      assert.equal(ranked[0].breakdown.strategy, "rrf");
+      assert.equal(ranked[0].breakdown.final, Math.round((2 / 62) * 10000) / 10000);
+    });
+  });
+
+  describe("decay", () => {
+    it("should boost recent, hot memories over stale, cold ones with equal relevance", () => {
+      const ranked = rankCandidates([
+        candidate(memory("stale", { ageDays: 120, tier: "cold" }), { semantic: 0.8, semantic_rank: 1 }),
+        candidate(memory("fresh", { ageDays: 1, tier: "hot" }), { semantic: 0.8, semantic_rank: 2 }),
+      ], { strategy: "decay", semanticAvailable: true, config, now });
+
+      assert.deepEqual(ranked.map((r) => r.memory.id), ["fresh", "stale"]);
+      const fresh = ranked[0].breakdown;
+      assert.equal(fresh.tier, 1);
+      assert.ok(fresh.decay! > 0.9);
+      assert.ok(fresh.boost! > 1);
+      assert.equal(ranked[1].breakdown.tier, 0);
+    });
+
+    it("should not lift candidates with no relevance", () => {
+      const ranked = rankCandidates([
+        candidate(memory("irrelevant"), { semantic: 0, semantic_rank: 2 }),
+      ], { strategy: "decay", semanticAvailable: true, config, now });
+      assert.equal(ranked[0].score, 0);
+    });
+  });
+});
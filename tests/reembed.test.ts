@@ -0,0 +1,114 @@
+import { describe, it, beforeEach, afterEach } from "node:test";
+import assert from "node:assert/strict";
+import { mkdirSync, rmSync, existsSync } from "node:fs";
+import { join } from "node:path";
+import { tmpdir } from "node:os";
+import crypto from "node:crypto";
+
+const originalCwd = process.cwd();
+let testDir: string;
+let db: typeof import("../src/db.js");
+let embeddings: typeof import("../src/embeddings.js");
+let reembed: typeof import("../src/reembed.js");
+
+function insert(id: string, extra: { embedding?: Buffer; embedding_model?: string; tier?: "hot" | "archived" } = {}): void {
+  db.insertMemory({
+    id, type: "raw", title: id, content: `content of ${id}`, tags: [], metadata: {},
+    embedding: extra.embedding ?? null, embedding_model: extra.embedding_model, tier: extra.tier ?? "hot",
+  });
+}
+
+describe("Re-embedding Worker", () => {
+  beforeEach(async () => {
+    testDir = join(tmpdir(), `moltmind-reembed-${crypto.randomUUID()}`);
+    mkdirSync(testDir, { recursive: true });
+    process.chdir(testDir);
+
+    db = await import("../src/db.js");
+    db.closeDb();
+    db.initProjectVault();
+
+    embeddings = await import("../src/embeddings.js");
+    embeddings.setEmbeddingProvider(new embeddings.HashEmbeddingProvider());
+    reembed = await import("../src/reembed.js");
+  });
+
+  afterEach(() => {
+    embeddings._resetForTesting();
+    db.closeDb();
+    process.chdir(originalCwd);
+    if (existsSync(testDir)) {
+      rmSync(testDir, { recursive: true, force: true });
+    }
+  });
+
+  it("should embed missing and stale-model memories, skipping archived ones", async () => {
+    insert("missing");
+    insert("stale", { embedding: Buffer.alloc(16), embedding_model: "openai:old" });
+    insert("current", { embedding: Buffer.alloc(1536), embedding_model: "hash:384" });
+    insert("archived", { tier: "archived" });
+    const before = db.getMemoryRaw("stale")!.updated_at;
+
+    assert.equal(reembed.getReembedStatus().queue, 2);
+    assert.equal(await reembed.drainReembedQueue(), 2);
+
+    assert.equal(db.getMemoryRaw("missing")!.embedding_model, "hash:384");
+    assert.equal(db.getMemoryRaw("stale")!.embedding!.length, 384 * 4);
+    assert.equal(db.getMemoryRaw("stale")!.updated_at, before);
+    assert.equal(db.getMemoryRaw("archived")!.embedding, null);
+    assert.equal(reembed.getReembedStatus().queue, 0);
+  });
+
+  it("should resume from the checkpoint in meta", async () => {
+    for (let i = 0; i < 5; i++) insert(`mem-${i}`);
+
+    const first = await reembed.runReembedBatch(2);
+    assert.deepEqual(first, { embedded: 2, more: true, blocked: false });
+    const checkpoint = JSON.parse(db.getMeta("reembed_checkpoint")!);
+    assert.equal(checkpoint.model, "hash:384");
+    assert.ok(checkpoint.after_rowid > 0);
+
+    // A restart keeps the cursor
+    db.closeDb();
+    db.initProjectVault();
+    await reembed.runReembedBatch(2);
+    const last = await reembed.runReembedBatch(2);
+    assert.deepEqual(last, { embedded: 1, more: false, blocked: false });
+    assert.equal(reembed.getReembedStatus().checkpoint_rowid, 0);
+    assert.equal(reembed.getReembedStatus().embedded, 5);
+  });
+
+  it("should leave the queue untouched while the model is unavailable", async () => {
+    insert("mem-a");
+    embeddings._setModelFailed();
+
+    const result = await reembed.runReembedBatch();
+    assert.equal(result.blocked, true);
+    assert.equal(db.getMemoryRaw("mem-a")!.embedding, null);
+    assert.equal(reembed.getReembedStatus().queue, 1);
+  });
+
+  it("should start over after a model switch", async () => {
+    insert("mem-a");
+    await reembed.drainReembedQueue();
+
+    embeddings.setEmbeddingProvider(new embeddings.HashEmbeddingProvider(64));
+    assert.equal(reembed.getReembedStatus().queue, 1);
+    assert.equal(reembed.maybeRunReembed(), true);
+    await reembed.waitForReembed();
+
+    assert.equal(db.getMemoryRaw("mem-a")!.embedding_model, "hash:64");
+    assert.equal(reembed.maybeRunReembed(), false);
+  });
+
+  it("should not overwrite a memory edited mid-batch", () => {
+    // Backdated so the edit below can't land in the same millisecond
+    db.insertMemory({
+      id: "mem-a", type: "raw", title: "a", content: "a", tags: [], metadata: {},
+      embedding: null, tier: "hot", updated_at: "2025-01-01T00:00:00.000Z",
+    });
+    const row = db.getStaleEmbeddingBatch("hash:384", 1000, 0, 1)[0];
+    db.updateMemory("mem-a", { title: "edited" });
+    assert.equal(db.setMemoryEmbedding("mem-a", Buffer.alloc(16), "hash:384", row.updated_at), false);
+  });
+});
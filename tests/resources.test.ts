@@ -0,0 +1,110 @@
+import { describe, it, beforeEach, afterEach } from "node:test";
+import assert from "node:assert/strict";
+import { mkdirSync, rmSync, existsSync } from "node:fs";
+import { join } from "node:path";
+import { tmpdir } from "node:os";
+import crypto from "node:crypto";
+import Database from "better-sqlite3";
+import type { Handoff, SessionClaim } from "../src/types.js";
+
+const originalCwd = process.cwd();
+let testDir: string;
+let db: typeof import("../src/db.js");
+let resources: typeof import("../src/resources.js");
+/** A second connection, standing in for another MoltMind process. */
+let other: Database.Database;
+
+describe("MCP Resources", () => {
+  beforeEach(async () => {
+    testDir = join(tmpdir(), `moltmind-resources-${crypto.randomUUID()}`);
+    mkdirSync(testDir, { recursive: true });
+    process.chdir(testDir);
+
+    db = await import("../src/db.js");
+    db.closeDb();
+    db.initProjectVault();
+    other = new Database(join(testDir, ".moltmind", "memory.db"));
+
+    resources = await import("../src/resources.js");
+    resources._resetResourceWatch();
+  });
+
+  afterEach(() => {
+    other.close();
+    db.closeDb();
+    process.chdir(originalCwd);
+    if (existsSync(testDir)) {
+      rmSync(testDir, { recursive: true, force: true });
+    }
+  });
+
+  it("should read events, claims and the latest handoff", () => {
+    const sessionId = crypto.randomUUID();
+    db.insertSession(sessionId);
+    db.updateSessionHeartbeat(sessionId, process.pid);
+    db.logSessionEvent(sessionId, "memory_stored", "m1", "Stored memory: Pool size");
+    db.claimResource(sessionId, "src/db/**", process.pid, "splitting");
+    db.insertHandoff({
+      goal: "Ship it", current_state: "s", next_action: "n", constraints: [], known_unknowns: [],
+      artifacts: [], stop_conditions: ["Tests pass"], session_id: sessionId,
+    });
+
+    const events = resources.readEventsResource().events as Array<{ event_type: string }>;
+    assert.deepEqual(events.map((e) => e.event_type), ["memory_stored"]);
+    assert.deepEqual((resources.readClaimsResource().claims as SessionClaim[]).map((c) => c.resource), ["src/db/**"]);
+    const latest = resources.readLatestHandoffResource();
+    assert.equal((latest.handoff as Handoff).goal, "Ship it");
+    assert.equal(latest.progress, "0/1 stop conditions met");
+  });
+
+  it("should report subscribed resources another process changed", () => {
+    const sessionId = crypto.randomUUID();
+    db.insertSession(sessionId);
+    db.updateSessionHeartbeat(sessionId, process.pid);
+    resources.subscribeResource(resources.RESOURCE_URIS.claims);
+    resources.subscribeResource(resources.RESOURCE_URIS.events);
+    assert.deepEqual(resources.pollResourceChanges(), []);
+
+    other.prepare("INSERT INTO session_claims (resource, session_id, pid, claimed_at) VALUES (?, ?, ?, ?)")
+      .run("src/index.ts", sessionId, 22222, new Date().toISOString());
+    assert.deepEqual(resources.pollResourceChanges(), [resources.RESOURCE_URIS.claims]);
+    assert.deepEqual(resources.pollResourceChanges(), []);
+
+    // Unsubscribed resources stay quiet
+    resources.unsubscribeResource(resources.RESOURCE_URIS.events);
+    other.prepare("INSERT INTO session_events (id, session_id, event_type, created_at) VALUES (?, ?, ?, ?)")
+      .run(crypto.randomUUID(), sessionId, "memory_stored", new Date().toISOString());
+    assert.deepEqual(resources.pollResourceChanges(), []);
+  });
+
+  it("should not replay changes made while nothing was subscribed", () => {
+    const sessionId = crypto.randomUUID();
+    db.insertSession(sessionId);
+    const insertClaim = (resource: string) => other.prepare("INSERT INTO session_claims (resource, session_id, pid, claimed_at) VALUES (?, ?, ?, ?)")
+      .run(resource, sessionId, 22222, new Date().toISOString());
+
+    insertClaim("src/a.ts");
+    assert.deepEqual(resources.pollResourceChanges(), []);
+    resources.subscribeResource(resources.RESOURCE_URIS.claims);
+    assert.deepEqual(resources.pollResourceChanges(), []);
+
+    insertClaim("src/b.ts");
+    assert.deepEqual(resources.pollResourceChanges(), [resources.RESOURCE_URIS.claims]);
+  });
+
+  it("should ignore this process's own writes and claim renewals", () => {
+    const sessionId = crypto.randomUUID();
+    db.insertSession(sessionId);
+    db.updateSessionHeartbeat(sessionId, process.pid);
+    db.claimResource(sessionId, "src/db.ts", process.pid, null, { ttlSeconds: 300 });
+    resources.subscribeResource(resources.RESOURCE_URIS.claims);
+    resources.pollResourceChanges();
+
+    db.claimResource(sessionId, "src/types.ts", process.pid);
+    assert.deepEqual(resources.pollResourceChanges(), []);
+
+    other.prepare("UPDATE session_claims SET expires_at = ? WHERE resource = 'src/db.ts'")
+      .run(new Date(Date.now() + 600000).toISOString());
+    assert.deepEqual(resources.pollResourceChanges(), []);
+  });
+});
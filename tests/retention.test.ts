@@ -0,0 +1,153 @@
+import { describe, it, beforeEach, afterEach } from "node:test";
+import assert from "node:assert/strict";
+import { mkdirSync, rmSync, existsSync } from "node:fs";
+import { join } from "node:path";
+import { tmpdir } from "node:os";
+import crypto from "node:crypto";
+
+const originalCwd = process.cwd();
+let testDir: string;
+let db: typeof import("../src/db.js");
+let embeddings: typeof import("../src/embeddings.js");
+let retention: typeof import("../src/retention.js");
+
+const LONG_AGO = "2020-01-01T00:00:00.000Z";
+
+function backdate(table: string, column: string, id: string): void {
+  db.getDb().prepare(`UPDATE ${table} SET ${column} = ? WHERE id = ?`).run(LONG_AGO, id);
+}
+
+// One memory archived long ago, one archived today, one live; old and new diagnostics;
+// a long-completed session and the current one, each with an event and token estimate
+function seed(): { expired: string; recent: string; live: string; oldSession: string; newSession: string } {
+  const insert = (title: string) => db.insertMemory({ type: "raw", title, content: title, tags: [], metadata: {}, embedding: null, tier: "hot" }).id;
+  const expired = insert("Expired");
+  const recent = insert("Recent");
+  const live = insert("Live");
+  db.deleteMemory(expired);
+  db.deleteMemory(recent);
+  db.updateMemory(expired, { content: "Expired, edited" });
+  backdate("memories", "updated_at", expired);
+
+  db.insertDiagnostic("mm_store", true, 5, null);
+  db.insertDiagnostic("mm_recall", true, 5, null);
+  db.getDb().prepare("UPDATE diagnostics SET created_at = ? WHERE tool_name = 'mm_store'").run(LONG_AGO);
+
+  const oldSession = db.insertSession(crypto.randomUUID()).id;
+  db.updateSession(oldSession, { status: "completed" });
+  backdate("sessions", "ended_at", oldSession);
+  const newSession = db.insertSession(crypto.randomUUID()).id;
+  for (const session of [oldSession, newSession]) {
+    db.logSessionEvent(session, "tool_call", null, "called a tool");
+    db.getDb().prepare("INSERT INTO token_estimates (session_id, updated_at) VALUES (?, ?)").run(session, LONG_AGO);
+  }
+  return { expired, recent, live, oldSession, newSession };
+}
+
+describe("Retention", () => {
+  beforeEach(async () => {
+    testDir = join(tmpdir(), `moltmind-retention-${crypto.randomUUID()}`);
+    mkdirSync(testDir, { recursive: true });
+    process.chdir(testDir);
+
+    db = await import("../src/db.js");
+    db.closeDb();
+    db.initProjectVault();
+
+    embeddings = await import("../src/embeddings.js");
+    embeddings._setModelFailed();
+    retention = await import("../src/retention.js");
+    retention._resetRetention();
+  });
+
+  afterEach(() => {
+    delete process.env.MOLTMIND_RETENTION_ARCHIVED_DAYS;
+    embeddings._resetForTesting();
+    db.closeDb();
+    process.chdir(originalCwd);
+    if (existsSync(testDir)) {
+      rmSync(testDir, { recursive: true, force: true });
+    }
+  });
+
+  it("should disable a cutoff when its TTL is 0", () => {
+    const now = Date.parse("2026-03-31T00:00:00.000Z");
+    assert.deepEqual(retention.getRetentionCutoffs({ archived_days: 30, diagnostics_days: 0, events_days: 1 }, now), {
+      archived_before: "2026-03-01T00:00:00.000Z",
+      diagnostics_before: null,
+      events_before: "2026-03-30T00:00:00.000Z",
+    });
+  });
+
+  it("should purge only rows past their TTL, with a memory's chunks and versions", () => {
+    process.env.MOLTMIND_RETENTION_ARCHIVED_DAYS = "90";
+    const ids = seed();
+    const report = retention.runRetentionPass();
+
+    assert.deepEqual(report.counts, { memories: 1, diagnostics: 1, session_events: 1, token_estimates: 1 });
+    assert.deepEqual(report.expired_memories.map((m) => m.id), [ids.expired]);
+    assert.equal(db.getMemoryRaw(ids.expired), null);
+    assert.deepEqual(db.getMemoryVersions(ids.expired), []);
+    assert.equal(db.getMemoryRaw(ids.recent)!.tier, "archived");
+    assert.ok(db.getMemoryRaw(ids.live));
+    assert.equal(db.getSessionEvents(ids.oldSession).length, 0);
+    assert.equal(db.getSessionEvents(ids.newSession).length, 1);
+    assert.deepEqual(db.getRecentDiagnostics().map((d) => d.tool_name), ["mm_recall"]);
+
+    // The session row itself stays for mm_session_history
+    assert.ok(db.getSession(ids.oldSession));
+  });
+
+  it("should keep archived memories forever by default", () => {
+    const ids = seed();
+    assert.equal(retention.runRetentionPass().counts.memories, 0);
+    assert.ok(db.getMemoryRaw(ids.expired));
+  });
+
+  it("should run from the heartbeat once per interval", () => {
+    process.env.MOLTMIND_RETENTION_ARCHIVED_DAYS = "90";
+    const ids = seed();
+    assert.equal(retention.maybeRunRetention(), true);
+    assert.equal(db.getMemoryRaw(ids.expired), null);
+    assert.equal(retention.maybeRunRetention(), false);
+  });
+
+  describe("mm_purge", () => {
+    it("should report without deleting on dry_run", async () => {
+      const { handleMmPurge } = await import("../src/tools/mm_purge.js");
+      const ids = seed();
+
+      const result = await handleMmPurge({ dry_run: true, archived_days: 0 });
+      assert.equal(result.dry_run, true);
+      assert.equal((result.counts as { memories: number }).memories, 2);
+      assert.match(result.message as string, /^Would purge 2 archived memories, 1 diagnostics/);
+      assert.ok(db.getMemoryRaw(ids.expired));
+      assert.ok(db.getMemoryRaw(ids.recent));
+    });
+
+    it("should purge with per-call TTLs and compact the database", async () => {
+      const { handleMmPurge } = await import("../src/tools/mm_purge.js");
+      const { handleMmRecall } = await import("../src/tools/mm_recall.js");
+      const ids = seed();
+
+      const result = await handleMmPurge({ archived_days: 0, compact: true });
+      assert.equal(result.success, true);
+      assert.equal(result.compacted, true);
+      assert.equal((result.counts as { memories: number }).memories, 2);
+      assert.equal(db.getMemoryRaw(ids.recent), null);
+      assert.equal(db.getMemoryStats().total, 1);
+
+      // The keyword index no longer holds purged rows
+      const recall = await handleMmRecall({ query: "Expired" });
+      assert.equal(recall.results.length, 0);
+    });
+
+    it("should leave the database uncompacted unless asked", async () => {
+      const { handleMmPurge } = await import("../src/tools/mm_purge.js");
+      seed();
+      const result = await handleMmPurge({});
+      assert.equal(result.compacted, false);
+      assert.equal((result.counts as { memories: number }).memories, 0);
+    });
+  });
+});
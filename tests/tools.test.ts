@@ -1,9 +1,10 @@
 import { describe, it, beforeEach, afterEach } from "node:test";
 import assert from "node:assert/strict";
-import { mkdirSync, rmSync, existsSync, renameSync } from "node:fs";
+import { mkdirSync, rmSync, existsSync, renameSync, copyFileSync } from "node:fs";
 import { join } from "node:path";
 import { tmpdir, homedir } from "node:os";
 import crypto from "node:crypto";
+import type { Handoff } from "../src/types.js";
 
 const originalCwd = process.cwd();
 let testDir: string;
@@ -11,6 +12,7 @@ let db: typeof import("../src/db.js");
 
 // Import tool handlers
 let handleMmStore: typeof import("../src/tools/mm_store.js").handleMmStore;
+let handleMmStoreBatch: typeof import("../src/tools/mm_store_batch.js").handleMmStoreBatch;
 let handleMmRecall: typeof import("../src/tools/mm_recall.js").handleMmRecall;
 let handleMmRead: typeof import("../src/tools/mm_read.js").handleMmRead;
 let handleMmUpdate: typeof import("../src/tools/mm_update.js").handleMmUpdate;
@@ -24,6 +26,8 @@ let handleMmMetrics: typeof import("../src/tools/mm_metrics.js").handleMmMetrics
 let handleMmSessionSave: typeof import("../src/tools/mm_session_save.js").handleMmSessionSave;
 let handleMmSessionResume: typeof import("../src/tools/mm_session_resume.js").handleMmSessionResume;
 let handleMmSessionHistory: typeof import("../src/tools/mm_session_history.js").handleMmSessionHistory;
+let handleMmExport: typeof import("../src/tools/mm_export.js").handleMmExport;
+let handleMmImport: typeof import("../src/tools/mm_import.js").handleMmImport;
 let metricsModule: typeof import("../src/metrics.js");
 let configModule: typeof import("../src/config.js");
 
@@ -45,6 +49,8 @@ describe("MCP Tool Handlers", () => {
 
     const store = await import("../src/tools/mm_store.js");
     handleMmStore = store.handleMmStore;
+    const storeBatch = await import("../src/tools/mm_store_batch.js");
+    handleMmStoreBatch = storeBatch.handleMmStoreBatch;
     const recall = await import("../src/tools/mm_recall.js");
     handleMmRecall = recall.handleMmRecall;
     const read = await import("../src/tools/mm_read.js");
@@ -71,6 +77,10 @@ describe("MCP Tool Handlers", () => {
     handleMmSessionResume = sessionResume.handleMmSessionResume;
     const sessionHistory = await import("../src/tools/mm_session_history.js");
     handleMmSessionHistory = sessionHistory.handleMmSessionHistory;
+    const exportTool = await import("../src/tools/mm_export.js");
+    handleMmExport = exportTool.handleMmExport;
+    const importTool = await import("../src/tools/mm_import.js");
+    handleMmImport = importTool.handleMmImport;
     metricsModule = await import("../src/metrics.js");
     configModule = await import("../src/config.js");
     // Initialize metrics to create an active session
@@ -110,6 +120,36 @@ describe("MCP Tool Handlers", () => {
     });
   });
 
+  // --- mm_store_batch ---
+  describe("mm_store_batch", () => {
+    it("should store every item with its embedding in one call", async () => {
+      embeddings.setEmbeddingProvider(new embeddings.HashEmbeddingProvider());
+      const result = await handleMmStoreBatch({
+        memories: [
+          { title: "Cache warmup", content: "Warm the cache before load tests.", type: "learning", tags: ["perf"] },
+          { title: "Flaky test", content: "The upload test needs a longer timeout.", type: "error" },
+        ],
+      });
+      assert.equal(result.success, true);
+      assert.equal(result.stored, 2);
+      assert.equal(result.failed, 0);
+
+      const results = result.results as Array<{ index: number; success: boolean; id: string }>;
+      const first = db.getMemoryRaw(results[0].id)!;
+      assert.equal(first.type, "learning");
+      assert.deepEqual(first.tags, ["perf"]);
+      assert.equal(first.embedding_model, "hash:384");
+      assert.equal(db.getMemoryRaw(results[1].id)!.title, "Flaky test");
+    });
+
+    it("should store items without embeddings when the model is unavailable", async () => {
+      const result = await handleMmStoreBatch({ memories: [{ title: "Offline", content: "No model here." }] });
+      assert.equal(result.stored, 1);
+      const [item] = result.results as Array<{ id: string }>;
+      assert.equal(db.getMemoryRaw(item.id)!.embedding, null);
+    });
+  });
+
   // --- mm_recall ---
   describe("mm_recall", () => {
     it("should find memories by keyword (FTS fallback)", async () => {
@@ -127,6 +167,76 @@ describe("MCP Tool Handlers", () => {
       assert.equal(result.success, true);
       assert.equal(result.count, 0);
     });
+
+    it("should not throw on queries containing FTS5 syntax", async () => {
+      await handleMmStore({ title: "Error: ENOENT", content: "File not-found while reading config.json" });
+
+      const result = await handleMmRecall({ query: "Error: \"ENOENT (not-found" });
+      assert.equal(result.success, true);
+      assert.equal(result.count, 1);
+    });
+
+    it("should honor advanced syntax when enabled", async () => {
+      await handleMmStore({ title: "Deploy plan", content: "Roll out with blue green deploys", type: "plan", tags: ["ops"] });
+      await handleMmStore({ title: "Deploy bug", content: "Deploys failed on green hosts", type: "error", tags: ["ops"] });
+
+      const byType = await handleMmRecall({ query: "deploy type:plan", advanced: true });
+      assert.deepEqual(byType.results.map((r) => r.title), ["Deploy plan"]);
+
+      const negated = await handleMmRecall({ query: "deploy -failed tag:ops", advanced: true });
+      assert.deepEqual(negated.results.map((r) => r.title), ["Deploy plan"]);
+
+      const phrase = await handleMmRecall({ query: "\"blue green\"", advanced: true });
+      assert.equal(phrase.count, 1);
+    });
+
+    it("should fill the limit when filtering by type", async () => {
+      for (let i = 0; i < 6; i++) {
+        await handleMmStore({ title: `Retry note ${i}`, content: "retry retry retry backoff", type: "raw" });
+      }
+      await handleMmStore({ title: "Retry decision A", content: "retry with backoff", type: "decision" });
+      await handleMmStore({ title: "Retry decision B", content: "retry with jitter", type: "decision" });
+
+      const result = await handleMmRecall({ query: "retry", limit: 2, type: "decision" });
+      assert.equal(result.count, 2);
+      assert.ok(result.results.every((r) => r.type === "decision"));
+    });
+
+    it("should filter by tags, dates and metadata", async () => {
+      await handleMmStore({ title: "Flaky test", content: "integration suite", tags: ["ci", "tests"], metadata: { repo: "api" } });
+      await handleMmStore({ title: "Flaky deploy", content: "integration deploy", tags: ["cd"], metadata: { repo: "web" } });
+
+      const any = await handleMmRecall({ query: "flaky", tags: ["ci", "cd"] });
+      assert.equal(any.count, 2);
+      const all = await handleMmRecall({ query: "flaky", tags: ["ci", "cd"], tags_mode: "all" });
+      assert.equal(all.count, 0);
+      const meta = await handleMmRecall({ query: "flaky", metadata: [{ path: "repo", value: "web" }] });
+      assert.deepEqual(meta.results.map((r) => r.title), ["Flaky deploy"]);
+      const future = await handleMmRecall({ query: "flaky", after: "2999-01-01" });
+      assert.equal(future.count, 0);
+    });
+
+    it("should return a score breakdown with explain", async () => {
+      await handleMmStore({ title: "Ranking notes", content: "Reciprocal rank fusion" });
+
+      const result = await handleMmRecall({ query: "ranking", ranking: "rrf", explain: true });
+      const explain = result.results[0].explain as Record<string, unknown>;
+      assert.equal(explain.strategy, "rrf");
+      assert.equal(explain.keyword_rank, 1);
+      assert.equal(typeof explain.bm25, "number");
+      assert.equal(explain.final, result.results[0].score);
+
+      const plain = await handleMmRecall({ query: "ranking" });
+      assert.equal(plain.results[0].explain, undefined);
+    });
+
+    it("should reject invalid dates and metadata paths", async () => {
+      const badDate = await handleMmRecall({ query: "x", before: "not a date" });
+      assert.equal(badDate.success, false);
+      const badPath = await handleMmRecall({ query: "x", metadata: [{ path: "a'); DROP TABLE memories; --" }] });
+      assert.equal(badPath.success, false);
+      assert.match(badPath.message!, /Invalid metadata path/);
+    });
   });
 
   // --- mm_read ---
@@ -190,6 +300,33 @@ describe("MCP Tool Handlers", () => {
       // New tier + usage fields
       assert.ok(result.tier === "free" || result.tier === "pro");
       assert.equal(typeof result.usage, "string");
+      // Brute-force search reads memory.db, so there is no index to drift
+      assert.equal(result.vector_index, null);
+    });
+  });
+
+  describe("embedding providers", () => {
+    it("should record the model and only compare vectors from it", async () => {
+      embeddings.setEmbeddingProvider(new embeddings.HashEmbeddingProvider());
+      const stored = await handleMmStore({ title: "Deploy checklist", content: "run migrations before deploy" });
+      assert.equal(db.getMemoryRaw(stored.id!)!.embedding_model, "hash:384");
+
+      // Same words, but embedded by another model: must not surface via vector search
+      const foreign = (await new embeddings.HashEmbeddingProvider().embed("Deploy checklist run migrations before deploy"))!;
+      db.insertMemory({
+        id: "foreign", type: "raw", title: "zzz", content: "zzz", tags: [], metadata: {},
+        embedding: embeddings.embeddingToBuffer(foreign), embedding_model: "openai:other", tier: "hot",
+      });
+
+      const result = await handleMmRecall({ query: "deploy migrations" });
+      const ids = result.results.map((r) => r.id);
+      assert.ok(ids.includes(stored.id));
+      assert.ok(!ids.includes("foreign"));
+
+      const status = await handleMmStatus();
+      assert.equal(status.mixed_embedding_models, true);
+      assert.deepEqual(status.embedding_models, { "hash:384": 1, "openai:other": 1 });
+      assert.deepEqual(status.embedding_provider, { id: "hash:384", dimensions: 384 });
     });
   });
 
@@ -245,6 +382,207 @@ describe("MCP Tool Handlers", () => {
     });
   });
 
+  // --- Addressed handoffs ---
+  describe("mm_handoff_load: addressed handoffs", () => {
+    afterEach(() => {
+      delete process.env.MOLTMIND_AGENT;
+      delete process.env.MOLTMIND_AGENT_ROLES;
+    });
+
+    it("should give each executor only handoffs addressed to it, once", async () => {
+      await handleMmHandoffCreate({ goal: "For reviewer", current_state: "s", next_action: "n", target: "reviewer" });
+      await handleMmHandoffCreate({ goal: "Task 1", current_state: "s", next_action: "n", target: "executor" });
+      await handleMmHandoffCreate({ goal: "Task 2", current_state: "s", next_action: "n", target: "executor" });
+
+      process.env.MOLTMIND_AGENT = "exec-1";
+      process.env.MOLTMIND_AGENT_ROLES = "executor";
+      const first = await handleMmHandoffLoad();
+      const firstHandoff = first.handoff as Handoff;
+      assert.equal(firstHandoff.goal, "Task 2");
+      assert.equal(firstHandoff.accepted_by, "exec-1");
+      assert.ok(firstHandoff.accepted_at);
+      assert.equal(first.pending, 1);
+
+      process.env.MOLTMIND_AGENT = "exec-2";
+      const second = await handleMmHandoffLoad();
+      assert.equal((second.handoff as Handoff).goal, "Task 1");
+      assert.equal(second.pending, 0);
+
+      process.env.MOLTMIND_AGENT = "exec-3";
+      assert.equal((await handleMmHandoffLoad()).success, false);
+    });
+
+    it("should give an agent back the handoff it is working on", async () => {
+      const { handleMmHandoffUpdate } = await import("../src/tools/mm_handoff_update.js");
+      await handleMmHandoffCreate({ goal: "Task 1", current_state: "s", next_action: "n", target: "executor" });
+      await handleMmHandoffCreate({ goal: "Task 2", current_state: "s", next_action: "n", target: "executor" });
+
+      process.env.MOLTMIND_AGENT = "exec-1";
+      const taken = await handleMmHandoffLoad({ target: "executor" });
+      assert.equal((taken.handoff as Handoff).goal, "Task 2");
+
+      // After a restart the same agent gets it again, ahead of the queue
+      const again = await handleMmHandoffLoad({ target: "executor" });
+      assert.equal(again.resumed, true);
+      assert.equal((again.handoff as Handoff).id, (taken.handoff as Handoff).id);
+      assert.equal(again.pending, 1);
+
+      await handleMmHandoffUpdate({ id: (taken.handoff as Handoff).id, state: "done" });
+      assert.equal(((await handleMmHandoffLoad({ target: "executor" })).handoff as Handoff).goal, "Task 1");
+    });
+
+    it("should hand work left by an ended session to the next one without --agent", async () => {
+      await handleMmHandoffCreate({ goal: "Task 1", current_state: "s", next_action: "n" });
+      const first = metricsModule.getCurrentSessionId()!;
+      const taken = await handleMmHandoffLoad();
+      assert.equal((taken.handoff as Handoff).accepted_by, first);
+
+      // A session running alongside leaves it alone
+      db.insertSession("parallel");
+      metricsModule.setCurrentSessionId("parallel");
+      assert.equal((await handleMmHandoffLoad()).success, false);
+
+      // Once the first session ends, the restarted one picks it back up
+      metricsModule.setCurrentSessionId(first);
+      metricsModule.pauseCurrentSession();
+      metricsModule.initMetrics();
+      const again = await handleMmHandoffLoad();
+      assert.equal(again.resumed, true);
+      assert.equal((again.handoff as Handoff).id, (taken.handoff as Handoff).id);
+      assert.equal((again.handoff as Handoff).accepted_by, metricsModule.getCurrentSessionId());
+    });
+
+    it("should let anyone load untargeted handoffs and peek without accepting", async () => {
+      await handleMmHandoffCreate({ goal: "Anyone", current_state: "s", next_action: "n" });
+
+      const peek = await handleMmHandoffLoad({ accept: false });
+      assert.equal(peek.accepted, false);
+      assert.equal((peek.handoff as Handoff).accepted_at, null);
+      assert.equal(peek.pending, 0);
+
+      const taken = await handleMmHandoffLoad({ target: "anything" });
+      assert.equal((taken.handoff as Handoff).goal, "Anyone");
+      process.env.MOLTMIND_AGENT = "someone-else";
+      assert.equal((await handleMmHandoffLoad()).success, false);
+    });
+
+    it("should filter the list by target and acceptance", async () => {
+      const { handleMmHandoffList } = await import("../src/tools/mm_handoff_list.js");
+      await handleMmHandoffCreate({ goal: "Review", current_state: "s", next_action: "n", target: "reviewer" });
+      await handleMmHandoffCreate({ goal: "Build", current_state: "s", next_action: "n", target: "executor" });
+      await handleMmHandoffLoad({ target: "executor" });
+
+      const forReviewer = await handleMmHandoffList({ target: "reviewer" });
+      assert.deepEqual((forReviewer.handoffs as Handoff[]).map((h) => h.goal), ["Review"]);
+      const accepted = await handleMmHandoffList({ accepted: true });
+      assert.deepEqual((accepted.handoffs as Handoff[]).map((h) => h.goal), ["Build"]);
+    });
+  });
+
+  // --- Handoff progress ---
+  describe("mm_handoff_update", () => {
+    it("should check off stop conditions and unknowns by index", async () => {
+      const { handleMmHandoffUpdate } = await import("../src/tools/mm_handoff_update.js");
+      const created = await handleMmHandoffCreate({
+        goal: "Ship rate limiting", current_state: "s", next_action: "n",
+        stop_conditions: ["Tests pass", "Deployed", "Dashboards updated"],
+        known_unknowns: ["Redis or memory?", "Per-IP or per-user?"],
+      });
+      const id = (created.handoff as Handoff).id;
+      assert.equal((created.handoff as Handoff).state, "open");
+
+      const result = await handleMmHandoffUpdate({ id, state: "in_progress", meet_stop_conditions: [2, 0], resolve_unknowns: [1] });
+      assert.equal(result.success, true);
+      const handoff = result.handoff as Handoff;
+      assert.equal(handoff.state, "in_progress");
+      assert.deepEqual(handoff.met_stop_conditions, [0, 2]);
+      assert.deepEqual(handoff.resolved_unknowns, [1]);
+      assert.equal((result.progress as { summary: string }).summary, "2/3 stop conditions met, 1/2 unknowns resolved");
+
+      const unchecked = await handleMmHandoffUpdate({ id, unmeet_stop_conditions: [2] });
+      assert.deepEqual((unchecked.handoff as Handoff).met_stop_conditions, [0]);
+
+      const bad = await handleMmHandoffUpdate({ id, meet_stop_conditions: [3] });
+      assert.equal(bad.success, false);
+      assert.match(bad.message as string, /No stop condition at index 3/);
+      assert.equal((await handleMmHandoffUpdate({ id: "missing", state: "done" })).success, false);
+    });
+
+    it("should start accepted handoffs in progress and skip finished ones when loading", async () => {
+      const { handleMmHandoffUpdate } = await import("../src/tools/mm_handoff_update.js");
+      const older = await handleMmHandoffCreate({ goal: "Older", current_state: "s", next_action: "n" });
+      const newer = await handleMmHandoffCreate({ goal: "Newer", current_state: "s", next_action: "n" });
+      await handleMmHandoffUpdate({ id: (newer.handoff as Handoff).id, state: "abandoned" });
+
+      const loaded = await handleMmHandoffLoad();
+      assert.equal((loaded.handoff as Handoff).id, (older.handoff as Handoff).id);
+      assert.equal((loaded.handoff as Handoff).state, "in_progress");
+    });
+
+    it("should surface outstanding handoffs with progress in mm_session_resume", async () => {
+      const { handleMmHandoffUpdate } = await import("../src/tools/mm_handoff_update.js");
+      const open = await handleMmHandoffCreate({
+        goal: "Open work", current_state: "s", next_action: "n", stop_conditions: ["A", "B"],
+      });
+      await handleMmHandoffUpdate({ id: (open.handoff as Handoff).id, meet_stop_conditions: [1] });
+      const done = await handleMmHandoffCreate({ goal: "Finished work", current_state: "s", next_action: "n" });
+      await handleMmHandoffUpdate({ id: (done.handoff as Handoff).id, state: "done" });
+
+      const result = await handleMmSessionResume({});
+      const outstanding = result.outstanding_handoffs as Array<{ goal: string; state: string; progress: string }>;
+      assert.deepEqual(outstanding.map((h) => [h.goal, h.state, h.progress]), [["Open work", "open", "1/2 stop conditions met"]]);
+      assert.match(result.message as string, /1 outstanding handoff/);
+    });
+  });
+
+  // --- mm_handoff_list / mm_handoff_get ---
+  describe("mm_handoff_list and mm_handoff_get", () => {
+    it("should chain a session's handoffs and list them newest first", async () => {
+      const { handleMmHandoffList } = await import("../src/tools/mm_handoff_list.js");
+      const first = await handleMmHandoffCreate({ goal: "Migrate auth", current_state: "Planned", next_action: "Start" });
+      const second = await handleMmHandoffCreate({ goal: "Migrate auth tokens", current_state: "Half done", next_action: "Finish" });
+      const firstId = (first.handoff as Handoff).id;
+      assert.equal((first.handoff as Handoff).parent_handoff_id, null);
+      assert.equal((second.handoff as Handoff).parent_handoff_id, firstId);
+
+      const all = await handleMmHandoffList({});
+      assert.deepEqual((all.handoffs as Handoff[]).map((h) => h.goal), ["Migrate auth tokens", "Migrate auth"]);
+
+      const byGoal = await handleMmHandoffList({ goal: "TOKENS" });
+      assert.equal(byGoal.count, 1);
+      const bySession = await handleMmHandoffList({ session_id: "other-session" });
+      assert.equal(bySession.count, 0);
+      const byDate = await handleMmHandoffList({ after: "2999-01-01" });
+      assert.equal(byDate.count, 0);
+      assert.equal((await handleMmHandoffList({ before: "not a date" })).success, false);
+    });
+
+    it("should load any handoff by id with its ancestors and children", async () => {
+      const { handleMmHandoffGet } = await import("../src/tools/mm_handoff_get.js");
+      const root = await handleMmHandoffCreate({ goal: "Root", current_state: "s", next_action: "n" });
+      const rootId = (root.handoff as Handoff).id;
+      const middle = await handleMmHandoffCreate({ goal: "Middle", current_state: "s", next_action: "n" });
+      const middleId = (middle.handoff as Handoff).id;
+      const leaf = await handleMmHandoffCreate({ goal: "Leaf", current_state: "s", next_action: "n" });
+      const branch = await handleMmHandoffCreate({ goal: "Branch", current_state: "s", next_action: "n", parent_handoff_id: middleId });
+
+      const result = await handleMmHandoffGet({ id: middleId });
+      assert.equal((result.handoff as Handoff).goal, "Middle");
+      assert.deepEqual((result.ancestors as Handoff[]).map((h) => h.id), [rootId]);
+      assert.deepEqual(
+        (result.children as Handoff[]).map((h) => h.id),
+        [(leaf.handoff as Handoff).id, (branch.handoff as Handoff).id]
+      );
+
+      const fromLeaf = await handleMmHandoffGet({ id: (leaf.handoff as Handoff).id });
+      assert.deepEqual((fromLeaf.ancestors as Handoff[]).map((h) => h.goal), ["Middle", "Root"]);
+
+      assert.equal((await handleMmHandoffGet({ id: "missing" })).success, false);
+      const orphan = await handleMmHandoffCreate({ goal: "Orphan", current_state: "s", next_action: "n", parent_handoff_id: "missing" });
+      assert.equal(orphan.success, false);
+    });
+  });
+
   // --- mm_feedback ---
   describe("mm_feedback", () => {
     it("should record feedback", async () => {
@@ -465,13 +803,65 @@ describe("MCP Tool Handlers", () => {
     });
   });
 
+  // --- mm_export / mm_import ---
+  describe("mm_export / mm_import", () => {
+    it("should export to the default path beside memory.db", async () => {
+      await handleMmStore({ title: "Exported", content: "Goes into the file." });
+      const result = await handleMmExport({});
+      assert.equal(result.success, true);
+      assert.ok(String(result.path).includes(join(".moltmind", "exports")));
+      assert.ok(existsSync(result.path as string));
+      assert.equal((result.counts as Record<string, number>).memories, 1);
+    });
+
+    it("should round-trip memories into a fresh vault", async () => {
+      await handleMmStore({ title: "Portable", content: "Moves between machines." });
+      const exported = await handleMmExport({ path: "vault.jsonl" });
+      assert.equal(exported.path, join(testDir, ".moltmind", "exports", "vault.jsonl"));
+
+      const otherDir = join(testDir, "other");
+      mkdirSync(join(otherDir, ".moltmind", "exports"), { recursive: true });
+      copyFileSync(exported.path as string, join(otherDir, ".moltmind", "exports", "vault.jsonl"));
+      process.chdir(otherDir);
+      db.initProjectVault(metricsModule.getCurrentSessionId());
+
+      const result = await handleMmImport({ path: "vault.jsonl" });
+      assert.equal(result.success, true);
+      const recall = await handleMmRecall({ query: "Portable" });
+      assert.equal(recall.count, 1);
+    });
+
+    it("should return error for a missing file", async () => {
+      const result = await handleMmImport({ path: "nope.jsonl" });
+      assert.equal(result.success, false);
+      assert.match(result.message as string, /File not found/);
+    });
+
+    it("should refuse paths outside the vault directory unless allowed", async () => {
+      const outside = join(testDir, "vault.jsonl");
+      const exported = await handleMmExport({ path: outside });
+      assert.equal(exported.success, false);
+      assert.match(exported.message as string, /outside the vault directory/);
+      assert.equal(existsSync(outside), false);
+      assert.equal((await handleMmImport({ path: "../../vault.jsonl" })).success, false);
+
+      process.env.MOLTMIND_ALLOW_ANY_TRANSFER_PATH = "1";
+      try {
+        assert.equal((await handleMmExport({ path: outside })).success, true);
+        assert.equal((await handleMmImport({ path: outside })).success, true);
+      } finally {
+        delete process.env.MOLTMIND_ALLOW_ANY_TRANSFER_PATH;
+      }
+    });
+  });
+
   // --- Tool filtering (--moltbook flag) ---
   describe("config: tool filtering", () => {
     it("should report default mode without --moltbook flag", () => {
       // In test environment, --moltbook is not passed
       assert.equal(configModule.isMoltbookEnabled(), false);
       assert.equal(configModule.getToolMode(), "default");
-      assert.equal(configModule.getEnabledToolCount(), 14);
+      assert.equal(configModule.getEnabledToolCount(), 29);
     });
 
     it("should mark mm_* tools as enabled in default mode", () => {
@@ -534,6 +924,20 @@ describe("MCP Tool Handlers", () => {
       assert.equal(result.success, false);
       assert.ok(result.message?.includes("20 stores per day"));
     });
+
+    it("should refuse only the batch items past the daily limit", async () => {
+      await handleMmStore({ title: "Earlier", content: "Stored before the batch." });
+      const memories = Array.from({ length: 22 }, (_, i) => ({ title: `Batch ${i}`, content: `Content ${i}` }));
+      const result = await handleMmStoreBatch({ memories });
+
+      assert.equal(result.success, true);
+      assert.equal(result.stored, 19);
+      assert.equal(result.failed, 3);
+      const results = result.results as Array<{ index: number; success: boolean; message?: string }>;
+      assert.equal(results[18].success, true);
+      assert.deepEqual(results.slice(19).map((r) => r.index), [19, 20, 21]);
+      assert.ok(results.slice(19).every((r) => !r.success && r.message?.includes("20 stores per day")));
+    });
   });
 
   // --- mm_metrics includes token_savings ---
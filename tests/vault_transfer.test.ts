@@ -0,0 +1,211 @@
+import { describe, it, beforeEach, afterEach } from "node:test";
+import assert from "node:assert/strict";
+import { mkdirSync, rmSync, existsSync, readFileSync, writeFileSync } from "node:fs";
+import { join } from "node:path";
+import { tmpdir } from "node:os";
+import crypto from "node:crypto";
+
+const originalCwd = process.cwd();
+let testDir: string;
+let exportPath: string;
+let db: typeof import("../src/db.js");
+let transfer: typeof import("../src/vault_transfer.js");
+
+function switchVault(name: string): void {
+  const dir = join(testDir, name);
+  mkdirSync(dir, { recursive: true });
+  process.chdir(dir);
+  db.closeDb();
+  db.initProjectVault();
+}
+
+function seedVault(): void {
+  const embedding = new Float32Array(384).fill(0);
+  embedding[0] = 1;
+  db.insertSession("session-a");
+  db.insertMemory({
+    id: "mem-1", type: "decision", title: "Use SQLite", content: "Local-first storage.",
+    tags: ["arch"], metadata: { source: "test" }, embedding: Buffer.from(embedding.buffer), tier: "hot",
+  });
+  db.insertMemory({
+    id: "mem-2", type: "raw", title: "Old note", content: "Archived.",
+    tags: [], metadata: {}, embedding: null, tier: "archived",
+  });
+  db.insertHandoff({
+    id: "handoff-1", goal: "Ship export", current_state: "Drafted", next_action: "Test",
+    constraints: [], known_unknowns: [], artifacts: [], stop_conditions: [], session_id: "session-a",
+  });
+  db.logSessionEvent("session-a", "memory_stored", "mem-1", "Stored decision: Use SQLite");
+  db.insertFeedback("friction", "Export took a while");
+}
+
+describe("Vault Transfer", () => {
+  beforeEach(async () => {
+    testDir = join(tmpdir(), `moltmind-transfer-${crypto.randomUUID()}`);
+    mkdirSync(testDir, { recursive: true });
+    exportPath = join(testDir, "vault.jsonl");
+
+    db = await import("../src/db.js");
+    const embeddings = await import("../src/embeddings.js");
+    embeddings._setModelFailed();
+    transfer = await import("../src/vault_transfer.js");
+
+    switchVault("source");
+    seedVault();
+  });
+
+  afterEach(() => {
+    db.closeDb();
+    process.chdir(originalCwd);
+    if (existsSync(testDir)) {
+      rmSync(testDir, { recursive: true, force: true });
+    }
+  });
+
+  describe("exportVault", () => {
+    it("should write a header line followed by one record per row", () => {
+      const { counts } = transfer.exportVault({ path: exportPath });
+      assert.deepEqual(counts, { memories: 2, memory_versions: 0, memory_links: 0, handoffs: 1, sessions: 1, session_events: 1, feedback: 1 });
+
+      const lines = readFileSync(exportPath, "utf-8").trim().split("\n");
+      const header = JSON.parse(lines[0]);
+      assert.equal(header.kind, "header");
+      assert.equal(header.format, "moltmind-vault");
+      assert.equal(header.version, transfer.VAULT_FORMAT_VERSION);
+      assert.equal(lines.length, 1 + 6);
+
+      const memory = lines.map((l) => JSON.parse(l)).find((r) => r.kind === "memory" && r.data.id === "mem-1");
+      assert.equal(typeof memory.data.embedding, "string");
+    });
+
+    it("should omit embeddings and archived memories when asked", () => {
+      const { counts } = transfer.exportVault({ path: exportPath, include_embeddings: false, include_archived: false });
+      assert.equal(counts.memories, 1);
+
+      const records = readFileSync(exportPath, "utf-8").trim().split("\n").map((l) => JSON.parse(l));
+      assert.equal(records[0].embedding_model, null);
+      assert.equal(records.find((r) => r.kind === "memory").data.embedding, null);
+    });
+  });
+
+  describe("importVault", () => {
+    it("should restore all records into an empty vault", async () => {
+      transfer.exportVault({ path: exportPath });
+      switchVault("target");
+
+      const report = await transfer.importVault(exportPath);
+      assert.equal(report.memories.imported, 2);
+      assert.equal(report.handoffs.imported, 1);
+      assert.equal(report.sessions.imported, 1);
+      assert.equal(report.session_events.imported, 1);
+      assert.equal(report.feedback.imported, 1);
+
+      const restored = db.getMemoryRaw("mem-1");
+      assert.ok(restored);
+      assert.deepEqual(restored.tags, ["arch"]);
+      assert.ok(restored.embedding);
+      assert.equal(db.getMemoryRaw("mem-2")!.tier, "archived");
+      assert.equal(db.getHandoff("handoff-1")!.session_id, "session-a");
+    });
+
+    it("should skip records that already exist with identical content", async () => {
+      transfer.exportVault({ path: exportPath });
+
+      const report = await transfer.importVault(exportPath);
+      assert.equal(report.memories.imported, 0);
+      assert.equal(report.memories.skipped, 2);
+      assert.equal(report.handoffs.skipped, 1);
+      assert.equal(report.sessions.skipped, 1);
+    });
+
+    it("should remap conflicting ids and rewrite references", async () => {
+      transfer.exportVault({ path: exportPath });
+      switchVault("target");
+      db.insertMemory({ id: "mem-1", type: "raw", title: "Different", content: "Unrelated.", tags: [], metadata: {}, embedding: null, tier: "hot" });
+      db.insertSession("session-a");
+
+      const report = await transfer.importVault(exportPath);
+      assert.equal(report.memories.remapped, 1);
+      assert.equal(report.sessions.remapped, 1);
+
+      assert.equal(db.getMemoryRaw("mem-1")!.title, "Different");
+      const imported = db.getAllMemories(undefined, 10).find((m) => m.title === "Use SQLite");
+      assert.ok(imported);
+      assert.notEqual(imported.id, "mem-1");
+
+      const events = db.getAllSessionEvents();
+      assert.equal(events.length, 1);
+      assert.equal(events[0].resource_id, imported.id);
+      assert.notEqual(events[0].session_id, "session-a");
+      assert.equal(db.getHandoff("handoff-1")!.session_id, events[0].session_id);
+    });
+
+    it("should carry versions and links, remapping them with their memories", async () => {
+      db.updateMemory("mem-1", { content: "Local-first storage, one file per project." });
+      db.addMemoryLinks("mem-1", [{ target_id: "mem-2", type: "supersedes" }]);
+      const { counts } = transfer.exportVault({ path: exportPath });
+      assert.deepEqual([counts.memory_versions, counts.memory_links], [1, 1]);
+      switchVault("target");
+      db.insertMemory({ id: "mem-1", type: "raw", title: "Different", content: "Unrelated.", tags: [], metadata: {}, embedding: null, tier: "hot" });
+
+      const report = await transfer.importVault(exportPath);
+      assert.deepEqual(report.memory_versions, { imported: 1, skipped: 0, remapped: 1 });
+      assert.deepEqual(report.memory_links, { imported: 1, skipped: 0, remapped: 1 });
+
+      const imported = db.getAllMemories(undefined, 10).find((m) => m.title === "Use SQLite")!;
+      assert.equal(db.getMemoryVersions(imported.id)[0].content, "Local-first storage.");
+      assert.deepEqual(db.getMemoryVersions("mem-1"), []);
+      assert.deepEqual(
+        db.getMemoryLinks([imported.id]).map((l) => [l.source_id, l.target_id, l.type]),
+        [[imported.id, "mem-2", "supersedes"]]
+      );
+
+      // Links to memories left out of an export are left out too
+      switchVault("source");
+      assert.equal(transfer.exportVault({ path: exportPath, include_archived: false }).counts.memory_links, 0);
+    });
+
+    it("should remap a conflicting handoff's id in its children's parent_handoff_id", async () => {
+      db.insertHandoff({
+        id: "handoff-2", goal: "Ship import", current_state: "Started", next_action: "Test",
+        constraints: [], known_unknowns: [], artifacts: [], stop_conditions: [], session_id: "session-a",
+        parent_handoff_id: "handoff-1",
+      });
+      transfer.exportVault({ path: exportPath });
+      switchVault("target");
+      db.insertHandoff({
+        id: "handoff-1", goal: "Something else", current_state: "s", next_action: "n",
+        constraints: [], known_unknowns: [], artifacts: [], stop_conditions: [], session_id: "session-b",
+      });
+
+      const report = await transfer.importVault(exportPath);
+      assert.equal(report.handoffs.remapped, 1);
+      const parentId = db.getHandoff("handoff-2")!.parent_handoff_id!;
+      assert.notEqual(parentId, "handoff-1");
+      assert.equal(db.getHandoff(parentId)!.goal, "Ship export");
+    });
+
+    it("should re-embed when the export used a different model", async () => {
+      transfer.exportVault({ path: exportPath });
+      const lines = readFileSync(exportPath, "utf-8").trim().split("\n");
+      const header = JSON.parse(lines[0]);
+      header.embedding_model = "some/other-model";
+      writeFileSync(exportPath, [JSON.stringify(header), ...lines.slice(1)].join("\n") + "\n");
+      switchVault("target");
+
+      await transfer.importVault(exportPath);
+      // Model is unavailable in tests, so the foreign vector is dropped rather than reused
+      assert.equal(db.getMemoryRaw("mem-1")!.embedding, null);
+    });
+
+    it("should reject files that are not vault exports", async () => {
+      writeFileSync(exportPath, JSON.stringify({ hello: "world" }) + "\n");
+      await assert.rejects(() => transfer.importVault(exportPath), /Not a MoltMind vault export/);
+    });
+
+    it("should reject newer format versions", async () => {
+      writeFileSync(exportPath, JSON.stringify({ kind: "header", format: "moltmind-vault", version: 99 }) + "\n");
+      await assert.rejects(() => transfer.importVault(exportPath), /newer than supported/);
+    });
+  });
+});
@@ -0,0 +1,179 @@
+import { describe, it, beforeEach, afterEach } from "node:test";
+import assert from "node:assert/strict";
+import { mkdirSync, rmSync, existsSync } from "node:fs";
+import { join } from "node:path";
+import { tmpdir } from "node:os";
+import crypto from "node:crypto";
+import type { VectorStore, VectorSearchResult } from "../src/vector_store.js";
+
+const originalCwd = process.cwd();
+let testDir: string;
+let db: typeof import("../src/db.js");
+let integrity: typeof import("../src/vector_integrity.js");
+let vectorStore: typeof import("../src/vector_store.js");
+let hnsw: typeof import("../src/vector_store_hnsw.js");
+let tracked: import("../src/vector_integrity.js").TrackedVectorStore | null = null;
+
+// Stand-in for Zvec: holds vectors but can't list them
+class OpaqueStore implements VectorStore {
+  readonly vectors = new Map<string, Float32Array>();
+  upsert(id: string, vector: Float32Array): void {
+    this.vectors.set(id, vector);
+  }
+  search(): VectorSearchResult[] {
+    return [];
+  }
+  delete(id: string): void {
+    this.vectors.delete(id);
+  }
+}
+
+function unitVector(hot: number): Float32Array {
+  const v = new Float32Array(384);
+  v[hot] = 1;
+  return v;
+}
+
+function insert(id: string, hot: number): void {
+  db.insertMemory({ id, type: "raw", title: id, content: id, tags: [], metadata: {}, embedding: Buffer.from(unitVector(hot).buffer), tier: "hot" });
+}
+
+describe("Vector Index Integrity", () => {
+  beforeEach(async () => {
+    testDir = join(tmpdir(), `moltmind-integrity-${crypto.randomUUID()}`);
+    mkdirSync(testDir, { recursive: true });
+    process.chdir(testDir);
+
+    db = await import("../src/db.js");
+    db.closeDb();
+    db.initProjectVault();
+
+    integrity = await import("../src/vector_integrity.js");
+    vectorStore = await import("../src/vector_store.js");
+    hnsw = await import("../src/vector_store_hnsw.js");
+  });
+
+  afterEach(() => {
+    tracked?.detach();
+    tracked = null;
+    vectorStore._resetVectorStore();
+    db.closeDb();
+    process.chdir(originalCwd);
+    if (existsSync(testDir)) {
+      rmSync(testDir, { recursive: true, force: true });
+    }
+  });
+
+  it("should report no index for in-database search", () => {
+    assert.equal(integrity.getVectorIndexStatus(), null);
+    assert.equal(integrity.repairVectorIndex(), null);
+  });
+
+  it("should take an existing index as its baseline", () => {
+    insert("mem-a", 0);
+    insert("mem-b", 1);
+    tracked = new integrity.TrackedVectorStore(new hnsw.HnswStore(join(testDir, "hnsw.idx")), "hnsw");
+
+    const status = integrity.getVectorIndexStatus(tracked)!;
+    assert.equal(status.in_sync, true);
+    assert.equal(status.expected, 2);
+    assert.equal(status.indexed, 2);
+  });
+
+  it("should propagate archives, restores and re-embeds", () => {
+    const inner = new OpaqueStore();
+    tracked = new integrity.TrackedVectorStore(inner, "opaque");
+    insert("mem-a", 0);
+    insert("mem-b", 1);
+    assert.deepEqual([...inner.vectors.keys()], ["mem-a", "mem-b"]);
+
+    db.deleteMemory("mem-a");
+    db.updateMemory("mem-b", { tier: "archived" });
+    assert.equal(inner.vectors.size, 0);
+
+    db.updateMemory("mem-b", { tier: "warm" });
+    db.updateMemory("mem-b", { embedding: Buffer.from(unitVector(5).buffer) });
+    assert.equal(inner.vectors.get("mem-b")![5], 1);
+    assert.equal(integrity.getVectorIndexStatus(tracked)!.in_sync, true);
+  });
+
+  it("should detect and repair writes that bypassed the tracker", () => {
+    insert("mem-a", 0);
+    insert("mem-b", 1);
+    insert("mem-c", 2);
+    const inner = new hnsw.HnswStore(join(testDir, "hnsw.idx"));
+    tracked = new integrity.TrackedVectorStore(inner, "hnsw");
+
+    // Simulate crashes between SQLite writes and the index writes
+    inner.delete("mem-a");
+    db.getDb().prepare("UPDATE memories SET embedding = ? WHERE id = ?").run(Buffer.from(unitVector(9).buffer), "mem-b");
+    inner.upsert("ghost", unitVector(3));
+
+    const status = integrity.getVectorIndexStatus(tracked)!;
+    assert.equal(status.in_sync, false);
+    assert.deepEqual([status.missing, status.changed, status.stale], [1, 1, 1]);
+
+    const report = integrity.repairVectorIndex({}, tracked)!;
+    assert.equal(report.upserted, 2);
+    assert.equal(report.deleted, 1);
+    assert.equal(integrity.getVectorIndexStatus(tracked)!.in_sync, true);
+    assert.deepEqual([...inner.ids()].sort(), ["mem-a", "mem-b", "mem-c"]);
+    assert.equal(inner.search(unitVector(9), 1)[0].id, "mem-b");
+  });
+
+  it("should report manifest counts without reading vectors", () => {
+    const inner = new OpaqueStore();
+    tracked = new integrity.TrackedVectorStore(inner, "opaque");
+    insert("mem-a", 0);
+    insert("mem-b", 1);
+    insert("mem-c", 2);
+    db.clearVectorManifest("opaque");
+    db.setVectorManifestEntries("opaque", [["mem-b", null], ["mem-c", "0000000000000000"], ["ghost", "0000000000000000"]]);
+
+    assert.deepEqual(integrity.getVectorManifestStatus(tracked), {
+      backend: "opaque", expected: 3, indexed: 3, missing: 1, stale: 1, unverified: 1,
+    });
+    // A wrong checksum takes the full check to find
+    assert.equal(integrity.getVectorIndexStatus(tracked)!.changed, 2);
+  });
+
+  it("should rebuild an index that can't list its ids", () => {
+    const inner = new OpaqueStore();
+    insert("mem-a", 0);
+    insert("mem-b", 1);
+    db.deleteMemory("mem-b");
+    inner.upsert("mem-b", unitVector(1)); // left behind before tracking existed
+
+    tracked = new integrity.TrackedVectorStore(inner, "opaque");
+    assert.equal(integrity.getVectorIndexStatus(tracked)!.missing, 1);
+
+    const report = integrity.repairVectorIndex({ full: true }, tracked)!;
+    assert.equal(report.upserted, 1);
+    assert.deepEqual([...inner.vectors.keys()], ["mem-a"]);
+  });
+
+  it("should expose drift through mm_reindex and mm_status", async () => {
+    const inner = new OpaqueStore();
+    tracked = new integrity.TrackedVectorStore(inner, "opaque");
+    vectorStore.initVectorStore(tracked);
+    insert("mem-a", 0);
+    inner.vectors.clear();
+    db.clearVectorManifest("opaque");
+
+    const { handleMmReindex } = await import("../src/tools/mm_reindex.js");
+    const { handleMmStatus } = await import("../src/tools/mm_status.js");
+
+    const dry = await handleMmReindex({ dry_run: true });
+    assert.equal(dry.in_sync, false);
+    assert.equal(dry.missing, 1);
+    assert.equal(inner.vectors.size, 0);
+
+    const status = await handleMmStatus();
+    assert.equal((status.vector_index as { missing: number }).missing, 1);
+
+    const result = await handleMmReindex({});
+    assert.equal(result.success, true);
+    assert.equal(result.upserted, 1);
+    assert.ok(inner.vectors.has("mem-a"));
+  });
+});
@@ -130,6 +130,65 @@ describe("VectorStore", () => {
       assert.equal(results.length, 2);
     });
 
+    it("should apply filters before taking the top k", () => {
+      for (let i = 0; i < 5; i++) {
+        const embedding = new Float32Array(384).fill(0);
+        embedding[0] = 1.0 - i * 0.1;
+        embedding[1] = i * 0.1;
+        db.insertMemory({
+          id: `mem-${i}`,
+          type: i === 4 ? "decision" : "raw",
+          title: `Memory ${i}`,
+          content: `Content ${i}`,
+          tags: [],
+          metadata: {},
+          embedding: Buffer.from(embedding.buffer),
+          tier: "hot",
+        });
+      }
+
+      const store = new vectorStore.BruteForceStore();
+      const query = new Float32Array(384).fill(0);
+      query[0] = 1.0;
+
+      const results = store.search(query, 1, { types: ["decision"] });
+      assert.deepEqual(results.map((r) => r.id), ["mem-4"]);
+    });
+
+    it("should search beyond the first 1000 memories", () => {
+      const filler = new Float32Array(384).fill(0);
+      filler[1] = 1.0;
+      const target = new Float32Array(384).fill(0);
+      target[0] = 1.0;
+
+      db.runInTransaction(() => {
+        db.insertMemory({ id: "mem-oldest", type: "raw", title: "Oldest", content: "c", tags: [], metadata: {}, embedding: Buffer.from(target.buffer), tier: "hot" });
+        for (let i = 0; i < 1200; i++) {
+          db.insertMemory({ id: `filler-${i}`, type: "raw", title: `Filler ${i}`, content: "c", tags: [], metadata: {}, embedding: Buffer.from(filler.buffer), tier: "hot" });
+        }
+      });
+
+      const results = new vectorStore.BruteForceStore().search(target, 1);
+      assert.equal(results[0].id, "mem-oldest");
+      assert.equal(vectorStore.getEmbeddingCacheSize(), 1201);
+    });
+
+    it("should pick up embedding changes after the cache is warm", () => {
+      const a = new Float32Array(384).fill(0);
+      a[0] = 1.0;
+      const b = new Float32Array(384).fill(0);
+      b[1] = 1.0;
+      db.insertMemory({ id: "mem-a", type: "raw", title: "A", content: "a", tags: [], metadata: {}, embedding: Buffer.from(a.buffer), tier: "hot" });
+      db.insertMemory({ id: "mem-b", type: "raw", title: "B", content: "b", tags: [], metadata: {}, embedding: Buffer.from(b.buffer), tier: "hot" });
+
+      const store = new vectorStore.BruteForceStore();
+      assert.equal(store.search(a, 1)[0].id, "mem-a");
+
+      db.updateMemory("mem-b", { embedding: Buffer.from(a.buffer) });
+      db.updateMemory("mem-a", { embedding: Buffer.from(b.buffer) });
+      assert.equal(store.search(a, 1)[0].id, "mem-b");
+    });
+
     it("upsert and delete should be no-ops for BruteForceStore", () => {
       const store = new vectorStore.BruteForceStore();
       store.upsert("test-id", new Float32Array(384));
@@ -137,6 +196,22 @@ describe("VectorStore", () => {
     });
   });
 
+  describe("TopKHeap", () => {
+    it("should keep the k best scores in descending order", () => {
+      const heap = new vectorStore.TopKHeap(3);
+      for (const score of [0.2, 0.9, 0.1, 0.5, 0.7, 0.3]) {
+        heap.push({ id: String(score), score });
+      }
+      assert.deepEqual(heap.toSorted().map((r) => r.score), [0.9, 0.7, 0.5]);
+    });
+
+    it("should hold nothing when k is zero", () => {
+      const heap = new vectorStore.TopKHeap(0);
+      heap.push({ id: "x", score: 1 });
+      assert.deepEqual(heap.toSorted(), []);
+    });
+  });
+
   describe("Singleton management", () => {
     it("getVectorStore() without init should return a new BruteForceStore", () => {
       vectorStore._resetVectorStore();
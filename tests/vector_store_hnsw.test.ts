@@ -0,0 +1,186 @@
+import { describe, it, beforeEach, afterEach } from "node:test";
+import assert from "node:assert/strict";
+import { mkdirSync, rmSync, existsSync, readFileSync, writeFileSync } from "node:fs";
+import { join } from "node:path";
+import { tmpdir } from "node:os";
+import crypto from "node:crypto";
+
+const originalCwd = process.cwd();
+let testDir: string;
+let db: typeof import("../src/db.js");
+let hnsw: typeof import("../src/vector_store_hnsw.js");
+
+// Deterministic pseudo-random unit vectors
+function vectors(count: number, dims: number, seed: number = 1): Float32Array[] {
+  let state = seed;
+  const rand = () => {
+    state = (state * 1103515245 + 12345) % 2147483648;
+    return state / 2147483648 - 0.5;
+  };
+  return Array.from({ length: count }, () => Float32Array.from({ length: dims }, rand));
+}
+
+function exactTopK(query: Float32Array, data: Map<string, Float32Array>, k: number): string[] {
+  const norm = (v: Float32Array) => Math.sqrt(v.reduce((s, x) => s + x * x, 0));
+  const scored = [...data].map(([id, v]) => ({
+    id,
+    score: v.reduce((s, x, i) => s + x * query[i], 0) / (norm(v) * norm(query)),
+  }));
+  return scored.sort((a, b) => b.score - a.score).slice(0, k).map((r) => r.id);
+}
+
+function unitVector(dims: number, hot: number): Float32Array {
+  const v = new Float32Array(dims);
+  v[hot] = 1;
+  return v;
+}
+
+describe("HNSW Vector Store", () => {
+  beforeEach(async () => {
+    testDir = join(tmpdir(), `moltmind-hnsw-${crypto.randomUUID()}`);
+    mkdirSync(testDir, { recursive: true });
+    process.chdir(testDir);
+
+    db = await import("../src/db.js");
+    db.closeDb();
+    db.initProjectVault();
+
+    hnsw = await import("../src/vector_store_hnsw.js");
+  });
+
+  afterEach(() => {
+    db.closeDb();
+    process.chdir(originalCwd);
+    if (existsSync(testDir)) {
+      rmSync(testDir, { recursive: true, force: true });
+    }
+  });
+
+  describe("HnswIndex", () => {
+    it("should reach high recall@10 against exact search", () => {
+      const index = new hnsw.HnswIndex(32);
+      const data = new Map<string, Float32Array>();
+      vectors(1000, 32).forEach((v, i) => {
+        data.set(`v${i}`, v);
+        index.insert(`v${i}`, v);
+      });
+
+      let hits = 0;
+      const queries = vectors(20, 32, 99);
+      for (const q of queries) {
+        const truth = new Set(exactTopK(q, data, 10));
+        hits += index.search(q, 10).filter((r) => truth.has(r.id)).length;
+      }
+      assert.ok(hits / (queries.length * 10) >= 0.9, `recall ${hits / (queries.length * 10)}`);
+    });
+
+    it("should never return deleted vectors and replace on re-insert", () => {
+      const index = new hnsw.HnswIndex(8);
+      for (let i = 0; i < 8; i++) index.insert(`v${i}`, unitVector(8, i));
+
+      index.delete("v3");
+      assert.ok(!index.search(unitVector(8, 3), 8).some((r) => r.id === "v3"));
+      assert.equal(index.size, 7);
+
+      index.insert("v0", unitVector(8, 5));
+      assert.equal(index.size, 7);
+      assert.deepEqual(index.search(unitVector(8, 5), 2).map((r) => r.id).sort(), ["v0", "v5"]);
+    });
+
+    it("should fill k under a selective accept predicate", () => {
+      const index = new hnsw.HnswIndex(16);
+      vectors(300, 16).forEach((v, i) => index.insert(`v${i}`, v));
+      const results = index.search(vectors(1, 16, 7)[0], 5, (id) => id.endsWith("7"));
+      assert.equal(results.length, 5);
+      assert.ok(results.every((r) => r.id.endsWith("7")));
+    });
+
+    it("should round-trip through serialize / deserialize", () => {
+      const index = new hnsw.HnswIndex(16);
+      vectors(200, 16).forEach((v, i) => index.insert(`v${i}`, v));
+      index.delete("v10");
+
+      const restored = hnsw.HnswIndex.deserialize(index.serialize());
+      const q = vectors(1, 16, 3)[0];
+      assert.deepEqual(restored.search(q, 10), index.search(q, 10));
+      assert.equal(restored.size, 199);
+      assert.equal(restored.tombstones, 1);
+    });
+
+    it("should reject corrupted data", () => {
+      const index = new hnsw.HnswIndex(8);
+      index.insert("a", unitVector(8, 0));
+      const data = index.serialize();
+      data[20] ^= 0xff;
+      assert.throws(() => hnsw.HnswIndex.deserialize(data), /checksum/);
+      assert.throws(() => hnsw.HnswIndex.deserialize(Buffer.from("garbage")), /Not an HNSW index/);
+    });
+
+    it("should drop tombstones on compact", () => {
+      const index = new hnsw.HnswIndex(8);
+      for (let i = 0; i < 8; i++) index.insert(`v${i}`, unitVector(8, i));
+      index.delete("v1");
+      const compacted = index.compact();
+      assert.equal(compacted.nodeCount, 7);
+      assert.equal(compacted.tombstones, 0);
+    });
+  });
+
+  describe("HnswStore", () => {
+    function insertWithEmbedding(id: string, vector: Float32Array, type: "raw" | "decision" = "raw"): void {
+      db.insertMemory({ id, type, title: id, content: id, tags: [], metadata: {}, embedding: Buffer.from(vector.buffer), tier: "hot" });
+    }
+
+    it("should build from SQLite when no index file exists", () => {
+      insertWithEmbedding("mem-a", unitVector(384, 0));
+      insertWithEmbedding("mem-b", unitVector(384, 1));
+
+      const store = new hnsw.HnswStore(join(testDir, "hnsw.idx"));
+      assert.equal(store.stats().count, 2);
+      assert.equal(store.search(unitVector(384, 1), 1)[0].id, "mem-b");
+      assert.ok(existsSync(join(testDir, "hnsw.idx")));
+    });
+
+    it("should persist incremental writes through the journal", () => {
+      const path = join(testDir, "hnsw.idx");
+      const store = new hnsw.HnswStore(path);
+      store.upsert("mem-a", unitVector(384, 0));
+      store.upsert("mem-b", unitVector(384, 1));
+      store.delete("mem-a");
+      assert.ok(existsSync(`${path}.log`));
+
+      const reopened = new hnsw.HnswStore(path);
+      assert.deepEqual([...reopened.ids()], ["mem-b"]);
+    });
+
+    it("should ignore a torn final journal record", () => {
+      const path = join(testDir, "hnsw.idx");
+      const store = new hnsw.HnswStore(path);
+      store.upsert("mem-a", unitVector(384, 0));
+      store.upsert("mem-b", unitVector(384, 1));
+      const log = readFileSync(`${path}.log`);
+      writeFileSync(`${path}.log`, log.subarray(0, log.length - 10));
+
+      const reopened = new hnsw.HnswStore(path);
+      assert.deepEqual([...reopened.ids()], ["mem-a"]);
+    });
+
+    it("should rebuild from SQLite when the index file is corrupt", () => {
+      insertWithEmbedding("mem-a", unitVector(384, 0));
+      const path = join(testDir, "hnsw.idx");
+      new hnsw.HnswStore(path);
+      writeFileSync(path, "not an index");
+
+      const rebuilt = new hnsw.HnswStore(path);
+      assert.deepEqual([...rebuilt.ids()], ["mem-a"]);
+    });
+
+    it("should apply recall filters", () => {
+      for (let i = 0; i < 20; i++) insertWithEmbedding(`mem-${i}`, unitVector(384, i), i === 15 ? "decision" : "raw");
+      const store = new hnsw.HnswStore(join(testDir, "hnsw.idx"));
+
+      const results = store.search(unitVector(384, 0), 3, { types: ["decision"] });
+      assert.deepEqual(results.map((r) => r.id), ["mem-15"]);
+    });
+  });
+});
@@ -0,0 +1,150 @@
+import { describe, it, beforeEach, afterEach } from "node:test";
+import assert from "node:assert/strict";
+import { mkdirSync, rmSync, existsSync } from "node:fs";
+import { join } from "node:path";
+import { tmpdir } from "node:os";
+import { createRequire } from "node:module";
+import crypto from "node:crypto";
+
+const originalCwd = process.cwd();
+let testDir: string;
+let db: typeof import("../src/db.js");
+let sqliteVec: typeof import("../src/vector_store_sqlite_vec.js");
+
+// sqlite-vec is an optional dependency — skip when its binary isn't installed
+let available = true;
+try {
+  createRequire(import.meta.url)("sqlite-vec");
+} catch {
+  available = false;
+}
+
+function unitVector(hot: number): Float32Array {
+  const v = new Float32Array(384);
+  v[hot] = 1;
+  return v;
+}
+
+function insert(id: string, hot: number, extra: { type?: "raw" | "decision"; tags?: string[]; tier?: "hot" | "cold" } = {}): void {
+  db.insertMemory({
+    id, type: extra.type ?? "raw", title: id, content: id, tags: extra.tags ?? [], metadata: {},
+    embedding: Buffer.from(unitVector(hot).buffer), tier: extra.tier ?? "hot",
+  });
+}
+
+function vectorIds(): string[] {
+  return (db.getDb().prepare("SELECT memory_id FROM memory_vectors ORDER BY memory_id").all() as Array<{ memory_id: string }>).map((r) => r.memory_id);
+}
+
+describe("sqlite-vec Vector Store", { skip: !available && "sqlite-vec not installed" }, () => {
+  beforeEach(async () => {
+    testDir = join(tmpdir(), `moltmind-sqlitevec-${crypto.randomUUID()}`);
+    mkdirSync(testDir, { recursive: true });
+    process.chdir(testDir);
+
+    db = await import("../src/db.js");
+    db._disableVectorTable();
+    db.closeDb();
+    db.initProjectVault();
+
+    sqliteVec = await import("../src/vector_store_sqlite_vec.js");
+  });
+
+  afterEach(() => {
+    db._disableVectorTable();
+    db.closeDb();
+    process.chdir(originalCwd);
+    if (existsSync(testDir)) {
+      rmSync(testDir, { recursive: true, force: true });
+    }
+  });
+
+  it("should backfill existing embeddings when enabled", () => {
+    insert("mem-a", 0);
+    insert("mem-b", 1);
+    db.insertMemory({ id: "mem-none", type: "raw", title: "n", content: "n", tags: [], metadata: {}, embedding: null, tier: "hot" });
+
+    const store = new sqliteVec.SqliteVecStore();
+    assert.deepEqual(store.synced, { added: 2, removed: 0 });
+    assert.deepEqual(vectorIds(), ["mem-a", "mem-b"]);
+  });
+
+  it("should write vector rows with memory inserts, updates and deletes", () => {
+    new sqliteVec.SqliteVecStore();
+    insert("mem-a", 0);
+    insert("mem-b", 1);
+    assert.deepEqual(vectorIds(), ["mem-a", "mem-b"]);
+
+    db.updateMemory("mem-a", { embedding: Buffer.from(unitVector(2).buffer) });
+    assert.equal(db.searchVectorTable(unitVector(2), 1)[0].id, "mem-a");
+
+    db.deleteMemory("mem-b");
+    assert.deepEqual(vectorIds(), ["mem-a"]);
+  });
+
+  it("should roll back the vector row with its memory", () => {
+    new sqliteVec.SqliteVecStore();
+    assert.throws(() => db.runInTransaction(() => {
+      insert("mem-a", 0);
+      throw new Error("abort");
+    }));
+    assert.deepEqual(vectorIds(), []);
+  });
+
+  it("should keep tier in sync for decay and promotion", () => {
+    const store = new sqliteVec.SqliteVecStore();
+    insert("mem-a", 0);
+
+    db.applyDecayUpdates([{ id: "mem-a", decay_score: 0.1, tier: "cold" }]);
+    assert.equal(store.search(unitVector(0), 1, { tiers: ["hot"] }).length, 0);
+    assert.equal(store.search(unitVector(0), 1, { tiers: ["cold"] })[0].id, "mem-a");
+
+    db.getMemory("mem-a");
+    assert.equal(store.search(unitVector(0), 1, { tiers: ["hot"] })[0].id, "mem-a");
+  });
+
+  it("should filter by type inside the vector query and recheck other filters", () => {
+    const store = new sqliteVec.SqliteVecStore();
+    for (let i = 0; i < 10; i++) insert(`mem-${i}`, i, { type: i === 7 ? "decision" : "raw", tags: i === 4 ? ["pick"] : [] });
+
+    assert.deepEqual(store.search(unitVector(0), 1, { types: ["decision"] }).map((r) => r.id), ["mem-7"]);
+    assert.deepEqual(store.search(unitVector(0), 1, { tags: ["pick"] }).map((r) => r.id), ["mem-4"]);
+
+    const top = store.search(unitVector(3), 1)[0];
+    assert.equal(top.id, "mem-3");
+    assert.ok(Math.abs(top.score - 1) < 1e-6);
+  });
+});
+
+describe("sqlite-vec loader failure", () => {
+  beforeEach(async () => {
+    testDir = join(tmpdir(), `moltmind-sqlitevec-fail-${crypto.randomUUID()}`);
+    mkdirSync(testDir, { recursive: true });
+    process.chdir(testDir);
+
+    db = await import("../src/db.js");
+    db._disableVectorTable();
+    db.closeDb();
+    db.initProjectVault();
+  });
+
+  afterEach(() => {
+    db._disableVectorTable();
+    db.closeDb();
+    process.chdir(originalCwd);
+    if (existsSync(testDir)) {
+      rmSync(testDir, { recursive: true, force: true });
+    }
+  });
+
+  it("should leave the vector table disabled when the extension fails to load", () => {
+    assert.throws(() => db.enableVectorTable(() => { throw new Error("binary missing"); }), /binary missing/);
+    assert.equal(db.isVectorTableEnabled(), false);
+
+    // Memory writes and new connections carry on without memory_vectors
+    insert("mem-a", 0);
+    db.updateMemory("mem-a", { title: "renamed" });
+    db.closeDb();
+    assert.equal(db.getMemoryRaw("mem-a")!.title, "renamed");
+  });
+});